@@ -0,0 +1,64 @@
+/**
+ * Headless card runner (Node, no jsdom)
+ *
+ * Usage:
+ *   npm run card:run -- --card ζ.card.sun-contract --state state.json --steps 100 [--dt 0.016] [--out result.json]
+ *   npm run card:run -- --list
+ *
+ * --list prints every registered card id and whether it runs headless (and why not).
+ * Prints { cardId, steps, state, zeta, failures } as JSON (or writes it to --out).
+ * Exits 1 when the card cannot run, 2 when it reports error-severity failures.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { headlessSupport, runHeadless } from '../src/headless';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    args[arg.slice(2)] = next !== undefined && !next.startsWith('--') ? argv[++i] : 'true';
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.list) {
+    for (const { cardId, runnable, reason } of headlessSupport()) {
+      console.log(runnable ? `${cardId}` : `${cardId}  (not runnable: ${reason})`);
+    }
+    return;
+  }
+  if (!args.card) {
+    console.error('usage: run-card --card <id> [--state file.json] [--steps N] [--dt seconds] [--out file.json] | --list');
+    process.exit(1);
+  }
+
+  const state = args.state ? JSON.parse(await readFile(args.state, 'utf8')) : undefined;
+  const result = runHeadless({
+    cardId: args.card,
+    state,
+    steps: args.steps ? Number(args.steps) : 0,
+    dt: args.dt ? Number(args.dt) : undefined,
+  });
+
+  const json = JSON.stringify(result, null, 2);
+  if (args.out) {
+    await writeFile(args.out, json + '\n', 'utf8');
+  } else {
+    console.log(json);
+  }
+
+  if (result.failures.some((f) => f.severity === 'error')) {
+    process.exit(2);
+  }
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : String(e));
+  console.error('run with --list to see which cards can run headless');
+  process.exit(1);
+});
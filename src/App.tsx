@@ -2,9 +2,26 @@ import React, {useEffect, useRef, useState} from "react";
 import {Card} from "./zetacard";
 import SpectralHeartbeat from "./components/SpectralHeartbeat";
 import Omnibox from "./components/Omnibox";
+import SafeRunPanel from "./components/SafeRunPanel";
+import Workspace, {useWorkspaceState} from "./components/Workspace";
 import {Quadtree} from "./quadtree";
 import {sigmoid, cosine} from "./math";
-import type {CardQueryResult} from "./cardRegistry";
+import {cardRuntime} from "./cardRuntime";
+import {CardRouter} from "./router";
+import {cardDataflow} from "./cardDataflow";
+import {CardPersistence, LocalStorageStateStore} from "./cardPersistence";
+import {Omnicard} from "./cards/omnicard";
+import {ReadmeCard} from "./cards/readmeCard";
+import {demoSunContract} from "./cards/sunContract";
+import {ApprovalQueueCard} from "./approvalQueueCase";
+import {registerComponentCards} from "./cards/componentCards";
+import {startSafeRun, type SafeRunSession} from "./safeRun";
+import {cardRecents} from "./cardRecents";
+import {cardWorkspace} from "./cardWorkspace";
+import {eventLog} from "./instrumentation";
+import {followLocation} from "./cardManifests";
+import {locationManager} from "./location";
+import {repo} from "./zetaRepo";
 
 const W=900, H=600;
 
@@ -37,8 +54,8 @@ export default function App(){
   const [beta,setBeta] = useState(1);
   const [resThresh,setResThresh] = useState(0.2);
   const [tickEpsilon, setTickEpsilon] = useState(0.15);
-  const [activeCard, setActiveCard] = useState<string | null>(null);
-  const [activeCardData, setActiveCardData] = useState<CardQueryResult | null>(null);
+  const workspace = useWorkspaceState(cardWorkspace);
+  const [safeRun, setSafeRun] = useState<{ title: string; session: SafeRunSession | null; error?: string } | null>(null);
   const qtRef = useRef(new Quadtree(0,0,1,1));
   const prevZetaA = useRef<number[] | undefined>(cardA.zeta.slice());
   const prevZetaB = useRef<number[] | undefined>(cardB.zeta.slice());
@@ -137,41 +154,79 @@ export default function App(){
     return ()=>{ c.removeEventListener('mousedown', onDown); c.removeEventListener('mousemove', onMove); window.removeEventListener('mouseup', onUp); c.removeEventListener('dblclick', dbl); };
   },[drag,rects]);
 
-  // Handle Escape key to close active card view
+  // Live card instances are owned by the runtime; the view only mirrors its active id
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && activeCard) {
-        setActiveCard(null);
-        setActiveCardData(null);
-      }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeCard]);
+    const unregisterComponentCards = registerComponentCards();
+    // Both follow global stores (recents, registry) until disposed
+    const omnicard = new Omnicard();
+    const readme = new ReadmeCard();
+    cardRuntime.register(omnicard);
+    cardRuntime.register(readme);
+    // Seeded with the demo agents; its view steps it while running
+    cardRuntime.register(demoSunContract());
+    cardRuntime.register(cardA);
+    // Fed by cardA's band energy through the dataflow pipeline
+    cardRuntime.register(new ApprovalQueueCard());
+    // Publish initial outputs downstream; from here on cards report their own changes
+    cardDataflow.runAll();
+    // Repo manifests follow the current location: branch moves and new commits reload the registry
+    const stopManifests = followLocation(locationManager, repo);
+    // Every activated card opens (or focuses) a workspace pane
+    const stopWorkspace = cardWorkspace.trackRuntime(cardRuntime);
+    // The URL reflects the active card id (and back/forward re-activates cards)
+    const stopRouter = new CardRouter(cardRuntime).start();
+    // Card state survives reloads: restore once registered, snapshot on unload
+    const persistence = new CardPersistence(new LocalStorageStateStore());
+    void persistence.restore();
+    const save = () => { void persistence.save(); void cardWorkspace.save(); };
+    window.addEventListener('beforeunload', save);
+    // Recents persist separately and count every activation, whatever triggered it
+    void cardRecents.load(new LocalStorageStateStore('zetacard.recents'));
+    const stopRecents = cardRecents.trackRuntime(cardRuntime);
+    // Open cards and their layout persist with the session
+    void cardWorkspace.load(new LocalStorageStateStore('zetacard.workspace'));
+    return () => { window.removeEventListener('beforeunload', save); stopManifests(); stopRecents(); stopRouter(); stopWorkspace(); unregisterComponentCards(); omnicard.dispose(); readme.dispose(); };
+  }, [cardA]);
 
   return (<div>
-    <Omnibox onInvoke={(id, mode, card) => {
-      setActiveCard(id);
-      setActiveCardData(card);
+    <Omnibox onInvoke={(id, mode, card, input) => {
+      if (mode === 'SafeRun') {
+        // Preview against a sandbox copy; the live card changes only on commit
+        if (!cardRuntime.has(id)) {
+          // Nothing to sandbox, so nothing is opened or logged
+          setSafeRun({ title: card.manifest.title, session: null, error: `SafeRun needs a live instance; ${id} has none. Use Run to open its manifest.` });
+          setOpen(false);
+          return;
+        }
+        try {
+          setSafeRun({ title: card.manifest.title, session: startSafeRun(id, { input }) });
+        } catch (e) {
+          setSafeRun({ title: card.manifest.title, session: null, error: e instanceof Error ? e.message : String(e) });
+        }
+        setOpen(false);
+        return;
+      }
+      if (cardRuntime.has(id)) {
+        cardRuntime.activate(id, { reason: 'user_selected', input }, mode);
+      } else {
+        // Manifest-only entry: no live instance to activate, so no runtime event either
+        cardWorkspace.open(id);
+        cardRecents.recordVisit(id);
+        eventLog.emit({ type: 'CARD_OPENED', cardId: id, mode, flowId: eventLog.getCurrentFlowId() });
+      }
       setOpen(false);
     }} open={open} onOpenChange={setOpen} />
-    {activeCard && activeCardData && (
-      <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: '#0a0e27', zIndex: 9000, overflow: 'auto' }}>
-        <div style={{ position: 'absolute', top: '12px', right: '12px', zIndex: 10000 }}>
-          <button onClick={() => { setActiveCard(null); setActiveCardData(null); }} style={{ padding: '8px 12px', background: '#333', color: '#fff', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
-            Close (Esc)
-          </button>
-        </div>
-        <div style={{ padding: '20px', maxWidth: '90vw', margin: '0 auto' }}>
-          <h1 style={{ color: '#fff', marginBottom: '12px' }}>{activeCardData.manifest.title}</h1>
-          <p style={{ color: '#bbb', marginBottom: '20px' }}>{activeCardData.manifest.tagline}</p>
-          <div style={{ color: '#ddd', whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '12px' }}>
-            {activeCardData.manifest.semanticDescriptor}
-          </div>
-        </div>
-      </div>
+    {safeRun && (
+      <SafeRunPanel
+        title={safeRun.title}
+        session={safeRun.session}
+        error={safeRun.error}
+        onCommit={() => { safeRun.session?.commit({ reason: 'user_selected' }); setSafeRun(null); }}
+        onDiscard={() => { safeRun.session?.discard(); setSafeRun(null); }}
+      />
     )}
-    {!activeCard && (
+    <Workspace workspace={cardWorkspace} omniboxOpen={open} />
+    {workspace.panes.length === 0 && (
       <div data-testid="main-view">
         <div className="controls">
           <div>Card A ambient <input type="range" min={0} max={1} step={0.01} value={ambientA} onChange={e=>setAmbientA(Number(e.target.value))} /> <strong>{ambientA.toFixed(2)}</strong></div>
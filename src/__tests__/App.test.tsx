@@ -2,6 +2,10 @@ import React from 'react'
 import { render, screen, waitFor } from '@testing-library/react'
 import { test, expect, vi, afterEach, beforeEach } from 'vitest'
 import App from '../App'
+import { cardRecents } from '../cardRecents'
+import { cardRuntime } from '../cardRuntime'
+import { ApprovalQueueCard } from '../approvalQueueCase'
+import { locationManager } from '../location'
 
 // Mock canvas context (jsdom doesn't support canvas operations)
 beforeEach(() => {
@@ -106,3 +110,57 @@ test('canvas has background color style to prevent blank appearance', () => {
   // Browsers convert hex to rgb format
   expect(canvas.style.backgroundColor).toBe('rgb(17, 17, 17)')
 })
+
+test('unmounting disposes the cards that follow the recents list', () => {
+  const subscribe = cardRecents.subscribe.bind(cardRecents)
+  const active = new Set<() => void>()
+  const spy = vi.spyOn(cardRecents, 'subscribe').mockImplementation((listener) => {
+    const unsubscribe = subscribe(listener)
+    const tracked = () => {
+      active.delete(tracked)
+      unsubscribe()
+    }
+    active.add(tracked)
+    return tracked
+  })
+  try {
+    const { unmount } = render(<App />)
+    expect(active.size).toBeGreaterThan(0)
+    unmount()
+    expect(active.size).toBe(0)
+  } finally {
+    spy.mockRestore()
+  }
+})
+
+test('the approval queue follows the heartbeat band energy through the dataflow pipeline', async () => {
+  // jsdom never runs animation frames; drive them from timers
+  vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => setTimeout(() => cb(performance.now()), 16))
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => clearTimeout(id))
+  vi.stubGlobal('ImageData', class {
+    data: Uint8ClampedArray
+    constructor(readonly width: number, readonly height: number) {
+      this.data = new Uint8ClampedArray(width * height * 4)
+    }
+  })
+  const { unmount } = render(<App />)
+  try {
+    const queue = cardRuntime.get('ζ.card.approval-queue') as ApprovalQueueCard
+    expect(queue).toBeInstanceOf(ApprovalQueueCard)
+    // The animation loop steps the heartbeat; its changes are flushed once per frame
+    await waitFor(() => expect(queue.getState().intakeRate).toBeGreaterThan(0))
+  } finally {
+    unmount()
+    vi.unstubAllGlobals()
+  }
+})
+
+test('the registry follows the location manager while mounted', () => {
+  const listening = () => ['moved', 'commit'].map((ev) => locationManager.listeners[ev]?.length ?? 0)
+  const before = listening()
+  const { unmount } = render(<App />)
+  expect(listening()).toEqual(before.map((n) => n + 1))
+
+  unmount()
+  expect(listening()).toEqual(before)
+})
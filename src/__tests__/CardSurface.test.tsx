@@ -0,0 +1,96 @@
+import React from 'react'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { test, expect, vi } from 'vitest'
+import CardSurface from '../components/CardSurface'
+import { SunContract, demoSunContract } from '../cards/sunContract'
+import type { ZetaCardContract } from '../cardContract'
+
+const manifest = { title: 'Sun Contract', tagline: 'Bounded couplings', semanticDescriptor: 'Manifest text only' }
+
+function stubCard(overrides: Partial<ZetaCardContract> = {}): ZetaCardContract {
+  return {
+    id: 'ζ.card.stub',
+    meta: { title: 'Stub' },
+    getState: () => ({}),
+    setState: () => {},
+    activate: () => {},
+    ...overrides,
+  }
+}
+
+const risky = { id: 'pasted', capCurrent: 1, processingCapacity: 0.1, ramping: 0.5, doseBudget: 10, exposure: 0.8, exposureRampRate: 0.1 }
+
+test('mounts the view registered for the card id instead of the manifest text', () => {
+  const sun = new SunContract()
+  render(<CardSurface card={sun} manifest={manifest} />)
+
+  expect(screen.getByRole('heading', { name: 'Sun Contract Visualizer' })).toBeTruthy()
+  expect(screen.queryByText('Manifest text only')).toBeNull()
+  // Demo agents belong to the visualizer's private contract, never the live card
+  expect(sun.getState().agents).toEqual({})
+})
+
+test('steps the opened Sun Contract after Start', () => {
+  vi.useFakeTimers()
+  try {
+    const sun = demoSunContract()
+    render(<CardSurface card={sun} manifest={manifest} />)
+    expect(sun.getState().fieldEnergy).toBe(0)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }))
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    expect(sun.getState().fieldEnergy).not.toBe(0)
+    expect(sun.getState().lastStepTime).toBeGreaterThan(0)
+  } finally {
+    vi.useRealTimers()
+  }
+})
+
+test('Reset clears the live card counters and keeps its agents', () => {
+  const sun = new SunContract()
+  sun.receive({ 'facet:agent': risky })
+  sun.step()
+  sun.step()
+  expect(sun.getState().agentDose.pasted).toBeGreaterThan(0)
+  render(<CardSurface card={sun} manifest={manifest} />)
+
+  fireEvent.click(screen.getByRole('button', { name: 'Reset' }))
+  const state = sun.getState()
+  expect(Object.keys(state.agents)).toEqual(['pasted'])
+  expect(state.agentDose.pasted).toBe(0)
+  expect(state.fieldEnergy).toBe(0)
+  expect(state.violations).toEqual([])
+})
+
+test('falls back to the manifest text for cards without a View', () => {
+  render(<CardSurface card={null} manifest={manifest} />)
+  expect(screen.getByText('Manifest text only')).toBeTruthy()
+})
+
+test('shows getFailures() as banners, errors as alerts', () => {
+  const card = stubCard({
+    getFailures: () => [
+      { code: 'dose_exceeded', message: 'Budget exhausted', severity: 'error' },
+      { code: 'invalid_input', message: 'Bad payload', severity: 'warn' },
+    ],
+  })
+  render(<CardSurface card={card} manifest={manifest} />)
+
+  expect(screen.getByRole('alert').textContent).toBe('dose_exceeded Budget exhausted')
+  expect(screen.getByRole('status').textContent).toBe('invalid_input Bad payload')
+})
+
+test('a View that throws falls back to the manifest text', () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  const card = stubCard({
+    View: () => {
+      throw new Error('no canvas')
+    },
+  })
+  render(<CardSurface card={card} manifest={manifest} />)
+
+  expect(screen.getByRole('alert').textContent).toBe('View failed: no canvas')
+  expect(screen.getByText('Manifest text only')).toBeTruthy()
+})
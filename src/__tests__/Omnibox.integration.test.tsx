@@ -1,7 +1,12 @@
 import React from 'react'
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import { describe, test, expect, vi } from 'vitest'
 import App from '../App'
+import Omnibox from '../components/Omnibox'
+import { registerCard, unregisterCard } from '../cardRegistry'
+import { cardRecents } from '../cardRecents'
+import { eventLog } from '../instrumentation'
+import { cardWorkspace } from '../cardWorkspace'
 
 // Mock Three.js Canvas for testing (not available in jsdom)
 vi.mock('@react-three/fiber', () => ({
@@ -91,4 +96,169 @@ test('click Close button -> returns to main view', async () => {
     expect(mainView).toBeTruthy()
   }, { timeout: 2000 })
 })
+
+test('Escape closes the omnibox and marks the key as handled', () => {
+  render(<Omnibox />)
+  // fireEvent returns false once a listener called preventDefault()
+  expect(fireEvent.keyDown(window, { key: 'Escape' })).toBe(false)
+  expect(screen.queryByPlaceholderText(/Type card ID or name/i)).toBeNull()
+})
+
+test('omnibox results refresh when a card is registered', async () => {
+  render(<Omnibox />)
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'late' } })
+  expect(screen.queryByRole('option', { name: /Late Arrival/ })).toBeNull()
+
+  act(() => {
+    registerCard({
+      id: 'ζ.card.late-arrival',
+      meta: { title: 'Late Arrival', description: 'Registered after mount' },
+      implementationPath: 'src/late.ts',
+      invariants: ['Late: registered at runtime'],
+      failureModes: [],
+    })
+  })
+  expect(screen.getByRole('option', { name: /Late Arrival/ })).toBeTruthy()
+
+  act(() => {
+    unregisterCard('ζ.card.late-arrival')
+  })
+  expect(screen.queryByRole('option', { name: /Late Arrival/ })).toBeNull()
+})
+
+test('opening a manifest-only card emits CARD_OPENED', async () => {
+  registerCard({
+    id: 'ζ.card.manifest-only',
+    meta: { title: 'Manifest Only', description: 'No live instance' },
+    implementationPath: 'src/manifestOnly.ts',
+    invariants: [],
+    failureModes: [],
+  })
+  try {
+    render(<App />)
+    eventLog.clear()
+    fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'manifest only' } })
+    fireEvent.click(await screen.findByRole('button', { name: /Activate/i }))
+
+    const selected = eventLog.lastEventOfType('CARD_SELECTED')
+    expect(eventLog.lastEventOfType('CARD_OPENED')).toMatchObject({
+      cardId: 'ζ.card.manifest-only',
+      mode: 'Run',
+      flowId: selected?.type === 'CARD_SELECTED' && selected.flowId,
+    })
+  } finally {
+    act(() => cardWorkspace.closeAll())
+    unregisterCard('ζ.card.manifest-only')
+  }
+})
+
+test('SafeRun refuses a manifest-only card instead of opening it', async () => {
+  registerCard({
+    id: 'ζ.card.manifest-only',
+    meta: { title: 'Manifest Only', description: 'No live instance' },
+    implementationPath: 'src/manifestOnly.ts',
+    invariants: [],
+    failureModes: [],
+  })
+  try {
+    render(<App />)
+    eventLog.clear()
+    fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'manifest only' } })
+    fireEvent.click(await screen.findByRole('button', { name: 'SafeRun selection' }))
+
+    const panel = await screen.findByRole('dialog', { name: /SafeRun preview: Manifest Only/ })
+    expect(panel.textContent).toMatch(/SafeRun needs a live instance/)
+    expect(eventLog.lastEventOfType('CARD_OPENED')).toBeUndefined()
+    expect(cardWorkspace.getState().panes).toEqual([])
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }))
+    expect(screen.queryByTestId('safe-run-panel')).toBeNull()
+  } finally {
+    act(() => cardWorkspace.closeAll())
+    unregisterCard('ζ.card.manifest-only')
+  }
+})
+
+test('omnibox tolerates typos and highlights matched ranges', () => {
+  render(<Omnibox />)
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'hartbeat' } })
+
+  const option = screen.getByRole('option', { name: /Spectral Heartbeat/ })
+  const marks = Array.from(option.querySelectorAll('mark')).map((m) => m.textContent)
+  expect(marks).toContain('Heartbeat')
+  expect(marks).toContain('heartbeat')
+})
+
+test('omnibox lists commands after > and runs the selected one with Enter', async () => {
+  render(<Omnibox />)
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: '>' } })
+
+  expect(screen.getByRole('listbox', { name: 'Command results' })).toBeTruthy()
+  expect(screen.getByRole('option', { name: /validate registry/ })).toBeTruthy()
+  expect(screen.getByRole('option', { name: /export events/ })).toBeTruthy()
+  expect(screen.queryByRole('option', { name: /Spectral Heartbeat/ })).toBeNull()
+
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: '>validate' } })
+  expect(screen.getByRole('option', { name: /validate registry/ }).getAttribute('aria-selected')).toBe('true')
+
+  fireEvent.keyDown(window, { key: 'Enter' })
+  await waitFor(() => {
+    expect(screen.getByTestId('omnibox-command-result').textContent).toMatch(/Registry is valid/)
+  })
+})
+
+test('SafeRun previews a card and leaves it inactive on discard', async () => {
+  render(<App />)
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'ζ.card.sun-contract' } })
+  fireEvent.click(screen.getByRole('button', { name: 'SafeRun selection' }))
+
+  const panel = await screen.findByRole('dialog', { name: /SafeRun preview: Sun Contract/ })
+  expect(panel.textContent).toMatch(/step\(s\) in a sandbox/)
+  expect(screen.queryByText(/Close \(Esc\)/i)).toBeNull()
+
+  fireEvent.click(screen.getByRole('button', { name: 'Discard' }))
+  expect(screen.queryByTestId('safe-run-panel')).toBeNull()
+  expect(screen.getByTestId('main-view')).toBeTruthy()
+})
+
+test('empty query leads with pinned cards, pinned from the result list', () => {
+  cardRecents.clear({ includePinned: true })
+  render(<Omnibox />)
+  expect(screen.getAllByRole('option')[0].textContent).not.toMatch(/Sun Contract/)
+
+  fireEvent.click(screen.getByRole('button', { name: 'Pin Sun Contract' }))
+  expect(screen.getAllByRole('option')[0].textContent).toMatch(/Sun Contract/)
+  expect(screen.getByRole('button', { name: 'Unpin Sun Contract' }).getAttribute('aria-pressed')).toBe('true')
+
+  // Typing a query ranks by match again
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'heartbeat' } })
+  expect(screen.getAllByRole('option')[0].textContent).toMatch(/Spectral Heartbeat/)
+
+  cardRecents.clear({ includePinned: true })
+})
+
+test('pasted number series is offered to the spectral card and passed on activation', () => {
+  const onInvoke = vi.fn()
+  render(<Omnibox onInvoke={onInvoke} />)
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: '3, 1, 4, 1, 5' } })
+
+  const route = screen.getAllByRole('option')[0]
+  expect(route.textContent).toMatch(/Send to Spectral Heartbeat/)
+  expect(route.getAttribute('aria-selected')).toBe('true')
+
+  fireEvent.keyDown(window, { key: 'Enter' })
+  expect(onInvoke).toHaveBeenCalledWith('ζ.card.spectral.heartbeat', 'Run', expect.anything(), {
+    'facet:number-series': [3, 1, 4, 1, 5],
+  })
+})
+
+test('filter tokens narrow the results and are shown as active filters', () => {
+  render(<Omnibox onInvoke={() => {}} />)
+  fireEvent.change(screen.getByPlaceholderText(/Type card ID or name/i), { target: { value: 'tag:contract -tag:system' } })
+
+  expect(screen.getByLabelText('Active filters').textContent).toBe('tag:contract-tag:system')
+  const options = screen.getAllByRole('option')
+  expect(options).toHaveLength(1)
+  expect(options[0].textContent).toMatch(/Sun Contract/)
+})
 })
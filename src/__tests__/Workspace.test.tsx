@@ -0,0 +1,127 @@
+import React from 'react'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { test, expect, vi, beforeEach } from 'vitest'
+import Workspace from '../components/Workspace'
+import { CardWorkspace } from '../cardWorkspace'
+import { CardRuntime } from '../cardRuntime'
+import { SunContract, demoSunContract } from '../cards/sunContract'
+import { ReadmeCard } from '../cards/readmeCard'
+
+function setup(omniboxOpen = false) {
+  const runtime = new CardRuntime()
+  runtime.register(new SunContract())
+  runtime.register(new ReadmeCard())
+  const workspace = new CardWorkspace(runtime)
+  const view = render(<Workspace workspace={workspace} omniboxOpen={omniboxOpen} />)
+  return { runtime, workspace, view }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+test('shows open cards as tabs and cycles them with Alt+] / Alt+[', () => {
+  const { runtime, workspace } = setup()
+  expect(screen.queryByTestId('workspace')).toBeNull()
+
+  act(() => {
+    workspace.open('ζ.card.sun-contract')
+    workspace.open('ζ.card.readme')
+  })
+  const tabs = screen.getAllByRole('tab')
+  expect(tabs.map((t) => t.textContent)).toEqual(['Sun Contract×', 'README Card×'])
+  expect(tabs[1].getAttribute('aria-selected')).toBe('true')
+  expect(screen.getAllByRole('tabpanel')).toHaveLength(1)
+
+  fireEvent.keyDown(window, { key: ']', altKey: true })
+  expect(runtime.getActiveId()).toBe('ζ.card.sun-contract')
+  fireEvent.keyDown(window, { key: '[', altKey: true })
+  expect(runtime.getActiveId()).toBe('ζ.card.readme')
+  fireEvent.keyDown(window, { key: '1', altKey: true })
+  expect(screen.getAllByRole('tab')[0].getAttribute('aria-selected')).toBe('true')
+})
+
+test('split layout shows a live card and its copy side by side', () => {
+  const { workspace } = setup()
+  act(() => {
+    workspace.open('ζ.card.sun-contract')
+  })
+  fireEvent.click(screen.getByRole('button', { name: 'Duplicate' }))
+  fireEvent.click(screen.getByRole('button', { name: 'Split' }))
+
+  const panels = screen.getAllByRole('tabpanel')
+  expect(panels.map((p) => p.getAttribute('aria-label'))).toEqual(['Sun Contract', 'Sun Contract (copy)'])
+  expect(screen.getAllByRole('heading', { name: 'Sun Contract Visualizer' })).toHaveLength(2)
+  expect(screen.getByRole('button', { name: 'Split' }).getAttribute('aria-pressed')).toBe('true')
+
+  fireEvent.keyDown(window, { key: '\\', altKey: true })
+  expect(screen.getAllByRole('tabpanel')).toHaveLength(1)
+})
+
+test('split panes step the live card and its copy independently', () => {
+  vi.useFakeTimers()
+  try {
+    const runtime = new CardRuntime()
+    const live = demoSunContract(1)
+    runtime.register(live)
+    const workspace = new CardWorkspace(runtime)
+    render(<Workspace workspace={workspace} />)
+    act(() => {
+      workspace.open(live.id)
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Split' }))
+    // A second configuration: the copy gets a stronger source
+    const copy = workspace.card(workspace.getState().focusedKey as string) as SunContract
+    copy.setState({ ...copy.getState(), sourceStrength: 8 })
+
+    for (const start of screen.getAllByRole('button', { name: 'Start' })) fireEvent.click(start)
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    expect(live.getState().lastStepTime).toBeGreaterThan(0)
+    expect(copy.getState().lastStepTime).toBeGreaterThan(0)
+    expect(copy.getState().fieldEnergy).not.toBe(live.getState().fieldEnergy)
+  } finally {
+    vi.useRealTimers()
+  }
+})
+
+test('Escape and the close buttons close panes', () => {
+  const { runtime, workspace } = setup()
+  act(() => {
+    workspace.open('ζ.card.sun-contract')
+    workspace.open('ζ.card.readme')
+  })
+
+  fireEvent.keyDown(window, { key: 'Escape' })
+  expect(screen.getAllByRole('tab')).toHaveLength(1)
+  expect(runtime.getActiveId()).toBe('ζ.card.sun-contract')
+
+  fireEvent.click(screen.getByRole('button', { name: 'Close Sun Contract' }))
+  expect(screen.queryByTestId('workspace')).toBeNull()
+  expect(runtime.getActiveId()).toBeNull()
+})
+
+test('Escape leaves panes open while the Omnibox is open or the key was handled', () => {
+  const { workspace, view } = setup(true)
+  act(() => {
+    workspace.open('ζ.card.sun-contract')
+  })
+
+  fireEvent.keyDown(window, { key: 'Escape' })
+  expect(screen.getAllByRole('tab')).toHaveLength(1)
+
+  view.rerender(<Workspace workspace={workspace} omniboxOpen={false} />)
+  const handled = (e: KeyboardEvent) => e.preventDefault()
+  document.addEventListener('keydown', handled)
+  try {
+    fireEvent.keyDown(document, { key: 'Escape' })
+  } finally {
+    document.removeEventListener('keydown', handled)
+  }
+  expect(screen.getAllByRole('tab')).toHaveLength(1)
+
+  fireEvent.keyDown(window, { key: 'Escape' })
+  expect(screen.queryByTestId('workspace')).toBeNull()
+})
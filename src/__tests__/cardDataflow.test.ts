@@ -0,0 +1,173 @@
+/**
+ * Tests for reactive dataflow between cards
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { CardDataflow } from "../cardDataflow";
+import { CardRuntime } from "../cardRuntime";
+import {
+  ZetaCardContract,
+  CardIO,
+  CardMeta,
+  CardPortValues,
+} from "../cardContract";
+import { SunContract } from "../cards/sunContract";
+import { Card } from "../zetacard";
+
+type DashboardState = { received: CardPortValues; runs: number };
+
+class DashboardCard implements ZetaCardContract<DashboardState> {
+  readonly meta: CardMeta = { title: "Dashboard" };
+  readonly io: CardIO;
+  private state: DashboardState = { received: {}, runs: 0 };
+
+  constructor(readonly id: string, inputs: string[], outputs: string[] = []) {
+    this.io = { inputs, outputs };
+  }
+
+  getState() {
+    return { ...this.state };
+  }
+  setState(next: DashboardState) {
+    this.state = { ...next };
+  }
+  activate() {}
+
+  receive(inputs: CardPortValues) {
+    this.state = { received: { ...inputs }, runs: this.state.runs + 1 };
+  }
+
+  publish(): CardPortValues {
+    const zeta = this.state.received["sun.zeta"] as number[] | undefined;
+    return { [`${this.id}.health`]: zeta ? zeta[0] : null };
+  }
+}
+
+describe("CardDataflow", () => {
+  let runtime: CardRuntime;
+  let flow: CardDataflow;
+
+  beforeEach(() => {
+    runtime = new CardRuntime();
+    flow = new CardDataflow(runtime);
+  });
+
+  it("delivers published outputs to downstream inputs", () => {
+    const sun = new SunContract();
+    const dashboard = new DashboardCard("dashboard", ["sun.zeta"]);
+    runtime.register(dashboard);
+    runtime.register(sun);
+
+    sun.step();
+    flow.notifyChanged(sun.id);
+    expect(flow.flush()).toEqual({ ran: [sun.id, "dashboard"], skipped: [] });
+    expect(dashboard.getState().received["sun.zeta"]).toEqual(sun.zeta);
+  });
+
+  it("re-runs only the affected subgraph", () => {
+    runtime.register(new SunContract());
+    runtime.register(new Card(8));
+    const sunDash = new DashboardCard("sun-dash", ["sun.zeta"]);
+    const bandDash = new DashboardCard("band-dash", ["spectral.bandEnergy"]);
+    runtime.register(sunDash);
+    runtime.register(bandDash);
+    flow.runAll();
+
+    flow.notifyChanged("ζ.card.spectral.heartbeat");
+    const { ran } = flow.flush();
+
+    expect(ran).toEqual(["ζ.card.spectral.heartbeat", "band-dash"]);
+    expect(sunDash.getState().runs).toBe(1);
+    expect(bandDash.getState().runs).toBe(2);
+  });
+
+  it("propagates through chains transitively", () => {
+    const sun = new SunContract();
+    const mid = new DashboardCard("mid", ["sun.zeta"], ["mid.health"]);
+    const leaf = new DashboardCard("leaf", ["mid.health"]);
+    runtime.register(leaf);
+    runtime.register(mid);
+    runtime.register(sun);
+
+    flow.notifyChanged(sun.id);
+    flow.flush();
+
+    expect(flow.getValue("mid.health")).toBe(1);
+    expect(leaf.getState().received["mid.health"]).toBe(1);
+  });
+
+  it("batches notifications into a microtask", async () => {
+    const sun = new SunContract();
+    const dashboard = new DashboardCard("dashboard", ["sun.zeta"]);
+    runtime.register(sun);
+    runtime.register(dashboard);
+
+    flow.notifyChanged(sun.id);
+    flow.notifyChanged(sun.id);
+    expect(dashboard.getState().runs).toBe(0);
+
+    await Promise.resolve();
+    expect(dashboard.getState().runs).toBe(1);
+  });
+
+  it("coalesces changes until the scheduled flush", () => {
+    const frames: (() => void)[] = [];
+    runtime = new CardRuntime();
+    flow = new CardDataflow(runtime, { schedule: (flush) => frames.push(flush) });
+    const card = new Card(4);
+    const bandDash = new DashboardCard("band-dash", ["spectral.bandEnergy"]);
+    runtime.register(card);
+    runtime.register(bandDash);
+
+    for (let i = 0; i < 5; i++) card.step();
+    expect(frames).toHaveLength(1);
+    expect(bandDash.getState().runs).toBe(0);
+
+    frames[0]();
+    expect(bandDash.getState().runs).toBe(1);
+    expect(bandDash.getState().received["spectral.bandEnergy"]).toEqual(card.bandEnergy);
+  });
+
+  it("propagates changes the cards report from their own mutators", async () => {
+    const sun = new SunContract();
+    const card = new Card(4);
+    const sunDash = new DashboardCard("sun-dash", ["sun.zeta"]);
+    const bandDash = new DashboardCard("band-dash", ["spectral.bandEnergy"]);
+    for (const c of [sun, card, sunDash, bandDash]) runtime.register(c);
+
+    sun.step();
+    await Promise.resolve();
+    expect(sunDash.getState().received["sun.zeta"]).toEqual(sun.zeta);
+    expect(bandDash.getState().runs).toBe(0);
+
+    card.setState(card.getState());
+    await Promise.resolve();
+    expect(bandDash.getState().runs).toBe(1);
+
+    runtime.unregister(sun.id);
+    sun.step();
+    expect(flow.flush().ran).toEqual([]);
+  });
+
+  it("reports cards on a dependency cycle as skipped", () => {
+    const ping = new DashboardCard("ping", ["pong.health"], ["ping.health"]);
+    const pong = new DashboardCard("pong", ["ping.health"], ["pong.health"]);
+    const sunDash = new DashboardCard("sun-dash", ["sun.zeta"]);
+    for (const c of [ping, pong, sunDash, new SunContract()]) runtime.register(c);
+
+    const report = flow.runAll();
+    expect(report.ran).toEqual(["ζ.card.sun-contract", "sun-dash"]);
+    expect(report.skipped.map((s) => s.cardId).sort()).toEqual(["ping", "pong"]);
+    expect(report.skipped[0].reason).toContain("ping → pong");
+    expect(ping.getState().runs).toBe(0);
+  });
+
+  it("notifies subscribers of published values", () => {
+    runtime.register(new SunContract());
+    const seen: string[] = [];
+    flow.subscribe((key, _value, producer) => seen.push(`${producer}:${key}`));
+
+    flow.runAll();
+    expect(seen).toEqual(["ζ.card.sun-contract:sun.zeta"]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for the card dependency graph (CardIO resolution)
+ */
+
+import { describe, it, expect } from "vitest";
+import { CardGraph, CardGraphNode, buildCardGraph } from "../cardGraph";
+import { Omnicard } from "../cards/omnicard";
+
+function node(id: string, inputs: string[] = [], outputs: string[] = []): CardGraphNode {
+  return { id, inputs, outputs };
+}
+
+describe("CardGraph", () => {
+  it("matches outputs to inputs and orders producers first", () => {
+    const graph = new CardGraph([
+      node("dashboard", ["sun.zeta", "spectral.zeta"]),
+      node("sun", [], ["sun.zeta"]),
+      node("heartbeat", [], ["spectral.zeta"]),
+    ]);
+
+    expect(graph.edges).toHaveLength(2);
+    expect(graph.feeds("dashboard").map((e) => e.from).sort()).toEqual(["heartbeat", "sun"]);
+    expect(graph.dependents("sun")).toEqual([{ from: "sun", to: "dashboard", key: "sun.zeta" }]);
+    expect(graph.order.indexOf("dashboard")).toBeGreaterThan(graph.order.indexOf("sun"));
+    expect(graph.order.indexOf("dashboard")).toBeGreaterThan(graph.order.indexOf("heartbeat"));
+    expect(graph.hasCycles()).toBe(false);
+  });
+
+  it("reports missing_input when no card produces a declared input", () => {
+    const graph = new CardGraph([node("queue", ["spectral.bandEnergy"])]);
+    const failures = graph.getFailures("queue");
+    expect(failures).toHaveLength(1);
+    expect(failures[0].code).toBe("missing_input");
+    expect(failures[0].message).toContain("spectral.bandEnergy");
+  });
+
+  it("detects cycles and keeps them out of the topological order", () => {
+    const graph = new CardGraph([
+      node("a", ["b.out"], ["a.out"]),
+      node("b", ["a.out"], ["b.out"]),
+      node("c", ["b.out"]),
+      node("loop", ["loop.out"], ["loop.out"]),
+    ]);
+
+    expect(graph.cycles).toHaveLength(2);
+    expect(graph.cycles.map((c) => [...c].sort())).toContainEqual(["a", "b"]);
+    expect(graph.cycles).toContainEqual(["loop"]);
+    expect(graph.getFailures("a")[0].code).toBe("dependency_cycle");
+    expect(graph.order).toEqual(["c"]);
+  });
+
+  it("walks transitive dependents", () => {
+    const graph = new CardGraph([
+      node("src", [], ["x"]),
+      node("mid", ["x"], ["y"]),
+      node("leaf", ["y"]),
+      node("other"),
+    ]);
+    expect(graph.downstreamOf("src").sort()).toEqual(["leaf", "mid"]);
+    expect(graph.downstreamOf("other")).toEqual([]);
+    expect(graph.producersOf("y")).toEqual(["mid"]);
+  });
+
+  it("builds a healthy graph from the registry", () => {
+    const graph = buildCardGraph();
+    expect(graph.nodes.has("ζ.card.sun-contract")).toBe(true);
+    expect(graph.producersOf("sun.zeta")).toEqual(["ζ.card.sun-contract"]);
+    expect(graph.getAllFailures().size).toBe(0);
+  });
+
+  it("is queryable from the Omnicard", () => {
+    const deps = new Omnicard().getDependencies("ζ.card.sun-contract");
+    expect(deps.feeds).toEqual([]);
+    expect(deps.failures).toEqual([]);
+  });
+});
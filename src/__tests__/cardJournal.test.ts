@@ -0,0 +1,125 @@
+/**
+ * Tests for the card state journal (undo / redo)
+ */
+
+import { describe, it, expect } from "vitest";
+import { CardJournal } from "../cardJournal";
+import { Omnicard } from "../cards/omnicard";
+import { SunContract, SunContractAgent } from "../cards/sunContract";
+import { Card } from "../zetacard";
+
+function agent(id: string): SunContractAgent {
+  return {
+    id,
+    capCurrent: 0.5,
+    processingCapacity: 1.0,
+    ramping: 0.2,
+    doseBudget: 10,
+    exposure: 0.4,
+    exposureRampRate: 0.1,
+  };
+}
+
+describe("CardJournal", () => {
+  it("undoes and redoes tracked mutations", () => {
+    const omni = new Omnicard();
+    const journal = new CardJournal(omni, { coalesceMs: 0, now: () => 0 });
+    journal.track("setQuery");
+
+    omni.setQuery("a");
+    omni.setQuery("ab");
+    expect(journal.getEntries()).toHaveLength(2);
+
+    expect(journal.undo()).toBe(true);
+    expect(omni.getQuery()).toBe("a");
+    expect(journal.undo()).toBe(true);
+    expect(omni.getQuery()).toBe("");
+    expect(journal.undo()).toBe(false);
+
+    expect(journal.redo()).toBe(true);
+    expect(omni.getQuery()).toBe("a");
+    expect(journal.getCursor()).toBe(1);
+  });
+
+  it("drops the redo branch when a new change is recorded", () => {
+    const omni = new Omnicard();
+    const journal = new CardJournal(omni, { coalesceMs: 0 });
+    journal.track("setQuery");
+
+    omni.setQuery("a");
+    omni.setQuery("b");
+    journal.undo();
+    omni.setQuery("c");
+
+    expect(journal.canRedo()).toBe(false);
+    expect(journal.getEntries().map((e) => e.after.query)).toEqual(["a", "c"]);
+  });
+
+  it("coalesces bursts of the same change within the window", () => {
+    let t = 0;
+    const card = new Card(4);
+    const initial = card.getState();
+    const journal = new CardJournal(card, { coalesceMs: 50, now: () => t });
+    journal.track("step", "setAttractor");
+
+    for (let i = 0; i < 10; i++) {
+      t += 16;
+      card.step();
+    }
+    t += 16;
+    card.setAttractor(true);
+
+    const entries = journal.getEntries();
+    expect(entries.map((e) => [e.label, e.count])).toEqual([["step", 10], ["setAttractor", 1]]);
+    expect(entries[0].startedAt).toBe(16);
+    expect(entries[0].updatedAt).toBe(160);
+
+    journal.undo();
+    journal.undo();
+    expect(Array.from(card.surface)).toEqual(Array.from(initial.surface));
+  });
+
+  it("keeps at most `depth` entries", () => {
+    const sun = new SunContract();
+    const journal = new CardJournal(sun, { depth: 2, coalesceMs: 0 });
+    journal.track("couple");
+
+    sun.couple(agent("a"));
+    sun.couple(agent("b"));
+    sun.couple(agent("c"));
+
+    expect(journal.getEntries().map((e) => e.seq)).toEqual([2, 3]);
+    journal.undo();
+    journal.undo();
+    expect(journal.canUndo()).toBe(false);
+    expect(Object.keys(sun.getState().agents)).toEqual(["a"]);
+  });
+
+  it("journals only the outermost of nested records", () => {
+    const omni = new Omnicard();
+    const journal = new CardJournal(omni);
+
+    journal.record("batch", () => {
+      journal.record("inner", () => omni.setQuery("x"));
+      omni.setQuery("xy");
+    });
+
+    expect(journal.getEntries().map((e) => e.label)).toEqual(["batch"]);
+  });
+
+  it("restores original methods and notifies subscribers", () => {
+    const omni = new Omnicard();
+    const journal = new CardJournal(omni);
+    const cursors: number[] = [];
+    journal.subscribe((_entries, cursor) => cursors.push(cursor));
+
+    const untrack = journal.track("setQuery");
+    omni.setQuery("a");
+    untrack();
+    omni.setQuery("b");
+
+    expect(journal.getEntries()).toHaveLength(1);
+    expect(cursors).toEqual([1]);
+    expect(() => journal.track("missing")).toThrow("not a method");
+  });
+});
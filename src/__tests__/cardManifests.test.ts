@@ -0,0 +1,188 @@
+/**
+ * Tests for loading card manifests from the ZetaRepo into the registry
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
+import { diffManifests, followLocation, isRepoCard, loadRegistryFromRepo, parseCardManifest } from "../cardManifests";
+import { getCard, refreshRegistryFromRepo } from "../cardRegistry";
+import { LocationManager } from "../location";
+import { ZetaRepo } from "../zetaRepo";
+
+const manifest = (fields: Record<string, unknown>) => JSON.stringify(fields);
+
+describe("parseCardManifest", () => {
+  it("maps flat manifests onto registry entries", () => {
+    const entry = parseCardManifest(
+      "cards/pulse/manifest.json",
+      manifest({ id: "ζ.card.pulse", title: "Pulse", semanticDescriptor: "a pulse", tags: ["beat"] })
+    );
+    expect(entry).toEqual({
+      id: "ζ.card.pulse",
+      meta: { title: "Pulse", description: "a pulse", tags: ["beat"] },
+      implementationPath: "cards/pulse/manifest.json",
+      invariants: [],
+      failureModes: [],
+    });
+  });
+
+  it("rejects manifests without id or title", () => {
+    expect(() => parseCardManifest("p", "{")).toThrow("invalid JSON");
+    expect(() => parseCardManifest("p", manifest({ title: "x" }))).toThrow("missing id");
+    expect(() => parseCardManifest("p", manifest({ id: "x" }))).toThrow("missing title");
+    expect(() => parseCardManifest("p", manifest({ id: "x", title: "x", tags: "no" }))).toThrow("tags");
+  });
+});
+
+describe("loadRegistryFromRepo", () => {
+  // Separate store under the (gitignored) .zeta_repo directory
+  const repo = new ZetaRepo(".zeta_repo/test-manifests");
+
+  beforeAll(async () => {
+    await repo.init();
+  });
+
+  afterEach(async () => {
+    await loadRegistryFromRepo(null, repo);
+  });
+
+  it("registers manifests at a branch and follows branch switches", async () => {
+    await repo.addCardAndCommit(
+      "cards/pulse/manifest.json",
+      manifest({ id: "ζ.card.pulse", title: "Pulse", description: "main pulse" }),
+      "refs/heads/main"
+    );
+    await repo.addCardAndCommit(
+      "cards/pulse/manifest.json",
+      manifest({ id: "ζ.card.pulse", title: "Pulse (experimental)" }),
+      "refs/heads/experiment"
+    );
+    await repo.addCardAndCommit(
+      "cards/echo/manifest.json",
+      manifest({ id: "ζ.card.echo", title: "Echo" }),
+      "refs/heads/echo"
+    );
+
+    const main = await loadRegistryFromRepo("main", repo);
+    expect(main.registered).toEqual(["ζ.card.pulse"]);
+    expect(getCard("ζ.card.pulse")?.meta.description).toBe("main pulse");
+    expect(isRepoCard("ζ.card.pulse")).toBe(true);
+
+    const experiment = await loadRegistryFromRepo("refs/heads/experiment", repo);
+    expect(experiment.updated).toEqual(["ζ.card.pulse"]);
+    expect(getCard("ζ.card.pulse")?.meta.title).toBe("Pulse (experimental)");
+    expect(getCard("ζ.card.pulse")?.meta.description).toBeUndefined();
+
+    const echo = await loadRegistryFromRepo(await repo.readRef("refs/heads/echo"), repo);
+    expect(echo.removed).toEqual(["ζ.card.pulse"]);
+    expect(echo.registered).toEqual(["ζ.card.echo"]);
+    expect(getCard("ζ.card.pulse")).toBeNull();
+  });
+
+  it("never replaces built-in cards and reports malformed manifests", async () => {
+    await repo.addCardAndCommit(
+      "cards/omni/manifest.json",
+      manifest({ id: "ζ.card.omni", title: "Impostor" }),
+      "refs/heads/conflict"
+    );
+    await repo.addCardAndCommit("cards/broken/manifest.json", "{not json", "refs/heads/broken");
+
+    const conflict = await loadRegistryFromRepo("conflict", repo);
+    expect(conflict.skipped[0].reason).toContain("built-in");
+    expect(getCard("ζ.card.omni")?.meta.title).toBe("Omnicard");
+
+    const broken = await loadRegistryFromRepo("broken", repo);
+    expect(broken.skipped).toEqual([{ path: "cards/broken/manifest.json", reason: expect.stringContaining("JSON") }]);
+  });
+
+  it("removes repo cards when the ref has no commit", async () => {
+    const report = await loadRegistryFromRepo("refs/heads/missing", repo);
+    expect(report.commit).toBeNull();
+    expect(report.registered).toEqual([]);
+  });
+
+  it("reloads when the location manager moves", async () => {
+    const pulse = await repo.addCardAndCommit(
+      "cards/pulse/manifest.json",
+      manifest({ id: "ζ.card.pulse", title: "Pulse" }),
+      "refs/heads/follow-a"
+    );
+    const echo = await repo.addCardAndCommit(
+      "cards/echo/manifest.json",
+      manifest({ id: "ζ.card.echo", title: "Echo" }),
+      "refs/heads/follow-b"
+    );
+    const manager = new LocationManager();
+    manager.currentCommit = pulse.commitOid;
+
+    const stop = followLocation(manager, repo);
+    await vi.waitFor(() => expect(getCard("ζ.card.pulse")).not.toBeNull());
+
+    manager.currentCommit = echo.commitOid;
+    manager.emit("moved", { commit: echo.commitOid, path: "/" });
+    await vi.waitFor(() => expect(getCard("ζ.card.echo")).not.toBeNull());
+    expect(getCard("ζ.card.pulse")).toBeNull();
+    stop();
+  });
+});
+
+describe("refreshRegistryFromRepo", () => {
+  it("delegates to the repo manifest loader", async () => {
+    const report = await refreshRegistryFromRepo("refs/heads/zeta-no-such-branch");
+    expect(report).toMatchObject({ commit: null, registered: [] });
+  });
+});
+
+describe("diffManifests", () => {
+  const repo = new ZetaRepo(".zeta_repo/test-manifest-diffs");
+
+  beforeAll(async () => {
+    await repo.init();
+    for (const ref of ["refs/heads/before", "refs/heads/after"]) await repo.updateRef(ref, null);
+  });
+
+  it("reports key-level manifest changes between two refs", async () => {
+    const pulse = {
+      id: "ζ.card.pulse",
+      title: "Pulse",
+      invariants: ["Bounded: output stays in [0, 1]"],
+      failureModes: [{ code: "flat", message: "Flat signal", severity: "warn" }],
+    };
+    const { commitOid: before } = await repo.commitChanges(
+      "before",
+      [
+        { op: "put", path: "cards/pulse/manifest.json", content: manifest(pulse) },
+        { op: "put", path: "cards/echo/manifest.json", content: manifest({ id: "ζ.card.echo", title: "Echo" }) },
+        { op: "put", path: "cards/pulse/notes.md", content: "not a manifest" },
+      ],
+      "before"
+    );
+    await repo.updateRef("refs/heads/after", before);
+    await repo.commitChanges(
+      "after",
+      [
+        {
+          op: "put",
+          path: "cards/pulse/manifest.json",
+          content: manifest({ ...pulse, failureModes: [{ code: "flat", message: "Flat signal", severity: "error" }] }),
+        },
+        { op: "remove", path: "cards/pulse/notes.md" },
+        { op: "remove", path: "cards/echo" },
+        { op: "put", path: "cards/broken/manifest.json", content: "{not json" },
+      ],
+      "after"
+    );
+
+    const diffs = await diffManifests("before", "after", repo);
+    expect(diffs.map((d) => [d.status, d.path, d.id])).toEqual([
+      ["added", "cards/broken/manifest.json", undefined],
+      ["removed", "cards/echo/manifest.json", "ζ.card.echo"],
+      ["modified", "cards/pulse/manifest.json", "ζ.card.pulse"],
+    ]);
+    expect(diffs[0].lines).toEqual([{ op: "add", text: "{not json" }]);
+    expect(diffs[1].changes.map((c) => [c.path, c.kind])).toEqual([
+      ["id", "removed"],
+      ["title", "removed"],
+    ]);
+    expect(diffs[2].changes).toEqual([{ path: "failureModes[flat].severity", kind: "changed", from: "warn", to: "error" }]);
+  });
+});
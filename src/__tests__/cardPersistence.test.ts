@@ -0,0 +1,181 @@
+/**
+ * Tests for card state persistence and rehydration
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  CardPersistence,
+  FileStateStore,
+  FileSystemLike,
+  MemoryStateStore,
+  deserializeSnapshot,
+  serializeSnapshot,
+} from "../cardPersistence";
+import { CardRuntime } from "../cardRuntime";
+import { eventLog } from "../instrumentation";
+import { SunContract, SunContractAgent, SunContractStateSchema } from "../cards/sunContract";
+import { Card } from "../zetacard";
+
+const agent: SunContractAgent = {
+  id: "agent-1",
+  capCurrent: 0.5,
+  processingCapacity: 1.0,
+  ramping: 0.2,
+  doseBudget: 10,
+  exposure: 0.4,
+  exposureRampRate: 0.1,
+};
+
+describe("snapshot encoding", () => {
+  it("round-trips typed arrays, maps, sets and non-finite numbers", () => {
+    const text = serializeSnapshot({
+      format: 1,
+      savedAt: 0,
+      cards: {
+        a: {
+          version: 1,
+          state: {
+            surface: new Float32Array([0.25, 0.5]),
+            byId: new Map([["x", 1]]),
+            tags: new Set(["t"]),
+            mask: [0, -Infinity],
+          },
+        },
+      },
+    });
+
+    const state = deserializeSnapshot(text).cards.a.state as Record<string, unknown>;
+    expect(state.surface).toBeInstanceOf(Float32Array);
+    expect(Array.from(state.surface as Float32Array)).toEqual([0.25, 0.5]);
+    expect(state.byId).toEqual(new Map([["x", 1]]));
+    expect(state.tags).toEqual(new Set(["t"]));
+    expect(state.mask).toEqual([0, -Infinity]);
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => deserializeSnapshot(JSON.stringify({ format: 99, cards: {} }))).toThrow("format");
+  });
+});
+
+describe("CardPersistence", () => {
+  let runtime: CardRuntime;
+  let store: MemoryStateStore;
+
+  beforeEach(() => {
+    eventLog.clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    runtime = new CardRuntime();
+    store = new MemoryStateStore();
+  });
+
+  it("restores every live card from a saved snapshot", async () => {
+    const card = new Card(4);
+    card.step();
+    const sun = new SunContract();
+    sun.couple(agent);
+    runtime.register(card);
+    runtime.register(sun);
+
+    expect((await new CardPersistence(store, runtime).save()).sort()).toEqual([card.id, sun.id].sort());
+
+    const reloaded = new CardRuntime();
+    const freshCard = new Card(4);
+    const freshSun = new SunContract();
+    reloaded.register(freshCard);
+    reloaded.register(freshSun);
+
+    const report = await new CardPersistence(store, reloaded).restore();
+    expect(report.restored.sort()).toEqual([card.id, sun.id].sort());
+    expect(report.skipped).toEqual([]);
+    expect(Array.from(freshCard.surface)).toEqual(Array.from(card.surface));
+    expect(freshSun.getState()).toEqual(sun.getState());
+  });
+
+  it("skips unregistered cards and snapshots that cannot be migrated", async () => {
+    const card = new Card(4);
+    runtime.register(card);
+    await store.write(
+      serializeSnapshot({
+        format: 1,
+        savedAt: 0,
+        cards: {
+          [card.id]: { version: 1, state: { size: 8, surface: [] } },
+          "ζ.card.gone": { version: 1, state: {} },
+        },
+      })
+    );
+
+    const report = await new CardPersistence(store, runtime).restore();
+    expect(report.restored).toEqual([]);
+    expect(report.skipped.map((s) => s.cardId).sort()).toEqual(["ζ.card.gone", card.id].sort());
+    expect(report.skipped.find((s) => s.cardId === "ζ.card.gone")?.reason).toBe("not_registered");
+    expect(report.skipped.find((s) => s.cardId === card.id)?.reason).toContain("migrated");
+  });
+
+  it("migrates an older snapshot exactly once on restore", async () => {
+    const source = new SunContract();
+    source.couple(agent);
+    const legacy = source.getState() as unknown as Record<string, unknown>;
+    delete legacy.agentExposure;
+    await store.write(serializeSnapshot({ format: 1, savedAt: 0, cards: { [source.id]: { version: 1, state: legacy } } }));
+    const migration = vi.spyOn(SunContractStateSchema.migrations, 1);
+    const sun = new SunContract();
+    runtime.register(sun);
+
+    try {
+      expect((await new CardPersistence(store, runtime).restore()).restored).toEqual([sun.id]);
+      expect(migration).toHaveBeenCalledTimes(1);
+      expect(sun.getState().agentExposure).toEqual({ "agent-1": 0.4 });
+
+      sun.setState(sun.getState());
+      expect(migration).toHaveBeenCalledTimes(1);
+    } finally {
+      migration.mockRestore();
+    }
+  });
+
+  it("emits STATE_REHYDRATED with the restore report", async () => {
+    runtime.register(new SunContract());
+    const persistence = new CardPersistence(store, runtime);
+    await persistence.save();
+    await persistence.restore();
+
+    const event = eventLog.lastEventOfType("STATE_REHYDRATED");
+    expect(event).toMatchObject({ restored: ["ζ.card.sun-contract"], skipped: [] });
+  });
+
+  it("reports corrupt storage and still emits STATE_REHYDRATED", async () => {
+    await store.write("{not json");
+    const report = await new CardPersistence(store, runtime).restore();
+
+    expect(report).toEqual({ restored: [], skipped: [] });
+    expect(eventLog.getErrors()[0]).toMatchObject({ source: "storage" });
+    expect(eventLog.lastEventOfType("STATE_REHYDRATED")).toBeDefined();
+  });
+});
+
+describe("FileStateStore", () => {
+  it("reads, writes and clears through the supplied fs", async () => {
+    const files = new Map<string, string>();
+    const fs: FileSystemLike = {
+      async readFile(path) {
+        const text = files.get(path);
+        if (text === undefined) throw new Error("ENOENT");
+        return text;
+      },
+      async writeFile(path, data) {
+        files.set(path, data);
+      },
+      async unlink(path) {
+        files.delete(path);
+      },
+    };
+    const store = new FileStateStore("/tmp/zeta-state.json", fs);
+
+    expect(await store.read()).toBeNull();
+    await store.write("{}");
+    expect(await store.read()).toBe("{}");
+    await store.clear();
+    expect(files.size).toBe(0);
+  });
+});
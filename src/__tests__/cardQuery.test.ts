@@ -0,0 +1,106 @@
+/**
+ * Tests for structured Omnibox queries (filter tokens + free text)
+ */
+
+import { describe, it, expect } from "vitest";
+import { CardRegistryEntry } from "../cardRegistry";
+import { formatFilter, matchesQueryFilters, parseCardQuery } from "../cardQuery";
+import { resolveBestCard, resolveCards } from "../cardResolver";
+
+const entries: CardRegistryEntry[] = [
+  {
+    id: "ζ.card.gate",
+    meta: { title: "Gate", tags: ["safety", "system"] },
+    implementationPath: "src/cards/gate.ts",
+    invariants: [],
+    failureModes: [{ code: "gate_stuck", message: "Gate did not close", severity: "error" }],
+  },
+  {
+    id: "ζ.card.meter",
+    meta: { title: "Meter", tags: ["Safety"] },
+    implementationPath: "./src/meter.ts",
+    invariants: [],
+    failureModes: [{ code: "drift", message: "Reading drifted", severity: "warn" }],
+  },
+];
+
+const ids = (query: string) => resolveCards(query, { entries }).map((r) => r.entry.id);
+
+describe("parseCardQuery", () => {
+  it("separates filters from free text, in input order", () => {
+    const query = parseCardQuery("sun tag:safety  -severity:info contract");
+    expect(query.text).toBe("sun contract");
+    expect(query.nodes).toEqual([
+      { kind: "text", value: "sun" },
+      { kind: "filter", field: "tag", value: "safety", negated: false },
+      { kind: "filter", field: "severity", value: "info", negated: true },
+      { kind: "text", value: "contract" },
+    ]);
+  });
+
+  it("accepts quoted values and keeps quoted phrases whole", () => {
+    const query = parseCardQuery('tag:"power asymmetry" "dose  budget" sun');
+    expect(query.filters[0].value).toBe("power asymmetry");
+    expect(query.nodes[1]).toEqual({ kind: "phrase", value: "dose budget" });
+    expect(query.phrases).toEqual(["dose budget"]);
+    expect(query.text).toBe("sun");
+    expect(formatFilter(query.filters[0])).toBe('tag:"power asymmetry"');
+  });
+
+  it("keeps unknown fields as text and ignores filters without a value", () => {
+    expect(parseCardQuery("https://example.com main:/cards").text).toBe("https://example.com main:/cards");
+    expect(parseCardQuery("TAG:system").filters[0].field).toBe("tag");
+    const typing = parseCardQuery("heartbeat tag:");
+    expect(typing.filters).toEqual([]);
+    expect(typing.text).toBe("heartbeat");
+  });
+});
+
+describe("filters", () => {
+  it("matches tags case-insensitively and failure codes exactly", () => {
+    expect(ids("tag:safety")).toEqual(["ζ.card.gate", "ζ.card.meter"]);
+    expect(ids("failure:gate_stuck")).toEqual(["ζ.card.gate"]);
+    expect(ids("failure:gate")).toEqual([]);
+  });
+
+  it("matches severities and path prefixes", () => {
+    expect(ids("severity:warn")).toEqual(["ζ.card.meter"]);
+    expect(ids("path:src/cards")).toEqual(["ζ.card.gate"]);
+    expect(ids("path:./src/meter")).toEqual(["ζ.card.meter"]);
+  });
+
+  it("negates, and requires every filter to hold", () => {
+    expect(ids("tag:safety -tag:system")).toEqual(["ζ.card.meter"]);
+    expect(ids("tag:safety severity:error")).toEqual(["ζ.card.gate"]);
+    expect(matchesQueryFilters(entries[0], parseCardQuery("-failure:gate_stuck"))).toBe(false);
+  });
+
+  it("ranks the remaining free text within the filtered cards", () => {
+    expect(ids("tag:safety meter")).toEqual(["ζ.card.meter"]);
+    expect(ids("gate -tag:system")).toEqual([]);
+    expect(resolveBestCard("meter -tag:safety", 0.5, entries)).toBeNull();
+  });
+
+  it("matches a quoted phrase only as one contiguous string", () => {
+    const docs = [
+      { ...entries[0], id: "ζ.card.apart", docstring: "Each dose counts against the agent's budget." },
+      { ...entries[1], id: "ζ.card.together", docstring: "Stops intake once the dose budget is spent." },
+    ];
+    expect(resolveCards("dose budget", { entries: docs }).map((r) => r.entry.id).sort()).toEqual(["ζ.card.apart", "ζ.card.together"]);
+
+    const [phrase, ...rest] = resolveCards('"dose budget"', { entries: docs });
+    expect(rest).toEqual([]);
+    expect(phrase.entry.id).toBe("ζ.card.together");
+    expect(phrase.matches).toMatchObject([{ field: "docstring", kind: "substring", ranges: [[22, 33]] }]);
+    // No typo tolerance inside a phrase
+    expect(resolveCards('"dose budgte"', { entries: docs })).toEqual([]);
+  });
+
+  it("narrows the registry by metadata", () => {
+    expect(resolveCards("tag:contract -tag:system").map((r) => r.entry.id)).toEqual(["ζ.card.sun-contract"]);
+    expect(resolveCards("severity:error path:src/cards").map((r) => r.entry.id)).toEqual([
+      "ζ.card.readme",
+      "ζ.card.sun-contract",
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for persistent recents: frecency ranking, pinning and storage
+ */
+
+import { describe, it, expect } from "vitest";
+import { CardRecents, withRecentsFirst } from "../cardRecents";
+import { MemoryStateStore } from "../cardPersistence";
+import { CardRuntime } from "../cardRuntime";
+import { Omnicard } from "../cards/omnicard";
+import { ZetaCardContract } from "../cardContract";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function clock(start = 1_000_000) {
+  let t = start;
+  return {
+    now: () => t,
+    advance: (ms: number) => {
+      t += ms;
+    },
+  };
+}
+
+describe("CardRecents", () => {
+  it("ranks by frecency: frequent use outlasts a single recent visit until it decays", () => {
+    const time = clock();
+    const recents = new CardRecents(new MemoryStateStore(), { now: time.now, halfLifeMs: DAY });
+
+    for (let i = 0; i < 4; i++) recents.recordVisit("ζ.card.frequent");
+    time.advance(DAY);
+    recents.recordVisit("ζ.card.once");
+
+    expect(recents.frecency("ζ.card.frequent")).toBeCloseTo(2);
+    expect(recents.list().map((e) => e.cardId)).toEqual(["ζ.card.frequent", "ζ.card.once"]);
+
+    time.advance(3 * DAY);
+    recents.recordVisit("ζ.card.once");
+    expect(recents.list().map((e) => e.cardId)).toEqual(["ζ.card.once", "ζ.card.frequent"]);
+    expect(recents.list()[0].visits).toBe(2);
+  });
+
+  it("lists pinned cards first in pin order and keeps them through clear()", () => {
+    const time = clock();
+    const recents = new CardRecents(new MemoryStateStore(), { now: time.now });
+    recents.recordVisit("ζ.card.a");
+    recents.recordVisit("ζ.card.a");
+    time.advance(1);
+    recents.pin("ζ.card.b"); // never visited
+    time.advance(1);
+    recents.pin("ζ.card.a");
+
+    expect(recents.list().map((e) => [e.cardId, e.pinnedAt !== null])).toEqual([
+      ["ζ.card.b", true],
+      ["ζ.card.a", true],
+    ]);
+
+    recents.clear();
+    expect(recents.list().map((e) => e.cardId)).toEqual(["ζ.card.b", "ζ.card.a"]);
+    expect(recents.frecency("ζ.card.a")).toBe(0);
+
+    recents.unpin("ζ.card.b");
+    expect(recents.isPinned("ζ.card.b")).toBe(false);
+    expect(recents.list().map((e) => e.cardId)).toEqual(["ζ.card.a"]);
+
+    recents.clear({ includePinned: true });
+    expect(recents.list()).toEqual([]);
+  });
+
+  it("drops the lowest-ranked unpinned entries beyond capacity", () => {
+    const time = clock();
+    const recents = new CardRecents(new MemoryStateStore(), { now: time.now, capacity: 2 });
+    recents.pin("ζ.card.pinned");
+    for (const id of ["ζ.card.1", "ζ.card.2", "ζ.card.3"]) {
+      time.advance(1000);
+      recents.recordVisit(id);
+    }
+    expect(recents.list().map((e) => e.cardId)).toEqual(["ζ.card.pinned", "ζ.card.3", "ζ.card.2"]);
+  });
+
+  it("persists through the store and merges with visits made before loading", async () => {
+    const time = clock();
+    const store = new MemoryStateStore();
+    const first = new CardRecents(store, { now: time.now });
+    first.recordVisit("ζ.card.a");
+    first.pin("ζ.card.b");
+    await Promise.resolve();
+
+    const second = new CardRecents(new MemoryStateStore(), { now: time.now });
+    second.recordVisit("ζ.card.a");
+    await second.load(store);
+
+    expect(second.list().map((e) => [e.cardId, e.visits])).toEqual([
+      ["ζ.card.b", 0],
+      ["ζ.card.a", 2],
+    ]);
+    expect(JSON.parse((await store.read())!).entries).toHaveLength(2);
+  });
+
+  it("ignores unreadable snapshots", async () => {
+    const store = new MemoryStateStore();
+    await store.write("{not json");
+    const recents = new CardRecents();
+    await recents.load(store);
+    expect(recents.list()).toEqual([]);
+  });
+
+  it("records a visit for every runtime activation", () => {
+    let t = 0;
+    const recents = new CardRecents(new MemoryStateStore(), { now: () => ++t });
+    const runtime = new CardRuntime();
+    const card = (id: string): ZetaCardContract => ({
+      id,
+      meta: { title: id },
+      getState: () => ({}),
+      setState: () => {},
+      activate: () => {},
+    });
+    runtime.register(card("ζ.card.a"));
+    runtime.register(card("ζ.card.b"));
+    const stop = recents.trackRuntime(runtime);
+
+    runtime.activate("ζ.card.a");
+    runtime.activate("ζ.card.b");
+    runtime.deactivate();
+    stop();
+    runtime.activate("ζ.card.a");
+
+    expect(recents.list().map((e) => [e.cardId, e.visits])).toEqual([
+      ["ζ.card.b", 1],
+      ["ζ.card.a", 1],
+    ]);
+  });
+});
+
+describe("withRecentsFirst", () => {
+  it("moves listed cards to the front in recents order", () => {
+    const time = clock();
+    const recents = new CardRecents(new MemoryStateStore(), { now: time.now });
+    recents.recordVisit("c");
+    time.advance(1);
+    recents.recordVisit("b");
+    recents.recordVisit("gone");
+
+    const items = ["a", "b", "c", "d"].map((id) => ({ entry: { id } }));
+    expect(withRecentsFirst(items, recents.list()).map((i) => i.entry.id)).toEqual(["b", "c", "a", "d"]);
+  });
+});
+
+describe("Omnicard recents", () => {
+  it("mirrors the shared recents list in its state", () => {
+    const recents = new CardRecents();
+    const omni = new Omnicard(recents);
+    omni.addRecent("ζ.card.readme");
+    recents.pin("ζ.card.sun-contract");
+
+    expect(omni.getState().recentCards).toEqual(["ζ.card.sun-contract", "ζ.card.readme"]);
+
+    omni.setState({ ...omni.getState(), recentCards: ["stale"] });
+    expect(omni.getState().recentCards).toEqual(["ζ.card.sun-contract", "ζ.card.readme"]);
+
+    omni.dispose();
+    recents.clear({ includePinned: true });
+    expect(omni.getState().recentCards).toHaveLength(2);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for runtime card registration and registry subscriptions
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  CardRegistryChange,
+  CardRegistryEntry,
+  getCard,
+  listCards,
+  registerCard,
+  subscribeRegistry,
+  unregisterCard,
+  updateCard,
+} from "../cardRegistry";
+import { ReadmeCard } from "../cards/readmeCard";
+import { ComponentCardEntries, registerComponentCards } from "../cards/componentCards";
+
+function entry(id: string, extra: Partial<CardRegistryEntry> = {}): CardRegistryEntry {
+  return {
+    id,
+    meta: { title: `Test ${id}`, description: "test card" },
+    implementationPath: "src/test.ts",
+    invariants: ["Test: invariant"],
+    failureModes: [],
+    ...extra,
+  };
+}
+
+describe("card registration", () => {
+  afterEach(() => {
+    for (const id of ["ζ.card.test.a", "ζ.card.test.b", "ζ.card.test.c"]) {
+      unregisterCard(id);
+    }
+  });
+
+  it("registers, updates and unregisters cards", () => {
+    const before = listCards().length;
+    registerCard(entry("ζ.card.test.a"));
+    expect(getCard("ζ.card.test.a")?.meta.title).toBe("Test ζ.card.test.a");
+    expect(listCards()).toHaveLength(before + 1);
+
+    const updated = updateCard("ζ.card.test.a", { meta: { title: "Renamed" } });
+    expect(updated.id).toBe("ζ.card.test.a");
+    expect(getCard("ζ.card.test.a")?.meta.title).toBe("Renamed");
+
+    expect(unregisterCard("ζ.card.test.a")).toBe(true);
+    expect(unregisterCard("ζ.card.test.a")).toBe(false);
+    expect(listCards()).toHaveLength(before);
+  });
+
+  it("rejects duplicate ids, unknown ids and invalid entries", () => {
+    expect(() => registerCard(entry("ζ.card.omni"))).toThrow("already registered");
+    expect(() => updateCard("ζ.card.test.missing", {})).toThrow("not registered");
+    expect(() => registerCard(entry("ζ.card.test.a", { meta: { title: "" } }))).toThrow("Missing meta.title");
+    expect(() => updateCard("ζ.card.omni", { implementationPath: "" })).toThrow("Missing implementationPath");
+    expect(getCard("ζ.card.test.a")).toBeNull();
+    expect(getCard("ζ.card.omni")?.implementationPath).toBe("src/cards/omnicard.ts");
+  });
+
+  it("rejects changes that break the dependency graph", () => {
+    expect(() => registerCard(entry("ζ.card.test.a", { io: { inputs: ["test.missing"] } }))).toThrow(
+      "missing_input"
+    );
+
+    registerCard(entry("ζ.card.test.a", { io: { outputs: ["test.a"] } }));
+    registerCard(entry("ζ.card.test.b", { io: { inputs: ["test.a"] } }));
+    expect(() => unregisterCard("ζ.card.test.a")).toThrow("missing_input");
+    expect(() => updateCard("ζ.card.test.a", { io: { inputs: ["test.b"], outputs: ["test.a"] } })).toThrow();
+
+    unregisterCard("ζ.card.test.b");
+    expect(unregisterCard("ζ.card.test.a")).toBe(true);
+  });
+
+  it("notifies subscribers of each change", () => {
+    const changes: CardRegistryChange["type"][] = [];
+    const unsubscribe = subscribeRegistry((change) => changes.push(change.type));
+
+    registerCard(entry("ζ.card.test.c"));
+    updateCard("ζ.card.test.c", { docstring: "notes" });
+    unregisterCard("ζ.card.test.c");
+    unsubscribe();
+    registerCard(entry("ζ.card.test.c"));
+
+    expect(changes).toEqual(["registered", "updated", "unregistered"]);
+  });
+
+  it("refreshes README drift when the registry changes", () => {
+    const readme = new ReadmeCard();
+    readme.loadReadmeContent(listCards().map((c) => c.id).join("\n"));
+    expect(readme.getState().driftIssues).toEqual([]);
+
+    registerCard(entry("ζ.card.test.a"));
+    expect(readme.getState().driftIssues.map((i) => i.cardId)).toEqual(["ζ.card.test.a"]);
+
+    unregisterCard("ζ.card.test.a");
+    expect(readme.getState().driftIssues).toEqual([]);
+    readme.dispose();
+  });
+});
+
+describe("component cards", () => {
+  it("registers once and unregisters only what it added", () => {
+    const cleanup = registerComponentCards();
+    const second = registerComponentCards();
+    for (const { id } of ComponentCardEntries) {
+      expect(getCard(id)).not.toBeNull();
+    }
+
+    second();
+    expect(getCard("ζ.card.pi-timer")).not.toBeNull();
+    cleanup();
+    expect(getCard("ζ.card.pi-timer")).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for the shared card resolver (Omnibox ranking + Omnicard.select)
+ */
+
+import { describe, it, expect } from "vitest";
+import { CardRegistryEntry } from "../cardRegistry";
+import {
+  editDistance,
+  matchRanges,
+  matchText,
+  normalizeForSearch,
+  resolveBestCard,
+  resolveCards,
+  scoreCard,
+} from "../cardResolver";
+import { Omnicard } from "../cards/omnicard";
+
+const entries: CardRegistryEntry[] = [
+  {
+    id: "ζ.card.alpha",
+    meta: { title: "Alpha Pulse", description: "First pulse generator", tags: ["pulse"] },
+    implementationPath: "src/alpha.ts",
+    invariants: ["Bounded: amplitude never exceeds one"],
+    failureModes: [],
+  },
+  {
+    id: "ζ.card.beta",
+    meta: { title: "Beta", description: "Listens for a pulse", tags: ["listener"] },
+    implementationPath: "src/beta.ts",
+    invariants: [],
+    failureModes: [],
+    docstring: "Counts amplitude peaks.",
+  },
+];
+
+describe("scoreCard", () => {
+  it("explains which fields matched", () => {
+    const result = scoreCard(entries[0], "pulse");
+    expect(result.matches.map((m) => m.field)).toEqual(["title", "description", "tags"]);
+    expect(result.score).toBe(85);
+    expect(result.confidence).toBeCloseTo(0.85);
+  });
+
+  it("gives an exact id match full confidence", () => {
+    const result = scoreCard(entries[1], "ζ.card.beta");
+    expect(result.matches[0]).toMatchObject({ field: "id", kind: "exact" });
+    expect(result.score).toBe(1100);
+    expect(result.confidence).toBe(1);
+  });
+
+  it("searches invariants and docstrings", () => {
+    expect(scoreCard(entries[0], "amplitude").matches).toEqual([
+      {
+        field: "invariants",
+        kind: "substring",
+        text: "Bounded: amplitude never exceeds one",
+        score: 5,
+        ranges: [[9, 18]],
+      },
+    ]);
+    expect(scoreCard(entries[1], "amplitude").matches[0].field).toBe("docstring");
+  });
+});
+
+describe("fuzzy matching", () => {
+  it("counts substitutions, insertions, deletions and transpositions as one edit", () => {
+    expect(editDistance("hartbeat", "heartbeat")).toBe(1);
+    expect(editDistance("contrcat", "contract")).toBe(1);
+    expect(editDistance("pulse", "pulse")).toBe(0);
+  });
+
+  it("spells out Greek letters and maps positions back", () => {
+    const norm = normalizeForSearch("ζ.card");
+    expect(norm.text).toBe("zeta.card");
+    expect(norm.origin.slice(0, 5)).toEqual([0, 0, 0, 0, 1]);
+    expect(matchText("zeta.card", "ζ.card.omni")?.ranges).toEqual([[0, 6]]);
+  });
+
+  it("tolerates typos with lower quality than exact matches", () => {
+    const typo = matchText("sun contrct", "Sun Contract");
+    expect(typo?.fuzzy).toBe(true);
+    expect(typo?.ranges).toEqual([[0, 3], [4, 12]]);
+    expect(typo!.quality).toBeLessThan(matchText("sun contract", "Sun Contract")!.quality);
+    expect(matchText("sun zebra", "Sun Contract")).toBeNull();
+  });
+
+  it("matches dense abbreviations but not scattered letters", () => {
+    expect(matchText("hrtbt", "heartbeat")?.ranges).toEqual([[0, 1], [3, 6], [8, 9]]);
+    expect(matchText("pse", "pulse generator is here")?.fuzzy).toBe(true);
+    expect(matchText("pgr", "pulse generator")).toBeNull();
+  });
+
+  it("finds registry cards despite typos", () => {
+    expect(resolveBestCard("hartbeat")).toBe("ζ.card.spectral.heartbeat");
+    expect(resolveBestCard("sun contrct")).toBe("ζ.card.sun-contract");
+    expect(resolveBestCard("zeta.card.omni")).toBe("ζ.card.omni");
+
+    const [omni] = resolveCards("zeta.card.omni");
+    expect(omni.matches[0].kind).toBe("exact");
+    expect(matchRanges(omni, "id")).toEqual([[0, 11]]);
+  });
+});
+
+describe("resolveCards", () => {
+  it("ranks by score and drops non-matches", () => {
+    const results = resolveCards("pulse", { entries });
+    expect(results.map((r) => r.entry.id)).toEqual(["ζ.card.alpha", "ζ.card.beta"]);
+    expect(resolveCards("nothing", { entries })).toEqual([]);
+  });
+
+  it("returns everything for an empty query", () => {
+    expect(resolveCards("  ", { entries })).toHaveLength(2);
+    expect(resolveCards("", { entries, limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe("resolveBestCard", () => {
+  it("commits only above the confidence threshold", () => {
+    expect(resolveBestCard("alpha", 0.5, entries)).toBe("ζ.card.alpha");
+    expect(resolveBestCard("amplitude", 0.5, entries)).toBeNull();
+    expect(resolveBestCard("amplitude", 0, entries)).toBe("ζ.card.alpha");
+  });
+});
+
+describe("Omnicard.select", () => {
+  it("resolves against the registry", () => {
+    const omni = new Omnicard();
+    expect(omni.select("ζ.card.sun-contract")).toBe("ζ.card.sun-contract");
+    expect(omni.select("heartbeat")).toBe("ζ.card.spectral.heartbeat");
+    expect(omni.select("ζ.card.does-not-exist")).toBeNull();
+    expect(omni.select("")).toBeNull();
+  });
+});
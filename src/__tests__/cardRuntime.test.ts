@@ -0,0 +1,110 @@
+/**
+ * Tests for the Card Runtime (single-active-card lifecycle host)
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { CardRuntime } from "../cardRuntime";
+import { eventLog } from "../instrumentation";
+import { Omnicard } from "../cards/omnicard";
+import { SunContract } from "../cards/sunContract";
+import { Card } from "../zetacard";
+
+describe("CardRuntime", () => {
+  let runtime: CardRuntime;
+
+  beforeEach(() => {
+    eventLog.clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    runtime = new CardRuntime();
+  });
+
+  it("registers and retrieves live cards by id", () => {
+    const sun = new SunContract();
+    runtime.register(sun);
+    expect(runtime.has("ζ.card.sun-contract")).toBe(true);
+    expect(runtime.get("ζ.card.sun-contract")).toBe(sun);
+    expect(runtime.get("ζ.card.unknown")).toBeNull();
+  });
+
+  it("enforces a single active card", () => {
+    const omni = new Omnicard();
+    const sun = new SunContract();
+    runtime.register(omni);
+    runtime.register(sun);
+
+    runtime.activate(omni.id);
+    expect(omni.isActive()).toBe(true);
+
+    runtime.activate(sun.id);
+    expect(sun.isActive()).toBe(true);
+    expect(omni.isActive()).toBe(false);
+    expect(runtime.getActiveId()).toBe(sun.id);
+  });
+
+  it("passes the previous card as activation origin", () => {
+    const heartbeat = new Card(8);
+    const sun = new SunContract();
+    const spy = vi.spyOn(sun, "activate");
+    runtime.register(heartbeat);
+    runtime.register(sun);
+
+    runtime.activate(heartbeat.id);
+    runtime.activate(sun.id, { reason: "user_selected" });
+
+    const ctx = spy.mock.calls[0][0];
+    expect(ctx?.from).toBe(heartbeat.id);
+    expect(ctx?.reason).toBe("user_selected");
+    expect(typeof ctx?.timestamp).toBe("number");
+  });
+
+  it("emits CARD_CLOSED before CARD_OPENED on switch", () => {
+    runtime.register(new Omnicard());
+    runtime.register(new SunContract());
+
+    runtime.activate("ζ.card.omni");
+    runtime.activate("ζ.card.sun-contract", {}, "SafeRun");
+
+    const types = eventLog.getEvents().map((e) => e.type);
+    expect(types).toEqual(["CARD_OPENED", "CARD_CLOSED", "CARD_OPENED"]);
+    expect(eventLog.lastEventOfType("CARD_CLOSED")).toMatchObject({ cardId: "ζ.card.omni" });
+    const last = eventLog.lastEventOfType("CARD_OPENED");
+    expect(last?.type === "CARD_OPENED" && last.mode).toBe("SafeRun");
+  });
+
+  it("does not re-emit when activating the already active card", () => {
+    runtime.register(new Omnicard());
+    runtime.activate("ζ.card.omni");
+    runtime.activate("ζ.card.omni");
+    expect(eventLog.getEventsSinceByType("CARD_OPENED")).toHaveLength(1);
+  });
+
+  it("deactivates the active card and notifies subscribers", () => {
+    const sun = new SunContract();
+    runtime.register(sun);
+    const listener = vi.fn();
+    runtime.subscribe(listener);
+
+    runtime.activate(sun.id);
+    runtime.deactivate();
+
+    expect(sun.isActive()).toBe(false);
+    expect(runtime.getActiveId()).toBeNull();
+    expect(listener).toHaveBeenNthCalledWith(1, sun.id, null);
+    expect(listener).toHaveBeenNthCalledWith(2, null, sun.id);
+    expect(eventLog.lastEventOfType("CARD_CLOSED")).toMatchObject({ cardId: sun.id });
+  });
+
+  it("deactivates a card when it is unregistered", () => {
+    const sun = new SunContract();
+    runtime.register(sun);
+    runtime.activate(sun.id);
+
+    expect(runtime.unregister(sun.id)).toBe(true);
+    expect(sun.isActive()).toBe(false);
+    expect(runtime.getActiveId()).toBeNull();
+  });
+
+  it("throws when activating an unregistered card", () => {
+    expect(() => runtime.activate("ζ.card.missing")).toThrow(/not registered/);
+  });
+});
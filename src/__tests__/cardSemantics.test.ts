@@ -0,0 +1,82 @@
+/**
+ * Tests for the semantic index and its blend into card resolution
+ */
+
+import { describe, it, expect } from "vitest";
+import { CardRegistryEntry } from "../cardRegistry";
+import { resolveCards, scoreCard, SEMANTIC_WEIGHT } from "../cardResolver";
+import { SemanticIndex, semanticTerms, semanticText } from "../cardSemantics";
+
+const entries: CardRegistryEntry[] = [
+  {
+    id: "ζ.card.reservoir",
+    meta: { title: "Reservoir", description: "Holds water between storms" },
+    implementationPath: "src/reservoir.ts",
+    invariants: ["Level never exceeds the spillway"],
+    failureModes: [{ code: "overflow", message: "Flooding past the spillway", severity: "error" }],
+  },
+  {
+    id: "ζ.card.clock",
+    meta: { title: "Clock", description: "Counts ticks" },
+    implementationPath: "src/clock.ts",
+    invariants: [],
+    failureModes: [],
+    docstring: "Every tick advances the phase.",
+  },
+];
+
+describe("semanticTerms", () => {
+  it("drops stop words and folds plurals", () => {
+    expect(semanticTerms("How the budgets and the process work")).toEqual(["budget", "process", "work"]);
+  });
+
+  it("covers description, invariants, docstring and failure modes", () => {
+    const text = semanticText(entries[0]);
+    expect(text).toContain("Holds water");
+    expect(text).toContain("spillway");
+    expect(text).toContain("Flooding");
+  });
+});
+
+describe("SemanticIndex", () => {
+  it("finds cards by their docs when no single field matches", () => {
+    const index = new SemanticIndex();
+    const [match, ...rest] = index.search("flooding storms", entries);
+    expect(match.entry.id).toBe("ζ.card.reservoir");
+    expect(match.terms).toEqual(["flooding", "storm"]);
+    expect(rest).toEqual([]);
+    expect(scoreCard(entries[0], "flooding storms").score).toBe(0);
+  });
+
+  it("ranks closer meanings higher and ignores unrelated queries", () => {
+    const index = new SemanticIndex();
+    expect(index.match("spillway level", entries[0])!.similarity).toBeGreaterThan(
+      index.match("water", entries[0])!.similarity
+    );
+    expect(index.match("the and of", entries[0])).toBeNull();
+    expect(index.search("volcano", entries)).toEqual([]);
+  });
+
+  it("caches vectors per entry object", () => {
+    const index = new SemanticIndex();
+    expect(index.vector(entries[1])).toBe(index.vector(entries[1]));
+    expect(index.vector({ ...entries[1] })).not.toBe(index.vector(entries[1]));
+  });
+});
+
+describe("resolveCards with semantic: true", () => {
+  it("blends similarity into the lexical score", () => {
+    const lexical = resolveCards("ticks", { entries });
+    const blended = resolveCards("ticks", { entries, semantic: true });
+    expect(blended.map((r) => r.entry.id)).toEqual(["ζ.card.clock"]);
+    expect(blended[0].score).toBeCloseTo(lexical[0].score + SEMANTIC_WEIGHT * blended[0].semantic!.similarity);
+    expect(lexical[0].semantic).toBeUndefined();
+  });
+
+  it("finds ζ.card.sun-contract for burnout", () => {
+    expect(resolveCards("burnout")).toEqual([]);
+    const [best] = resolveCards("burnout", { semantic: true });
+    expect(best.entry.id).toBe("ζ.card.sun-contract");
+    expect(best.semantic?.terms).toEqual(["burnout"]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for versioned card state and schema migrations
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CardStateSchema,
+  migrateState,
+  snapshotCardState,
+  isVersionedState,
+} from "../cardState";
+import { SunContract, SunContractAgent } from "../cards/sunContract";
+import { Card } from "../zetacard";
+
+type Counter = { count: number; label: string; step: number };
+
+const counterSchema: CardStateSchema<Counter> = {
+  version: 3,
+  migrations: {
+    1: (prev) => ({ ...(prev as object), label: "counter" }),
+    2: (prev) => ({ ...(prev as object), step: 1 }),
+  },
+  validate(state) {
+    const s = state as Partial<Counter>;
+    return typeof s.count === "number" ? [] : ["count must be a number"];
+  },
+};
+
+const agent: SunContractAgent = {
+  id: "agent-1",
+  capCurrent: 0.5,
+  processingCapacity: 1.0,
+  ramping: 0.2,
+  doseBudget: 10,
+  exposure: 0.4,
+  exposureRampRate: 0.1,
+};
+
+describe("migrateState", () => {
+  it("runs the migration chain from a versioned envelope", () => {
+    const result = migrateState(counterSchema, { version: 2, state: { count: 4, label: "x" } });
+    expect(result).toEqual({ ok: true, state: { count: 4, label: "x", step: 1 }, fromVersion: 2 });
+  });
+
+  it("treats raw snapshots as version 1 unless the schema detects their version", () => {
+    const result = migrateState(counterSchema, { count: 1 });
+    expect(result).toEqual({ ok: true, state: { count: 1, label: "counter", step: 1 }, fromVersion: 1 });
+
+    const detecting = { ...counterSchema, detectVersion: (s: unknown) => ("step" in (s as object) ? 3 : 1) };
+    expect(migrateState(detecting, { count: 1, label: "x", step: 2 })).toEqual({
+      ok: true,
+      state: { count: 1, label: "x", step: 2 },
+      fromVersion: 3,
+    });
+    expect(migrateState(counterSchema, { count: "many" }).ok).toBe(false);
+  });
+
+  it("reports structured failures instead of throwing", () => {
+    const newer = migrateState(counterSchema, { version: 9, state: { count: 1 } });
+    const invalid = migrateState(counterSchema, { version: 3, state: { count: "many" } });
+    const missing = migrateState({ ...counterSchema, migrations: {} }, { version: 1, state: { count: 1 } });
+    const notObject = migrateState(counterSchema, 42);
+
+    for (const result of [newer, invalid, missing, notObject]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.failure.code).toBe("state_migration_failed");
+        expect(result.failure.severity).toBe("error");
+      }
+    }
+    expect(!newer.ok && newer.failure.message).toContain("newer");
+    expect(!invalid.ok && invalid.failure.message).toContain("count must be a number");
+  });
+
+  it("reports migrations that throw", () => {
+    const broken: CardStateSchema<Counter> = {
+      ...counterSchema,
+      migrations: { ...counterSchema.migrations, 2: () => { throw new Error("boom"); } },
+    };
+    const result = migrateState(broken, { version: 1, state: { count: 1 } });
+    expect(!result.ok && result.failure.message).toContain("boom");
+  });
+});
+
+describe("SunContract state schema", () => {
+  it("upgrades a v1 snapshot missing agentExposure and currentOffer", () => {
+    const source = new SunContract();
+    source.couple(agent);
+    const legacy = source.getState() as unknown as Record<string, unknown>;
+    delete legacy.agentExposure;
+    delete legacy.currentOffer;
+
+    const contract = new SunContract();
+    contract.setState({ version: 1, state: legacy });
+
+    const state = contract.getState();
+    expect(state.agentExposure).toEqual({ "agent-1": 0.4 });
+    expect(state.currentOffer).toEqual({ z: [], m: [], strength: 1.0 });
+    expect(contract.getFailures?.()).toEqual([]);
+    expect(() => contract.step()).not.toThrow();
+  });
+
+  it("upgrades a raw pre-versioning snapshot and round-trips the result unchanged", () => {
+    const source = new SunContract();
+    source.couple(agent);
+    const legacy = source.getState() as unknown as Record<string, unknown>;
+    delete legacy.agentExposure;
+    delete legacy.currentOffer;
+
+    const contract = new SunContract();
+    contract.setState(legacy as never);
+
+    expect(contract.getFailures?.()).toEqual([]);
+    const state = contract.getState();
+    expect(state.agentExposure).toEqual({ "agent-1": 0.4 });
+    expect(state.currentOffer).toEqual({ z: [], m: [], strength: 1.0 });
+    expect(migrateState(contract.stateSchema, state)).toMatchObject({ ok: true, fromVersion: 2 });
+
+    contract.setState(state);
+    expect(contract.getState()).toEqual(state);
+  });
+
+  it("rejects an unmigratable snapshot without corrupting state", () => {
+    const contract = new SunContract(3);
+    contract.couple(agent);
+    const before = contract.getState();
+
+    contract.setState({ version: 2, state: { sourceStrength: "lots" } });
+
+    expect(contract.getState()).toEqual(before);
+    const failures = contract.getFailures?.() || [];
+    expect(failures[0].code).toBe("state_migration_failed");
+
+    contract.setState(before);
+    expect(contract.getFailures?.()).toEqual([]);
+  });
+
+  it("snapshots in a versioned envelope", () => {
+    const snapshot = snapshotCardState(new SunContract());
+    expect(isVersionedState(snapshot)).toBe(true);
+    expect(snapshot.version).toBe(2);
+  });
+});
+
+describe("Spectral card state schema", () => {
+  it("rejects a surface that does not match size", () => {
+    const card = new Card(4);
+    const state = card.getState();
+    card.setState({ ...state, size: 8 });
+
+    expect(card.size).toBe(4);
+    expect(card.getFailures?.()[0].code).toBe("state_migration_failed");
+  });
+
+  it("accepts plain-array surfaces", () => {
+    const card = new Card(2);
+    card.setState({ version: 1, state: { ...card.getState(), surface: [0.1, 0.2, 0.3, 0.4] } });
+    expect(Array.from(card.surface)).toHaveLength(4);
+    expect(card.surface[3]).toBeCloseTo(0.4);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the multi-card workspace: panes, focus, copies and persistence
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CardWorkspace } from "../cardWorkspace";
+import { CardRuntime } from "../cardRuntime";
+import { MemoryStateStore } from "../cardPersistence";
+import { ZetaCardContract } from "../cardContract";
+import { SunContract } from "../cards/sunContract";
+
+type CounterState = { count: number };
+
+class CounterCard implements ZetaCardContract<CounterState> {
+  readonly meta = { title: "Counter" };
+  private state: CounterState = { count: 0 };
+  active = false;
+  disposed = false;
+
+  constructor(readonly id: string) {}
+
+  getState() {
+    return { ...this.state };
+  }
+  setState(next: CounterState) {
+    this.state = { ...next };
+  }
+  activate() {
+    this.active = true;
+  }
+  deactivate() {
+    this.active = false;
+  }
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+const copyFactories = {
+  "ζ.card.a": () => new CounterCard("ζ.card.a"),
+};
+
+function setup(store = new MemoryStateStore()) {
+  const runtime = new CardRuntime();
+  const a = new CounterCard("ζ.card.a");
+  const b = new CounterCard("ζ.card.b");
+  runtime.register(a);
+  runtime.register(b);
+  const workspace = new CardWorkspace(runtime, store, { copyFactories });
+  return { runtime, a, b, workspace, store };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("CardWorkspace", () => {
+  it("keeps several cards open while exactly one is active", () => {
+    const { runtime, a, b, workspace } = setup();
+    const ka = workspace.open("ζ.card.a");
+    const kb = workspace.open("ζ.card.b");
+
+    expect(workspace.getState().panes.map((p) => p.cardId)).toEqual(["ζ.card.a", "ζ.card.b"]);
+    expect(runtime.getActiveId()).toBe("ζ.card.b");
+    expect([a.active, b.active]).toEqual([false, true]);
+
+    expect(workspace.open("ζ.card.a")).toBe(ka);
+    expect(workspace.getState().panes).toHaveLength(2);
+    expect(runtime.getActiveId()).toBe("ζ.card.a");
+    expect(workspace.card(kb)).toBe(b);
+  });
+
+  it("cycles focus with wrap-around", () => {
+    const { runtime, workspace } = setup();
+    workspace.open("ζ.card.a");
+    workspace.open("ζ.card.b");
+
+    workspace.cycle(1);
+    expect(runtime.getActiveId()).toBe("ζ.card.a");
+    workspace.cycle(-1);
+    expect(runtime.getActiveId()).toBe("ζ.card.b");
+  });
+
+  it("focuses the neighbour on close and deactivates after the last pane", () => {
+    const { runtime, workspace } = setup();
+    const ka = workspace.open("ζ.card.a");
+    const kb = workspace.open("ζ.card.b");
+
+    workspace.close(kb);
+    expect(workspace.getState().focusedKey).toBe(ka);
+    expect(runtime.getActiveId()).toBe("ζ.card.a");
+
+    workspace.close(ka);
+    expect(workspace.getState().panes).toEqual([]);
+    expect(runtime.getActiveId()).toBeNull();
+    expect(() => workspace.close(ka)).toThrow("pane not open: " + ka);
+  });
+
+  it("compares a detached copy without touching the live card", () => {
+    const { runtime, a, workspace } = setup();
+    a.setState({ count: 3 });
+    const live = workspace.open("ζ.card.a");
+    const copyKey = workspace.duplicate(live);
+    const copy = workspace.card(copyKey) as CounterCard;
+
+    expect(copy).not.toBe(a);
+    expect(copy.getState()).toEqual({ count: 3 });
+    expect(copy.active).toBe(true);
+    expect(runtime.getActiveId()).toBeNull();
+
+    copy.setState({ count: 10 });
+    expect(a.getState()).toEqual({ count: 3 });
+
+    workspace.focus(live);
+    expect(copy.active).toBe(false);
+    expect(runtime.getActiveId()).toBe("ζ.card.a");
+
+    workspace.close(copyKey);
+    expect(copy.disposed).toBe(true);
+    expect(() => workspace.duplicate(workspace.open("ζ.card.b"))).toThrow("card has no copy implementation: ζ.card.b");
+  });
+
+  it("opens panes for cards the runtime activates", () => {
+    const { runtime, workspace } = setup();
+    const stop = workspace.trackRuntime();
+    runtime.activate("ζ.card.a");
+    runtime.activate("ζ.card.b");
+    runtime.activate("ζ.card.a");
+    stop();
+
+    expect(workspace.getState().panes.map((p) => p.cardId)).toEqual(["ζ.card.a", "ζ.card.b"]);
+    expect(workspace.focused()?.cardId).toBe("ζ.card.a");
+  });
+
+  it("restores panes, layout and copies from the store", async () => {
+    const first = setup();
+    first.workspace.open("ζ.card.b");
+    const live = first.workspace.open("ζ.card.a");
+    (first.workspace.card(first.workspace.duplicate(live)) as CounterCard).setState({ count: 7 });
+    first.workspace.setLayout("split");
+    await Promise.resolve();
+
+    const second = setup();
+    second.workspace.open("ζ.card.a");
+    await second.workspace.load(first.store);
+
+    const state = second.workspace.getState();
+    expect(state.layout).toBe("split");
+    expect(state.panes.map((p) => [p.cardId, p.detached])).toEqual([
+      ["ζ.card.a", false],
+      ["ζ.card.b", false],
+      ["ζ.card.a", true],
+    ]);
+    expect(second.workspace.focused()?.cardId).toBe("ζ.card.a");
+    expect(second.workspace.card(state.panes[2].key)?.getState()).toEqual({ count: 7 });
+  });
+
+  it("ignores unreadable snapshots", async () => {
+    const store = new MemoryStateStore();
+    await store.write("{not json");
+    const { workspace } = setup();
+    await workspace.load(store);
+    expect(workspace.getState().panes).toEqual([]);
+  });
+
+  it("copies SunContract configurations through the default factories", () => {
+    const runtime = new CardRuntime();
+    const sun = new SunContract();
+    runtime.register(sun);
+    const workspace = new CardWorkspace(runtime);
+
+    const copy = workspace.card(workspace.duplicate(workspace.open(sun.id))) as SunContract;
+    copy.couple({ id: "extra", capCurrent: 1, processingCapacity: 1, ramping: 1, doseBudget: 1, exposure: 1, exposureRampRate: 1 });
+    expect(Object.keys(copy.getState().agents)).toEqual(["extra"]);
+    expect(sun.getState().agents).toEqual({});
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for facet routing: pasted input → cards whose CardIO.inputs accept it
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { CardRegistryEntry, detectFacets } from "../cardRegistry";
+import { buildCardGraph } from "../cardGraph";
+import { CardRuntime } from "../cardRuntime";
+import { SunContract } from "../cards/sunContract";
+import { Card } from "../zetacard";
+import { parseFacets, routeInput, routeInputValues } from "../facetRouting";
+
+const agent = {
+  id: "agent-1",
+  capCurrent: 0.5,
+  processingCapacity: 1.0,
+  ramping: 0.2,
+  doseBudget: 10,
+  exposure: 0.4,
+  exposureRampRate: 0.1,
+};
+
+function entry(id: string, inputs: string[]): CardRegistryEntry {
+  return {
+    id,
+    meta: { title: id },
+    io: { inputs },
+    implementationPath: `src/${id}.ts`,
+    invariants: [],
+    failureModes: [],
+  };
+}
+
+describe("parseFacets", () => {
+  it("parses number series, including signed decimals", () => {
+    expect(detectFacets("0.5, -1.25 3")).toContain("number-series");
+    expect(parseFacets("3, 1, 4, 1, 5")).toEqual([{ facet: "number-series", payload: [3, 1, 4, 1, 5] }]);
+    expect(parseFacets("0.5 -1.25")).toEqual([{ facet: "number-series", payload: [0.5, -1.25] }]);
+  });
+
+  it("refines JSON into agents when every object is agent-shaped", () => {
+    expect(parseFacets(JSON.stringify(agent)).map((f) => f.facet)).toEqual(["agent", "json"]);
+    expect(parseFacets(JSON.stringify([agent, { ...agent, id: "agent-2" }]))[0]).toMatchObject({
+      facet: "agent",
+      payload: [{ id: "agent-1" }, { id: "agent-2" }],
+    });
+    expect(parseFacets('{"id": "agent-1"}').map((f) => f.facet)).toEqual(["json"]);
+  });
+
+  it("extracts dates and urls", () => {
+    expect(parseFacets("due 2024-03-01 or later")).toEqual([{ facet: "date", payload: "2024-03-01" }]);
+    expect(parseFacets("https://example.com/x")).toEqual([{ facet: "url", payload: "https://example.com/x" }]);
+    expect(parseFacets("heartbeat")).toEqual([]);
+    expect(parseFacets("   ")).toEqual([]);
+  });
+});
+
+describe("routeInput", () => {
+  it("suggests registry cards that declare the facet as an input", () => {
+    expect(routeInput("1 2 3").map((r) => r.entry.id)).toEqual(["ζ.card.spectral.heartbeat"]);
+
+    const [route] = routeInput(JSON.stringify(agent));
+    expect(route.entry.id).toBe("ζ.card.sun-contract");
+    expect(routeInputValues(route)).toEqual({ "facet:agent": agent });
+  });
+
+  it("routes each card once, for its most specific facet", () => {
+    const entries = [entry("ζ.card.any-json", ["facet:json"]), entry("ζ.card.both", ["facet:json", "facet:agent"])];
+    expect(routeInput(JSON.stringify(agent), entries).map((r) => [r.entry.id, r.facet])).toEqual([
+      ["ζ.card.both", "agent"],
+      ["ζ.card.any-json", "json"],
+    ]);
+  });
+
+  it("keeps facet inputs out of the dependency graph", () => {
+    const graph = buildCardGraph([entry("ζ.card.consumer", ["facet:json"])]);
+    expect(graph.getFailures("ζ.card.consumer")).toEqual([]);
+    expect(graph.edges).toEqual([]);
+  });
+});
+
+describe("delivering routed input", () => {
+  it("passes the payload through receive() before activation", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const runtime = new CardRuntime();
+    const sun = new SunContract();
+    runtime.register(sun);
+
+    const [route] = routeInput(JSON.stringify([agent]));
+    runtime.activate(sun.id, { input: routeInputValues(route) });
+
+    expect(Object.keys(sun.getState().agents)).toEqual(["agent-1"]);
+    expect(runtime.getActiveId()).toBe(sun.id);
+  });
+
+  it("loads a number series onto the spectral surface", () => {
+    const card = new Card(4);
+    card.receive({ "facet:number-series": [0, 10, 5, 10] });
+    expect(Array.from(card.surface.slice(0, 8))).toEqual([0, 1, 0.5, 1, 0, 1, 0.5, 1]);
+  });
+
+  it("loads series too long to spread into Math.min", () => {
+    const card = new Card(4);
+    const series = Array.from({ length: 500_000 }, (_, i) => i % 3);
+    expect(() => card.receive({ "facet:number-series": series })).not.toThrow();
+    expect(Array.from(card.surface.slice(0, 3))).toEqual([0, 0.5, 1]);
+  });
+
+  it("reports payloads of the wrong shape as invalid input", () => {
+    const sun = new SunContract();
+    sun.receive({ "facet:agent": { id: "agent-1" } });
+    expect(sun.getFailures?.().map((f) => f.code)).toContain("invalid_input");
+    expect(sun.getState().agents).toEqual({});
+
+    const card = new Card(4);
+    card.receive({ "facet:number-series": ["x"] });
+    expect(card.getFailures?.().map((f) => f.code)).toContain("invalid_input");
+  });
+});
@@ -0,0 +1,93 @@
+// @vitest-environment node
+/**
+ * Tests for the headless card runner (runs without jsdom)
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { headlessSupport, runHeadless, toPlainJSON } from "../headless";
+import { SunContract } from "../cards/sunContract";
+
+describe("runHeadless", () => {
+  it("applies a state, steps the card and reports state, zeta and failures", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const source = new SunContract(0.8);
+    source.couple({
+      id: "agent-1",
+      capCurrent: 0.5,
+      processingCapacity: 1.0,
+      ramping: 0.2,
+      doseBudget: 10,
+      exposure: 0.4,
+      exposureRampRate: 0.1,
+    });
+
+    const result = runHeadless({
+      cardId: "ζ.card.sun-contract",
+      state: JSON.parse(JSON.stringify(source.getState())),
+      steps: 5,
+      dt: 0.1,
+    });
+
+    expect(result.cardId).toBe("ζ.card.sun-contract");
+    expect(result.steps).toBe(5);
+    expect(result.zeta).toHaveLength(3);
+    expect(Array.isArray(result.failures)).toBe(true);
+    const state = result.state as { agentExposure: Record<string, number> };
+    expect(state.agentExposure["agent-1"]).toBeLessThan(0.4); // exposure decays each step
+  });
+
+  it("emits spectral surfaces as plain arrays", () => {
+    const surface = Array.from({ length: 16 }, (_, i) => (i % 4) / 4);
+    const result = runHeadless({
+      cardId: "ζ.card.spectral.heartbeat",
+      state: {
+        size: 4,
+        surface,
+        params: { diffusion: 0.2, sharpen: 0.5, ambient: 0.5 },
+        bandEnergy: [0, 0, 0],
+        zeta: [0, 0, 0],
+      },
+      steps: 1,
+    });
+
+    const state = result.state as { size: number; surface: number[] };
+    expect(state.size).toBe(4);
+    expect(Array.isArray(state.surface)).toBe(true);
+    expect(state.surface).toHaveLength(16);
+  });
+
+  it("reports rejected states through failures", () => {
+    const result = runHeadless({ cardId: "ζ.card.sun-contract", state: { sourceStrength: "lots" } });
+    expect(result.failures.map((f) => f.code)).toContain("state_migration_failed");
+  });
+
+  it("rejects unknown, manifest-only and non-stepping cards", () => {
+    expect(() => runHeadless({ cardId: "ζ.card.nope" })).toThrow("card not registered");
+    expect(() => runHeadless({ cardId: "ζ.card.contract.core" })).toThrow("no headless implementation");
+    expect(() => runHeadless({ cardId: "ζ.card.omni", steps: 1 })).toThrow("does not step");
+    expect(() => runHeadless({ cardId: "ζ.card.sun-contract", steps: -1 })).toThrow("non-negative");
+  });
+
+  it("runs component cards with a live implementation and explains the view-only ones", () => {
+    const queue = runHeadless({ cardId: "ζ.card.approval-queue" });
+    expect(queue.state).toMatchObject({ queueLength: 20, parallelApprovers: 1 });
+    expect(() => runHeadless({ cardId: "ζ.card.pi-timer" })).toThrow(/no headless implementation.*React view/);
+
+    const support = headlessSupport();
+    expect(support.find((s) => s.cardId === "ζ.card.approval-queue")).toEqual({ cardId: "ζ.card.approval-queue", runnable: true });
+    expect(support.find((s) => s.cardId === "ζ.card.contract.core")).toMatchObject({ runnable: false, reason: expect.stringContaining("manifest only") });
+    expect(support.filter((s) => s.runnable).map((s) => s.cardId).sort()).toEqual([
+      "ζ.card.approval-queue",
+      "ζ.card.omni",
+      "ζ.card.readme",
+      "ζ.card.spectral.heartbeat",
+      "ζ.card.sun-contract",
+    ]);
+  });
+});
+
+describe("toPlainJSON", () => {
+  it("converts typed arrays to arrays", () => {
+    expect(toPlainJSON({ a: new Float32Array([0.5, 1]) })).toEqual({ a: [0.5, 1] });
+  });
+});
@@ -37,6 +37,7 @@ describe('Instrumentation Integration', () => {
     
     eventLog.emit({
       type: 'CARD_CLOSED',
+      cardId: 'card-123',
       flowId,
     });
     
@@ -0,0 +1,257 @@
+/**
+ * Tests for Omnibox command mode: registration, parsing and built-in commands
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  CommandRegistry,
+  OmniboxCommand,
+  commandRegistry,
+  commandText,
+  commandUsage,
+  isCommandInput,
+  parseCommandArgs,
+  downloadText,
+  registerBuiltinCommands,
+} from "../omniboxCommands";
+import { eventLog } from "../instrumentation";
+import { cardRuntime } from "../cardRuntime";
+import { ReadmeCard } from "../cards/readmeCard";
+import { locationManager } from "../location";
+import { repo } from "../zetaRepo";
+import { loadRegistryFromRepo } from "../cardManifests";
+import { getCard, registerCard, unregisterCard, validateReadmeAgainstRegistry } from "../cardRegistry";
+import readmeText from "../../README.md?raw";
+
+const echo: OmniboxCommand = {
+  name: "echo",
+  description: "Repeat the arguments",
+  args: [
+    { name: "first", required: true },
+    { name: "rest" },
+  ],
+  run: ({ first, rest }) => ({ ok: true, title: [first, rest].filter(Boolean).join(" | ") }),
+};
+
+describe("command input", () => {
+  it("detects the prefix and strips it", () => {
+    expect(isCommandInput("> goto main")).toBe(true);
+    expect(isCommandInput("  >validate")).toBe(true);
+    expect(isCommandInput("heartbeat")).toBe(false);
+    expect(commandText(">  goto main ")).toBe("goto main");
+  });
+
+  it("splits positional args with the last one taking the remainder", () => {
+    expect(parseCommandArgs(echo, "a b c")).toEqual({ ok: true, args: { first: "a", rest: "b c" } });
+    expect(parseCommandArgs(echo, "a")).toEqual({ ok: true, args: { first: "a" } });
+    expect(parseCommandArgs(echo, "")).toEqual({ ok: false, error: "missing first (usage: echo <first> [rest])" });
+    expect(parseCommandArgs({ ...echo, args: [] }, "extra")).toEqual({ ok: false, error: "unexpected arguments: extra" });
+    expect(commandUsage(echo)).toBe("echo <first> [rest]");
+  });
+});
+
+describe("CommandRegistry", () => {
+  it("registers, lists and unregisters commands with notifications", () => {
+    const registry = new CommandRegistry();
+    const listener = vi.fn();
+    registry.subscribe(listener);
+
+    const unregister = registry.register({ ...echo, name: "  Echo " });
+    expect(registry.get("echo")?.name).toBe("echo");
+    expect(() => registry.register(echo)).toThrow("command already registered: echo");
+
+    unregister();
+    expect(registry.list()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("parses the longest command name at a word boundary", () => {
+    const registry = new CommandRegistry();
+    registry.register({ name: "show", description: "", run: () => ({ ok: true, title: "" }) });
+    registry.register({ name: "show events", description: "", run: () => ({ ok: true, title: "" }) });
+
+    expect(registry.parse("show events now")).toMatchObject({ command: { name: "show events" }, argText: "now" });
+    expect(registry.parse("show eventsnow")).toMatchObject({ command: { name: "show" }, argText: "eventsnow" });
+    expect(registry.parse("showing")).toBeNull();
+  });
+
+  it("searches names and descriptions, listing everything for an empty query", () => {
+    const registry = new CommandRegistry();
+    registerBuiltinCommands(registry, { download: () => {} });
+
+    expect(registry.search(">").map((m) => m.command.name)).toEqual([
+      "validate registry",
+      "export events",
+      "goto",
+      "versions",
+      "diff",
+      "readme drift",
+      "pin",
+      "clear recents",
+    ]);
+    expect(registry.search(">valdate")[0].command.name).toBe("validate registry");
+    expect(registry.search(">download")[0].command.name).toBe("export events");
+    expect(registry.search("> goto main:/cards")).toMatchObject([{ command: { name: "goto" }, ranges: [[0, 4]] }]);
+  });
+
+  it("reports argument errors, thrown errors and unknown commands as failed results", async () => {
+    const registry = new CommandRegistry();
+    registry.register(echo);
+    registry.register({
+      name: "boom",
+      description: "",
+      run: () => {
+        throw new Error("kaput");
+      },
+    });
+
+    expect(await registry.execute("> echo a b")).toEqual({ ok: true, title: "a | b" });
+    expect(await registry.execute("> echo")).toMatchObject({ ok: false, title: expect.stringContaining("missing first") });
+    expect(await registry.execute("> boom")).toEqual({ ok: false, title: "boom failed: kaput" });
+    expect(await registry.execute("> nope")).toEqual({ ok: false, title: "Unknown command: nope" });
+  });
+});
+
+describe("built-in commands", () => {
+  it("validates the registry", async () => {
+    const result = await commandRegistry.execute("> validate registry");
+    expect(result.ok).toBe(true);
+  });
+
+  it("exports the event log through the download hook", async () => {
+    const registry = new CommandRegistry();
+    const download = vi.fn();
+    registerBuiltinCommands(registry, { download });
+    eventLog.emit({ type: "SEARCH_QUERY", query: "export me", flowId: eventLog.startFlow() });
+
+    const result = await registry.execute("> export events");
+    expect(result.ok).toBe(true);
+    const [filename, text] = download.mock.calls[0];
+    expect(filename).toMatch(/^zetacard-events-.*\.json$/);
+    expect(JSON.parse(text).events.some((e: { query?: string }) => e.query === "export me")).toBe(true);
+  });
+
+  it("moves the location manager to ref:path targets", async () => {
+    await repo.init();
+    const manifest = JSON.stringify({ id: "ζ.card.pulse", title: "Pulse" });
+    const { commitOid } = await repo.addCardAndCommit("cards/pulse/manifest.json", manifest, "refs/heads/main", "add pulse");
+
+    const result = await commandRegistry.execute("> goto main:/cards/pulse");
+    expect(result).toEqual({ ok: true, title: `Moved to ${commitOid}:/cards/pulse` });
+    expect(locationManager.currentCommit).toBe(commitOid);
+
+    expect(await commandRegistry.execute("> goto no-such-branch")).toEqual({
+      ok: false,
+      title: "Cannot resolve no-such-branch",
+    });
+    expect(await commandRegistry.execute("> goto")).toMatchObject({ ok: false });
+  });
+
+  it("lists earlier versions of a repo card", async () => {
+    await repo.init();
+    const first = await repo.addCardAndCommit("cards/pulse/manifest.json", JSON.stringify({ id: "ζ.card.pulse", title: "Pulse 1" }), "refs/heads/main", "pulse v1");
+    await repo.addCardAndCommit("cards/echo/manifest.json", JSON.stringify({ id: "ζ.card.echo", title: "Echo" }), "refs/heads/main", "add echo");
+    const second = await repo.addCardAndCommit("cards/pulse/manifest.json", JSON.stringify({ id: "ζ.card.pulse", title: "Pulse 2" }), "refs/heads/main", "pulse v2");
+    await locationManager.move("main");
+    await loadRegistryFromRepo("main");
+
+    const result = await commandRegistry.execute("> versions pulse 2");
+    expect(result).toMatchObject({ ok: true, title: expect.stringMatching(/^\d+ version\(s\) of Pulse 2$/) });
+    expect(result.lines?.slice(0, 2)).toEqual([
+      expect.stringMatching(new RegExp(`^${second.commitOid} \\d{4}-\\d{2}-\\d{2} pulse v2$`)),
+      expect.stringMatching(new RegExp(`^${first.commitOid} .* pulse v1$`)),
+    ]);
+    expect(await commandRegistry.execute("> versions readme")).toEqual({ ok: false, title: "README Card is not stored in the repo" });
+
+    await loadRegistryFromRepo(null);
+  });
+
+  it("shows manifest changes between two refs", async () => {
+    await repo.init();
+    await repo.updateRef("refs/heads/diff-a", null);
+    await repo.updateRef("refs/heads/diff-b", null);
+    const pulse = { id: "ζ.card.pulse", title: "Pulse", invariants: ["A: one"] };
+    const { commitOid } = await repo.commitChanges(
+      "diff-a",
+      [
+        { op: "put", path: "cards/pulse/manifest.json", content: JSON.stringify(pulse) },
+        { op: "put", path: "cards/echo/manifest.json", content: JSON.stringify({ id: "ζ.card.echo", title: "Echo" }) },
+      ],
+      "base"
+    );
+    await repo.updateRef("refs/heads/diff-b", commitOid);
+    await repo.commitChanges(
+      "diff-b",
+      [
+        { op: "put", path: "cards/pulse/manifest.json", content: JSON.stringify({ ...pulse, invariants: ["A: two"] }) },
+        { op: "remove", path: "cards/echo" },
+      ],
+      "change"
+    );
+
+    expect(await commandRegistry.execute("> diff diff-a diff-b pulse")).toEqual({
+      ok: true,
+      title: "1 manifest(s) changed",
+      lines: ["modified cards/pulse/manifest.json", '  invariants[0]: "A: one" → "A: two"'],
+    });
+    expect((await commandRegistry.execute("> diff diff-a diff-b")).lines).toHaveLength(5);
+    expect(await commandRegistry.execute("> diff diff-a diff-a")).toEqual({
+      ok: true,
+      title: "No manifest changes from diff-a to diff-a",
+      lines: [],
+    });
+    expect(await commandRegistry.execute("> diff diff-a no-such-branch")).toEqual({
+      ok: false,
+      title: "diff failed: ref has no commit: no-such-branch",
+    });
+  });
+
+  it("validates the bundled README against the registry", async () => {
+    const expected = validateReadmeAgainstRegistry(readmeText).map((i) => `${i.cardId}: ${i.message}`);
+    const result = await commandRegistry.execute("> readme drift");
+    expect(result.lines).toEqual(expected);
+    expect(result.lines?.join("\n")).not.toContain("No README content loaded");
+
+    registerCard({ ...getCard("ζ.card.readme")!, id: "ζ.card.undocumented" });
+    try {
+      const drift = await commandRegistry.execute("> readme drift");
+      expect(drift.ok).toBe(false);
+      expect(drift.lines).toContain("ζ.card.undocumented: README missing documentation for ζ.card.undocumented");
+    } finally {
+      unregisterCard("ζ.card.undocumented");
+    }
+  });
+
+  it("checks README drift without changing the live ReadmeCard", async () => {
+    const live = new ReadmeCard();
+    live.loadReadmeContent("# Stale README\n");
+    cardRuntime.register(live);
+    const before = live.getState();
+    try {
+      await commandRegistry.execute("> readme drift");
+      expect(live.getState()).toEqual(before);
+    } finally {
+      cardRuntime.unregister(live.id);
+      live.dispose();
+    }
+  });
+
+  it("revokes the download URL only after the click has been handled", () => {
+    vi.useFakeTimers();
+    const { createObjectURL, revokeObjectURL } = URL;
+    const revoke = vi.fn();
+    Object.assign(URL, { createObjectURL: () => "blob:events", revokeObjectURL: revoke });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    try {
+      downloadText("events.json", "[]");
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(revoke).not.toHaveBeenCalled();
+      vi.runAllTimers();
+      expect(revoke).toHaveBeenCalledWith("blob:events");
+    } finally {
+      click.mockRestore();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      vi.useRealTimers();
+    }
+  });
+});
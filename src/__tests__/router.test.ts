@@ -0,0 +1,102 @@
+/**
+ * Tests for the Card Router (URL ⇄ active card reflection)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  CardRouter,
+  encodeCardRoute,
+  decodeCardRoute,
+  checkRouteReversibility,
+} from "../router";
+import { CardRuntime } from "../cardRuntime";
+import { eventLog } from "../instrumentation";
+import { Omnicard } from "../cards/omnicard";
+import { SunContract } from "../cards/sunContract";
+import { CardActivationContext } from "../cardContract";
+
+describe("route encoding", () => {
+  it("round-trips Greek-letter ids losslessly", () => {
+    const id = "ζ.card.sun-contract";
+    const hash = encodeCardRoute(id);
+    expect(hash).toBe("#/%CE%B6.card.sun-contract");
+    expect(decodeCardRoute(hash)).toBe(id);
+  });
+
+  it("decodes unencoded hashes and rejects empty or malformed routes", () => {
+    expect(decodeCardRoute("#/ζ.card.omni")).toBe("ζ.card.omni");
+    expect(decodeCardRoute("")).toBeNull();
+    expect(decodeCardRoute("#/")).toBeNull();
+    expect(decodeCardRoute("#/%E0%A4%A")).toBeNull();
+  });
+
+  it("reports non_reversible_route for ids that cannot round trip", () => {
+    expect(checkRouteReversibility()).toEqual([]);
+
+    const failures = checkRouteReversibility(["ζ.card.ok", "ζ.card.\uD800"]);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].code).toBe("non_reversible_route");
+    expect(failures[0].severity).toBe("error");
+  });
+});
+
+describe("CardRouter", () => {
+  let runtime: CardRuntime;
+  let stop: () => void;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    eventLog.clear();
+    window.history.replaceState(null, "", "/");
+    runtime = new CardRuntime();
+    runtime.register(new Omnicard());
+    runtime.register(new SunContract());
+  });
+
+  afterEach(() => {
+    stop?.();
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("reflects activation into the URL hash", () => {
+    stop = new CardRouter(runtime).start();
+    runtime.activate("ζ.card.sun-contract");
+    expect(decodeCardRoute(window.location.hash)).toBe("ζ.card.sun-contract");
+
+    runtime.deactivate();
+    expect(window.location.hash).toBe("");
+  });
+
+  it("activates the card named by the URL on load", () => {
+    window.history.replaceState(null, "", "/" + encodeCardRoute("ζ.card.omni"));
+    const sun = runtime.get("ζ.card.sun-contract") as SunContract;
+    const omni = runtime.get("ζ.card.omni") as Omnicard;
+    const spy = vi.spyOn(omni, "activate");
+
+    stop = new CardRouter(runtime).start();
+
+    expect(runtime.getActiveId()).toBe("ζ.card.omni");
+    expect((spy.mock.calls[0][0] as CardActivationContext).reason).toBe("route_reflection");
+    expect(sun.isActive()).toBe(false);
+  });
+
+  it("re-activates cards on back/forward navigation", () => {
+    stop = new CardRouter(runtime).start();
+    runtime.activate("ζ.card.omni");
+    runtime.activate("ζ.card.sun-contract");
+
+    window.history.replaceState(null, "", "/" + encodeCardRoute("ζ.card.omni"));
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    expect(runtime.getActiveId()).toBe("ζ.card.omni");
+
+    window.history.replaceState(null, "", "/");
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    expect(runtime.getActiveId()).toBeNull();
+  });
+
+  it("ignores routes for cards without a live instance", () => {
+    window.history.replaceState(null, "", "/" + encodeCardRoute("ζ.card.contract.core"));
+    stop = new CardRouter(runtime).start();
+    expect(runtime.getActiveId()).toBeNull();
+  });
+});
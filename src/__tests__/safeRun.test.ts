@@ -0,0 +1,171 @@
+/**
+ * Tests for SafeRun: sandboxed preview, state diff, commit and discard
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CardFailure, ZetaCardContract } from "../cardContract";
+import { CardRuntime } from "../cardRuntime";
+import { SunContract } from "../cards/sunContract";
+import { eventLog } from "../instrumentation";
+import { diffStates, formatStateValue, startSafeRun } from "../safeRun";
+
+type CounterState = { count: number; history: number[] };
+
+class CounterCard implements ZetaCardContract<CounterState> {
+  readonly meta = { title: "Counter" };
+  private state: CounterState = { count: 0, history: [] };
+  failures: CardFailure[] = [];
+
+  constructor(readonly id = "ζ.card.counter") {}
+
+  getState(): CounterState {
+    return { count: this.state.count, history: [...this.state.history] };
+  }
+  setState(next: CounterState): void {
+    this.state = { count: next.count, history: [...next.history] };
+  }
+  activate(): void {}
+  step(): void {
+    this.state.count += 1;
+    this.state.history.push(this.state.count);
+    if (this.state.count > 2) {
+      this.failures = [{ code: "overflow", message: "count above 2", severity: "error" }];
+    }
+  }
+  getFailures(): CardFailure[] {
+    return this.failures;
+  }
+}
+
+function setup(sandboxFailures: CardFailure[] = []) {
+  const runtime = new CardRuntime();
+  const card = new CounterCard();
+  runtime.register(card);
+  const createSandbox = () => {
+    const sandbox = new CounterCard();
+    sandbox.failures = [...sandboxFailures];
+    return sandbox;
+  };
+  return { runtime, card, createSandbox };
+}
+
+describe("diffStates", () => {
+  it("reports changed, added and removed paths", () => {
+    expect(
+      diffStates(
+        { a: 1, nested: { b: "x", gone: true }, list: [1, 2] },
+        { a: 1, nested: { b: "y" }, list: [1, 3, 4], added: null }
+      )
+    ).toEqual([
+      { path: "nested.b", before: "x", after: "y" },
+      { path: "nested.gone", before: true, after: undefined },
+      { path: "list[1]", before: 2, after: 3 },
+      { path: "list[2]", before: undefined, after: 4 },
+      { path: "added", before: undefined, after: null },
+    ]);
+  });
+
+  it("compares typed arrays as one value", () => {
+    const before = { surface: new Float32Array([0, 1, 2]) };
+    expect(diffStates(before, { surface: new Float32Array([0, 1, 2]) })).toEqual([]);
+    expect(diffStates(before, { surface: new Float32Array([0, 1, 3]) }).map((c) => c.path)).toEqual(["surface"]);
+    expect(diffStates({ x: NaN }, { x: NaN })).toEqual([]);
+  });
+
+  it("formats values for listings", () => {
+    expect(formatStateValue(0.123456)).toBe("0.1235");
+    expect(formatStateValue(new Float32Array(4))).toBe("Float32Array(4)");
+    expect(formatStateValue([1, 2])).toBe("[2 items]");
+    expect(formatStateValue(undefined)).toBe("—");
+  });
+});
+
+describe("startSafeRun", () => {
+  beforeEach(() => {
+    eventLog.clear();
+  });
+
+  it("runs a sandbox copy and previews changes without touching the live card", () => {
+    const { runtime, card, createSandbox } = setup();
+    const session = startSafeRun(card.id, { steps: 3, createSandbox }, runtime);
+
+    expect(session.status).toBe("pending");
+    expect(session.preview.steps).toBe(3);
+    expect(session.preview.after).toEqual({ count: 3, history: [1, 2, 3] });
+    expect(session.preview.changes.map((c) => c.path)).toEqual(["count", "history[0]", "history[1]", "history[2]"]);
+    expect(session.preview.newFailures.map((f) => f.code)).toEqual(["overflow"]);
+
+    expect(card.getState()).toEqual({ count: 0, history: [] });
+    expect(runtime.getActiveId()).toBeNull();
+  });
+
+  it("commits the sandbox state and activates the card in SafeRun mode", () => {
+    const { runtime, card, createSandbox } = setup();
+    const session = startSafeRun(card.id, { steps: 2, createSandbox }, runtime);
+
+    session.commit();
+    expect(card.getState()).toEqual({ count: 2, history: [1, 2] });
+    expect(runtime.getActiveId()).toBe(card.id);
+    expect(eventLog.lastEventOfType("CARD_OPENED")).toMatchObject({ cardId: card.id, mode: "SafeRun" });
+    expect(eventLog.lastEventOfType("SAFE_RUN_RESOLVED")).toMatchObject({ outcome: "committed", changes: 3 });
+    expect(() => session.discard()).toThrow("SafeRun already committed");
+  });
+
+  it("discards without changing or activating the live card", () => {
+    const { runtime, card, createSandbox } = setup();
+    const session = startSafeRun(card.id, { steps: 2, createSandbox }, runtime);
+
+    session.discard();
+    expect(card.getState()).toEqual({ count: 0, history: [] });
+    expect(runtime.getActiveId()).toBeNull();
+    expect(eventLog.lastEventOfType("SAFE_RUN_RESOLVED")).toMatchObject({ outcome: "discarded" });
+    expect(() => session.commit()).toThrow("SafeRun already discarded");
+  });
+
+  it("only reports failures the live card did not already have", () => {
+    const existing: CardFailure = { code: "stale", message: "already failing", severity: "warn" };
+    const { runtime, card, createSandbox } = setup([existing]);
+    card.failures = [existing];
+
+    const session = startSafeRun(card.id, { steps: 0, createSandbox }, runtime);
+    expect(session.preview.failures).toEqual([existing]);
+    expect(session.preview.newFailures).toEqual([]);
+    expect(session.preview.changes).toEqual([]);
+  });
+
+  it("detects live changes made after the snapshot", () => {
+    const { runtime, card, createSandbox } = setup();
+    const session = startSafeRun(card.id, { steps: 1, createSandbox }, runtime);
+    expect(session.isStale()).toBe(false);
+    card.step();
+    expect(session.isStale()).toBe(true);
+  });
+
+  it("spends SunContract exposure in the sandbox only", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const runtime = new CardRuntime();
+    const sun = new SunContract(0.8);
+    sun.couple({
+      id: "agent-1",
+      capCurrent: 0.5,
+      processingCapacity: 1.0,
+      ramping: 0.2,
+      doseBudget: 10,
+      exposure: 0.4,
+      exposureRampRate: 0.1,
+    });
+    runtime.register(sun);
+    const before = sun.getState();
+
+    const session = startSafeRun(sun.id, { steps: 5, dt: 0.1 }, runtime);
+    expect(session.preview.changes.some((c) => c.path === "agentExposure.agent-1")).toBe(true);
+    expect(sun.getState()).toEqual(before);
+  });
+
+  it("rejects unknown cards, cards without a sandbox and invalid step counts", () => {
+    const { runtime, card, createSandbox } = setup();
+    expect(() => startSafeRun("ζ.card.nope", {}, runtime)).toThrow("card not registered");
+    expect(() => startSafeRun(card.id, {}, runtime)).toThrow("card has no sandbox implementation: ζ.card.counter");
+    expect(() => startSafeRun(card.id, { steps: -1, createSandbox }, runtime)).toThrow("non-negative");
+  });
+});
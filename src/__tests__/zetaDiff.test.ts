@@ -0,0 +1,125 @@
+/**
+ * Tests for line-level and structural JSON diffs and three-way JSON merges
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffJson, diffLines, formatJsonChange, formatLineDiff, mergeJson } from "../zetaDiff";
+
+describe("diffLines", () => {
+  it("reports removals before additions and keeps unchanged context", () => {
+    const diff = diffLines("a\nb\nc\nd\n", "a\nB\nc\nd\ne\n");
+    expect(formatLineDiff(diff)).toEqual(["  a", "- b", "+ B", "  c", "  d", "+ e"]);
+  });
+
+  it("handles empty sides and missing trailing newlines", () => {
+    expect(diffLines("", "x\ny")).toEqual([
+      { op: "add", text: "x" },
+      { op: "add", text: "y" },
+    ]);
+    expect(diffLines("x\n", "")).toEqual([{ op: "remove", text: "x" }]);
+    expect(diffLines("same", "same\n")).toEqual([{ op: "equal", text: "same" }]);
+  });
+
+  it("finds the longest common subsequence inside the changed region", () => {
+    const diff = diffLines("1\nx\n2\ny\n3", "1\n2\nz\n3");
+    expect(formatLineDiff(diff)).toEqual(["  1", "- x", "  2", "- y", "+ z", "  3"]);
+  });
+});
+
+describe("diffJson", () => {
+  it("reports which key changed from what to what", () => {
+    const changes = diffJson(
+      { title: "Pulse", tags: ["beat"], io: { inputs: [] } },
+      { title: "Pulse 2", tags: ["beat", "rhythm"], io: { inputs: [] }, docstring: "new" }
+    );
+    expect(changes).toEqual([
+      { path: "title", kind: "changed", from: "Pulse", to: "Pulse 2" },
+      { path: "tags[1]", kind: "added", to: "rhythm" },
+      { path: "docstring", kind: "added", to: "new" },
+    ]);
+  });
+
+  it("matches array items by code or id instead of position", () => {
+    const before = {
+      failureModes: [
+        { code: "dose_exceeded", message: "Budget exhausted", severity: "warn" },
+        { code: "flat", message: "Flat spectrum" },
+      ],
+    };
+    const after = {
+      failureModes: [
+        { code: "stale", message: "Stale input" },
+        { code: "dose_exceeded", message: "Budget exhausted", severity: "error" },
+        { code: "flat", message: "Flat spectrum" },
+      ],
+    };
+    expect(diffJson(before, after).map(formatJsonChange)).toEqual([
+      'failureModes[dose_exceeded].severity: "warn" → "error"',
+      'failureModes[stale]: + {"code":"stale","message":"Stale input"}',
+    ]);
+  });
+
+  it("falls back to positions when items are not uniquely identified", () => {
+    expect(diffJson([{ code: "a" }, { code: "a" }], [{ code: "a" }])).toEqual([{ path: "[1]", kind: "removed", from: { code: "a" } }]);
+    expect(diffJson({ "odd key": 1 }, { "odd key": 2 })).toEqual([{ path: '["odd key"]', kind: "changed", from: 1, to: 2 }]);
+    expect(diffJson(1, "1").map(formatJsonChange)).toEqual(['(root): 1 → "1"']);
+    expect(diffJson({ a: [1, { b: null }] }, { a: [1, { b: null }] })).toEqual([]);
+  });
+});
+
+describe("mergeJson", () => {
+  const base = {
+    title: "Pulse",
+    tags: ["beat", "old"],
+    failureModes: [
+      { code: "flat", message: "Flat signal", severity: "warn" },
+      { code: "stale", message: "Stale input" },
+    ],
+  };
+
+  it("combines key changes from both sides", () => {
+    const ours = {
+      ...base,
+      title: "Pulse 2",
+      tags: ["beat", "old", "ours"],
+      failureModes: [{ ...base.failureModes[0], severity: "error" }, base.failureModes[1]],
+    };
+    const theirs = {
+      ...base,
+      tags: ["beat", "theirs"],
+      failureModes: [base.failureModes[0], { code: "new", message: "New" }],
+      docstring: "doc",
+    };
+
+    expect(mergeJson(base, ours, theirs)).toEqual({
+      value: {
+        title: "Pulse 2",
+        tags: ["beat", "ours", "theirs"],
+        failureModes: [
+          { code: "flat", message: "Flat signal", severity: "error" },
+          { code: "new", message: "New" },
+        ],
+        docstring: "doc",
+      },
+      conflicts: [],
+    });
+  });
+
+  it("reports values changed differently on both sides and keeps ours", () => {
+    const ours = { ...base, title: "Ours", failureModes: [{ ...base.failureModes[0], severity: "error" }] };
+    const theirs = { ...base, title: "Theirs", failureModes: [{ ...base.failureModes[0], severity: "info" }] };
+    const merged = mergeJson(base, ours, theirs);
+
+    expect(merged.conflicts).toEqual([
+      { path: "title", base: "Pulse", ours: "Ours", theirs: "Theirs" },
+      { path: "failureModes[flat].severity", base: "warn", ours: "error", theirs: "info" },
+    ]);
+    expect(merged.value).toMatchObject({ title: "Ours" });
+  });
+
+  it("treats a missing base as an empty object and conflicts on incompatible shapes", () => {
+    expect(mergeJson(undefined, { a: 1, b: 2 }, { a: 1, c: 3 })).toEqual({ value: { a: 1, b: 2, c: 3 }, conflicts: [] });
+    expect(mergeJson({ a: 1 }, { a: [1] }, { a: "1" }).conflicts).toEqual([{ path: "a", base: 1, ours: [1], theirs: "1" }]);
+    expect(mergeJson({ a: 1 }, {}, { a: 2 }).conflicts).toEqual([{ path: "a", base: 1, ours: undefined, theirs: 2 }]);
+  });
+});
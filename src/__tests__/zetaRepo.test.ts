@@ -0,0 +1,446 @@
+// @vitest-environment node
+/**
+ * Tests for the ZetaRepo store: git object format, nested trees and tree changes
+ *
+ * Expected git oids come from the stock git CLI (hash-object, mktree, commit-tree).
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
+import { ZetaRepo } from "../zetaRepo";
+
+const HELLO = "ce013625030ba8dba906f756967f9e9ca394464a"; // printf 'hello\n' | git hash-object --stdin
+const MANIFEST = "eda9c51718f9a7e74ad28dbde79311b47ba9684d"; // printf '{"id":"x"}' | git hash-object --stdin
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+const TREE = "5d053e346a1f7dccd0ad735fae01e3090d993528"; // README + cards/pulse/manifest.json
+const COMMIT = "6795671a329c6920a3651851573f2c166c19e4a9"; // Ada, 2024-01-01T00:00:00Z, "Add pulse"
+
+describe("ZetaRepo git format", () => {
+  // Separate store under the (gitignored) .zeta_repo directory
+  const repo = new ZetaRepo(".zeta_repo/test-git-format", { format: "git" });
+
+  beforeAll(async () => {
+    await repo.init();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("hashes blobs the way git hash-object does", async () => {
+    expect(await repo.writeBlob("hello\n")).toBe(HELLO);
+    expect((await repo.readBlob(HELLO)).toString("utf8")).toBe("hello\n");
+    const { type, content } = await repo.readObject(HELLO);
+    expect([type, content.length]).toEqual(["blob", 6]);
+    await expect(repo.readBlob("0".repeat(40))).rejects.toThrow("blob not found");
+  });
+
+  it("writes slashed paths as nested binary trees", async () => {
+    expect(await repo.writeTree([])).toBe(EMPTY_TREE);
+
+    const manifest = await repo.writeBlob('{"id":"x"}');
+    const tree = await repo.writeTree([
+      { path: "cards/pulse/manifest.json", oid: manifest, type: "blob" },
+      { path: "README", oid: HELLO, type: "blob" },
+    ]);
+    expect(tree).toBe(TREE);
+
+    expect(await repo.readTree(tree)).toEqual({
+      README: { oid: HELLO, type: "blob", mode: "100644" },
+      "cards/pulse/manifest.json": { oid: MANIFEST, type: "blob", mode: "100644" },
+    });
+    expect((await repo.readTreeEntries(tree)).map((e) => [e.mode, e.type, e.name])).toEqual([
+      ["100644", "blob", "README"],
+      ["40000", "tree", "cards"],
+    ]);
+    await expect(repo.readTree(HELLO)).rejects.toThrow(`object ${HELLO} is a blob, not a tree`);
+  });
+
+  it("sorts directories as git does", async () => {
+    // "a-b" sorts before the directory "a" because git compares "a/" with "a-b"
+    const tree = await repo.writeTree([
+      { path: "a/x", oid: HELLO, type: "blob" },
+      { path: "a-b", oid: HELLO, type: "blob" },
+    ]);
+    expect((await repo.readTreeEntries(tree)).map((e) => e.name)).toEqual(["a-b", "a"]);
+    await expect(repo.writeTree([
+      { path: "a", oid: HELLO, type: "blob" },
+      { path: "a/x", oid: HELLO, type: "blob" },
+    ])).rejects.toThrow("path is both a file and a directory: a");
+  });
+
+  it("writes commit objects with author and committer lines", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.UTC(2024, 0, 1));
+    const commit = await repo.commit(TREE, [], "Add pulse", undefined, { name: "Ada", email: "ada@example.com" });
+    expect(commit).toBe(COMMIT);
+
+    const { content } = await repo.readObject(commit, "commit");
+    expect(content.toString("utf8")).toBe(
+      `tree ${TREE}\n` +
+        "author Ada <ada@example.com> 1704067200 +0000\n" +
+        "committer Ada <ada@example.com> 1704067200 +0000\n\n" +
+        "Add pulse\n"
+    );
+    expect(await repo.readCommit(commit)).toEqual({
+      tree: TREE,
+      parents: [],
+      author: { name: "Ada", email: "ada@example.com" },
+      message: "Add pulse",
+      timestamp: Date.UTC(2024, 0, 1),
+    });
+  });
+
+  it("keeps commit metadata in a message trailer", async () => {
+    const commit = await repo.commit(TREE, [COMMIT], "Update pulse", { card: "pulse" });
+    const read = await repo.readCommit(commit);
+    expect(read).toMatchObject({ parents: [COMMIT], message: "Update pulse", metadata: { card: "pulse" } });
+    expect(read.author).toEqual({ name: "zeta", email: "zeta@example.com" });
+    expect(await repo.listCommits()).toEqual(expect.arrayContaining([COMMIT, commit]));
+  });
+
+  it("stores refs as files and follows HEAD", async () => {
+    const { commitOid } = await repo.addCardAndCommit("cards/echo/manifest.json", '{"id":"echo"}');
+    expect(await repo.readRef("refs/heads/main")).toBe(commitOid);
+    expect(await repo.readRef("HEAD")).toBe(commitOid);
+    expect(await repo.readPathAtRef("HEAD", "cards/echo/manifest.json")).toBe('{"id":"echo"}');
+
+    await repo.updateRef("refs/heads/gone", commitOid);
+    await repo.updateRef("refs/heads/gone", null);
+    expect(await repo.readRef("refs/heads/gone")).toBeNull();
+  });
+});
+
+describe.each(["json", "git"] as const)("ZetaRepo tree changes (%s format)", (format) => {
+  const repo = new ZetaRepo(".zeta_repo/test-tree-changes-" + format, { format });
+  const branch = "refs/heads/library";
+
+  beforeAll(async () => {
+    await repo.init();
+    await repo.updateRef(branch, null);
+  });
+
+  it("keeps the other cards when a card is added", async () => {
+    await repo.addCardAndCommit("cards/pulse/manifest.json", '{"id":"pulse"}', branch);
+    const { commitOid } = await repo.addCardAndCommit("cards/echo/manifest.json", '{"id":"echo"}', branch);
+
+    const tree = await repo.readTree((await repo.readCommit(commitOid)).tree);
+    expect(Object.keys(tree).sort()).toEqual(["cards/echo/manifest.json", "cards/pulse/manifest.json"]);
+    expect((await repo.readTreeEntries((await repo.readCommit(commitOid)).tree)).map((e) => [e.name, e.type])).toEqual([
+      ["cards", "tree"],
+    ]);
+  });
+
+  it("adds, updates, renames and removes several paths in one commit", async () => {
+    const before = await repo.readRef(branch);
+    const { commitOid, parent } = await repo.commitChanges(
+      branch,
+      [
+        { op: "put", path: "cards/pulse/manifest.json", content: '{"id":"pulse","v":2}' },
+        { op: "put", path: "cards/orbit/manifest.json", content: '{"id":"orbit"}' },
+        { op: "rename", from: "cards/echo", to: "cards/reverb" },
+        { op: "put", path: "README.md", content: "# Library\n" },
+        { op: "remove", path: "README.md" },
+      ],
+      "Reshape the library",
+      undefined,
+      { name: "Ada", email: "ada@example.com" }
+    );
+
+    expect(parent).toBe(before);
+    const commit = await repo.readCommit(commitOid);
+    expect(commit.parents).toEqual([before]);
+    expect(Object.keys(await repo.readTree(commit.tree)).sort()).toEqual([
+      "cards/orbit/manifest.json",
+      "cards/pulse/manifest.json",
+      "cards/reverb/manifest.json",
+    ]);
+    expect(await repo.readPathAtRef(branch, "cards/pulse/manifest.json")).toBe('{"id":"pulse","v":2}');
+    expect(await repo.readPathAtRef(branch, "cards/reverb/manifest.json")).toBe('{"id":"echo"}');
+  });
+
+  it("diffs two commits into added, removed, modified and renamed paths", async () => {
+    const [head, previous] = await repo.log(branch, { limit: 2 });
+    expect(await repo.diffTrees(previous.oid, head.oid)).toEqual([
+      expect.objectContaining({ status: "added", path: "cards/orbit/manifest.json" }),
+      expect.objectContaining({ status: "modified", path: "cards/pulse/manifest.json" }),
+      expect.objectContaining({ status: "renamed", path: "cards/reverb/manifest.json", from: "cards/echo/manifest.json" }),
+    ]);
+    expect(await repo.diffTrees(head.oid, head.oid)).toEqual([]);
+    expect((await repo.diffTrees(head.oid, previous.oid)).map((d) => d.status)).toEqual(["renamed", "removed", "modified"]);
+    await expect(repo.diffTrees("refs/heads/none", branch)).rejects.toThrow("ref has no commit: refs/heads/none");
+  });
+
+  it("rejects changes to missing or clashing paths without committing", async () => {
+    const head = await repo.readRef(branch);
+    await expect(repo.commitChanges(branch, [{ op: "remove", path: "cards/missing" }], "x")).rejects.toThrow(
+      "path not found in tree: cards/missing"
+    );
+    await expect(
+      repo.commitChanges(branch, [{ op: "rename", from: "cards/orbit", to: "cards/pulse" }], "x")
+    ).rejects.toThrow("path already exists in tree: cards/pulse");
+    await expect(repo.updateTree(null, [{ op: "put", path: "cards/../x", content: "" }])).rejects.toThrow(
+      "invalid tree path: cards/../x"
+    );
+    expect(await repo.readRef(branch)).toBe(head);
+  });
+
+  it("gives equal trees equal oids regardless of entry order", async () => {
+    const a = await repo.updateTree(null, [
+      { op: "put", path: "b/x", content: "1" },
+      { op: "put", path: "a", content: "2" },
+    ]);
+    const b = await repo.updateTree(null, [
+      { op: "put", path: "a", content: "2" },
+      { op: "put", path: "b/x", content: "1" },
+    ]);
+    expect(a).toBe(b);
+  });
+});
+
+describe.each(["json", "git"] as const)("ZetaRepo history (%s format)", (format) => {
+  const repo = new ZetaRepo(".zeta_repo/test-history-" + format, { format });
+  const day = (n: number) => Date.UTC(2024, 0, n);
+  const at = async <T>(time: number, run: () => Promise<T>) => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(time);
+    try {
+      return await run();
+    } finally {
+      vi.useRealTimers();
+    }
+  };
+  const put = (path: string, content: string) => [{ op: "put" as const, path, content }];
+  let c1: string, c2: string, c3: string, c4: string, merge: string;
+
+  //   c1 (pulse) - c2 (echo) - c4 (echo v2) - merge
+  //                        \- c3 (pulse v2) -/
+  beforeAll(async () => {
+    await repo.init();
+    for (const ref of ["refs/heads/main", "refs/heads/side"]) await repo.updateRef(ref, null);
+    c1 = (await at(day(1), () => repo.commitChanges("main", put("cards/pulse/manifest.json", "1"), "Add pulse"))).commitOid;
+    c2 = (await at(day(2), () => repo.commitChanges("refs/heads/main", put("cards/echo/manifest.json", "1"), "Add echo"))).commitOid;
+    await repo.updateRef("refs/heads/side", c2);
+    c3 = (await at(day(3), () => repo.commitChanges("refs/heads/side", put("cards/pulse/manifest.json", "2"), "Pulse v2"))).commitOid;
+    c4 = (await at(day(4), () => repo.commitChanges("refs/heads/main", put("cards/echo/manifest.json", "2"), "Echo v2"))).commitOid;
+    const tree = await repo.updateTree((await repo.readCommit(c4)).tree, put("cards/pulse/manifest.json", "2"));
+    merge = await at(day(5), () => repo.commit(tree, [c4, c3], "Merge side"));
+    await repo.updateRef("refs/heads/main", merge);
+  });
+
+  it("walks history newest first with limits and first-parent mode", async () => {
+    expect((await repo.log("main")).map((e) => e.oid)).toEqual([merge, c4, c3, c2, c1]);
+    expect((await repo.log("refs/heads/main", { limit: 2 })).map((e) => e.commit.message)).toEqual(["Merge side", "Echo v2"]);
+    expect((await repo.log(merge, { firstParent: true })).map((e) => e.oid)).toEqual([merge, c4, c2, c1]);
+    expect(await repo.log("refs/heads/none")).toEqual([]);
+  });
+
+  it("filters by date and by path", async () => {
+    expect((await repo.log("main", { since: day(2), until: day(4) })).map((e) => e.oid)).toEqual([c4, c3, c2]);
+    // The merge takes pulse from the side branch, so it matches one parent and is not listed
+    expect((await repo.log("main", { path: "cards/pulse/manifest.json" })).map((e) => e.oid)).toEqual([c3, c1]);
+    expect((await repo.log("main", { path: "/cards/echo/" })).map((e) => e.oid)).toEqual([c4, c2]);
+    expect((await repo.log("main", { path: "cards/pulse", firstParent: true })).map((e) => e.oid)).toEqual([merge, c1]);
+  });
+
+  it("answers ancestry questions", async () => {
+    expect(await repo.isAncestor(c2, merge)).toBe(true);
+    expect(await repo.isAncestor(c3, c4)).toBe(false);
+    expect(await repo.isAncestor(c4, c4)).toBe(true);
+    expect(await repo.mergeBase(c3, c4)).toBe(c2);
+    expect(await repo.mergeBase(merge, c3)).toBe(c3);
+    // c1 is common too (through `old`), but c2 is closer
+    const old = await repo.commit((await repo.readCommit(c1)).tree, [c1], "Branch from c1");
+    const both = await repo.commit((await repo.readCommit(c3)).tree, [c3, old], "Merge old");
+    expect(await repo.mergeBase(c4, both)).toBe(c2);
+
+    const orphan = await repo.commit(await repo.writeTree([]), [], "Unrelated");
+    expect(await repo.mergeBase(orphan, c4)).toBeNull();
+  });
+});
+
+describe.each(["json", "git"] as const)("ZetaRepo merge (%s format)", (format) => {
+  const repo = new ZetaRepo(".zeta_repo/test-merge-" + format, { format });
+  const pulse = {
+    id: "ζ.card.pulse",
+    title: "Pulse",
+    tags: ["beat"],
+    failureModes: [{ code: "flat", message: "Flat signal", severity: "warn" }],
+  };
+  const manifestText = (value: unknown) => JSON.stringify(value, null, 2) + "\n";
+  const put = (path: string, content: string) => ({ op: "put" as const, path, content });
+  let base: string;
+
+  // Branches start at the same base commit
+  const branch = async (name: string) => {
+    await repo.updateRef(`refs/heads/${name}`, base);
+    return name;
+  };
+
+  beforeAll(async () => {
+    await repo.init();
+    await repo.updateRef("refs/heads/base", null);
+    base = (
+      await repo.commitChanges(
+        "base",
+        [
+          put("cards/pulse/manifest.json", manifestText(pulse)),
+          put("cards/echo/manifest.json", manifestText({ id: "ζ.card.echo", title: "Echo" })),
+          put("notes.txt", "a\n"),
+        ],
+        "base"
+      )
+    ).commitOid;
+  });
+
+  it("merges path changes and manifest keys from both sides into a two-parent commit", async () => {
+    const ours = await branch("ours");
+    const theirs = await branch("theirs");
+    const { commitOid: oursHead } = await repo.commitChanges(ours, [
+      put("cards/pulse/manifest.json", manifestText({ ...pulse, failureModes: [{ ...pulse.failureModes[0], severity: "error" }] })),
+      put("notes.txt", "a\nb\n"),
+    ], "ours");
+    const { commitOid: theirsHead } = await repo.commitChanges(theirs, [
+      put("cards/pulse/manifest.json", manifestText({ ...pulse, title: "Pulse 2", tags: ["beat", "rhythm"] })),
+      put("cards/orbit/manifest.json", manifestText({ id: "ζ.card.orbit" })),
+      { op: "remove", path: "cards/echo" },
+    ], "theirs");
+
+    const result = await repo.merge(ours, theirs);
+    expect(result).toMatchObject({ status: "merged", base, ours: oursHead, theirs: theirsHead, conflicts: [] });
+    expect(await repo.readRef("refs/heads/ours")).toBe(result.commit);
+    const commit = await repo.readCommit(result.commit as string);
+    expect(commit).toMatchObject({ parents: [oursHead, theirsHead], message: "Merge theirs into ours" });
+
+    expect(Object.keys(await repo.readTree(commit.tree)).sort()).toEqual([
+      "cards/orbit/manifest.json",
+      "cards/pulse/manifest.json",
+      "notes.txt",
+    ]);
+    expect(await repo.readPathAtRef(ours, "cards/pulse/manifest.json")).toBe(
+      manifestText({
+        ...pulse,
+        title: "Pulse 2",
+        tags: ["beat", "rhythm"],
+        failureModes: [{ code: "flat", message: "Flat signal", severity: "error" }],
+      })
+    );
+    expect(await repo.readPathAtRef(ours, "notes.txt")).toBe("a\nb\n");
+  });
+
+  it("reports conflicts without writing a commit", async () => {
+    const ours = await branch("left");
+    const theirs = await branch("right");
+    const { commitOid: oursHead } = await repo.commitChanges(ours, [
+      put("cards/pulse/manifest.json", manifestText({ ...pulse, title: "Left" })),
+      put("notes.txt", "left\n"),
+      { op: "remove", path: "cards/echo" },
+    ], "left");
+    await repo.commitChanges(theirs, [
+      put("cards/pulse/manifest.json", manifestText({ ...pulse, title: "Right", tags: ["beat", "right"] })),
+      put("notes.txt", "right\n"),
+      put("cards/echo/manifest.json", manifestText({ id: "ζ.card.echo", title: "Echo 2" })),
+      put("new.txt", "right\n"),
+    ], "right");
+    await repo.commitChanges(ours, [put("new.txt", "left\n")], "left again");
+    const head = await repo.readRef("refs/heads/left");
+
+    const result = await repo.merge("refs/heads/left", "refs/heads/right");
+    expect(result.status).toBe("conflict");
+    expect(result.commit).toBeUndefined();
+    expect(result.conflicts.map((c) => [c.path, c.reason])).toEqual([
+      ["cards/echo/manifest.json", "modify/delete"],
+      ["cards/pulse/manifest.json", "json"],
+      ["new.txt", "add/add"],
+      ["notes.txt", "content"],
+    ]);
+    expect(result.conflicts[0]).toMatchObject({ ours: undefined, theirs: expect.any(String), base: expect.any(String) });
+    // The tags changed on one side only, so only the title conflicts
+    expect(result.conflicts[1].keys).toEqual([{ path: "title", base: "Pulse", ours: "Left", theirs: "Right" }]);
+    expect(await repo.readRef("refs/heads/left")).toBe(head);
+    expect(head).not.toBe(oursHead);
+  });
+
+  it("fast-forwards or reports up to date when one side contains the other", async () => {
+    const behind = await branch("behind");
+    const ahead = await branch("ahead");
+    const { commitOid } = await repo.commitChanges(ahead, [put("notes.txt", "ahead\n")], "ahead");
+
+    expect(await repo.merge(ahead, behind)).toMatchObject({ status: "up-to-date", commit: commitOid });
+    expect(await repo.merge(behind, ahead)).toMatchObject({ status: "fast-forward", commit: commitOid });
+    expect(await repo.readRef("refs/heads/behind")).toBe(commitOid);
+
+    await repo.updateRef("refs/heads/behind", base);
+    const result = await repo.merge(base, ahead, { fastForward: false, message: "Keep history" });
+    expect(result.status).toBe("merged");
+    expect((await repo.readCommit(result.commit as string)).parents).toEqual([base, commitOid]);
+    // A commit oid names no branch, so nothing moves
+    expect(await repo.readRef("refs/heads/behind")).toBe(base);
+  });
+
+  it("advances the branch HEAD points at when merging into HEAD", async () => {
+    const theirs = await branch("upstream");
+    const { commitOid } = await repo.commitChanges(theirs, [put("notes.txt", "upstream\n")], "upstream");
+    // git: HEAD names refs/heads/main; json: HEAD is a ref of its own
+    const target = format === "git" ? "refs/heads/main" : "HEAD";
+    await repo.updateRef(target, base);
+
+    const result = await repo.merge("HEAD", theirs, { fastForward: false });
+    expect(result.status).toBe("merged");
+    expect(await repo.readRef(target)).toBe(result.commit);
+    expect(await repo.readRef("HEAD")).toBe(result.commit);
+    expect(await repo.readCommit(result.commit as string)).toMatchObject({
+      parents: [base, commitOid],
+      message: format === "git" ? "Merge upstream into main" : "Merge upstream into HEAD",
+    });
+    if (format === "git") expect(await repo.readSymbolicRef("HEAD")).toBe("refs/heads/main");
+  });
+
+  it("reports a file that clashes with a directory as a conflict", async () => {
+    const ours = await branch("file");
+    const theirs = await branch("dir");
+    await repo.commitChanges(ours, [put("cards/x", "a file\n")], "file");
+    await repo.commitChanges(theirs, [put("cards/x/manifest.json", manifestText({ id: "ζ.card.x" }))], "dir");
+    const head = await repo.readRef("refs/heads/file");
+
+    const result = await repo.merge(ours, theirs);
+    expect(result.status).toBe("conflict");
+    expect(result.conflicts).toEqual([{ path: "cards/x", reason: "file/directory", base: undefined, ours: expect.any(String), theirs: undefined }]);
+    expect(await repo.readRef("refs/heads/file")).toBe(head);
+  });
+
+  it.runIf(format === "git")("keeps each entry's mode from the side that set it", async () => {
+    const files = await repo.readTree((await repo.readCommit(base)).tree);
+    const entries = (overrides: Record<string, { oid: string; mode: string }>) =>
+      Object.entries({ ...files, ...overrides }).map(([path, f]) => ({ path, oid: f.oid, mode: f.mode, type: "blob" as const }));
+    const script = await repo.writeBlob("#!/bin/sh\n");
+    const notes = await repo.writeBlob("theirs\n");
+    // Ours adds an executable and makes notes.txt executable; theirs edits notes.txt
+    const ours = await repo.commit(await repo.writeTree(entries({
+      "run.sh": { oid: script, mode: "100755" },
+      "notes.txt": { oid: files["notes.txt"].oid, mode: "100755" },
+    })), [base], "ours");
+    const theirs = await repo.commit(await repo.writeTree(entries({ "notes.txt": { oid: notes, mode: "100644" } })), [base], "theirs");
+
+    const result = await repo.merge(ours, theirs);
+    expect(result.status).toBe("merged");
+    const merged = await repo.readTree((await repo.readCommit(result.commit as string)).tree);
+    expect(merged["run.sh"]).toMatchObject({ oid: script, mode: "100755" });
+    expect(merged["notes.txt"]).toMatchObject({ oid: notes, mode: "100755" });
+  });
+
+  it.runIf(format === "git")("reports modes changed differently on both sides as a mode conflict", async () => {
+    const files = await repo.readTree((await repo.readCommit(base)).tree);
+    const withMode = async (mode: string) =>
+      repo.commit(
+        await repo.writeTree(
+          Object.entries(files).map(([path, f]) => ({ path, oid: f.oid, mode: path === "notes.txt" ? mode : f.mode, type: "blob" as const }))
+        ),
+        [base],
+        mode
+      );
+
+    const result = await repo.merge(await withMode("100755"), await withMode("120000"));
+    expect(result.status).toBe("conflict");
+    expect(result.conflicts).toEqual([{ path: "notes.txt", reason: "mode", base: files["notes.txt"].oid, ours: files["notes.txt"].oid, theirs: files["notes.txt"].oid }]);
+  });
+});
@@ -12,6 +12,8 @@
 
 import type {
   ZetaGradientCardContract,
+  CardIO,
+  CardPortValues,
   CoercionRecord,
   PotentialModifier,
 } from "./cardContract";
@@ -132,13 +134,16 @@ function gradientGood(state: ApprovalQueueState): number {
 // ============================================================================
 
 export class ApprovalQueueCard implements ZetaGradientCardContract<ApprovalQueueState> {
-  readonly id = "approval-queue";
+  readonly id = "ζ.card.approval-queue";
   readonly meta = {
     title: "Approval Queue",
     description: "Institutional approval process modeled as a potential field",
     tags: ["institutional", "gradient-aware", "sun-contract"],
   };
 
+  // Incoming work follows an upstream spectral card (see receive)
+  readonly io: CardIO = { inputs: ["spectral.bandEnergy"], outputs: [] };
+
   // State
   private state: ApprovalQueueState = {
     queueLength: 20,
@@ -167,6 +172,17 @@ export class ApprovalQueueCard implements ZetaGradientCardContract<ApprovalQueue
     this.state = { ...next };
   }
 
+  /**
+   * Card contract: dataflow inputs.
+   * The fine-scale share of the upstream band energy (0–1) sets the intake
+   * rate, up to twice the approvers' capacity: a busy signal overloads the queue.
+   */
+  receive(inputs: CardPortValues): void {
+    const bands = inputs["spectral.bandEnergy"];
+    if (!Array.isArray(bands) || typeof bands[0] !== "number" || !Number.isFinite(bands[0])) return;
+    this.state.intakeRate = 2 * this.state.approverCapacity * Math.min(1, Math.max(0, bands[0]));
+  }
+
   activate(): void {
     // Activation means: process the queue
     // With a good field, this happens naturally
@@ -401,6 +417,8 @@ export function demonstrateGradientInvariant() {
 }
 
 // Run if imported as main
-if (require.main === module) {
+// (guarded: the app imports this module in the browser, where there is no require)
+// eslint-disable-next-line no-restricted-globals
+if (typeof require !== "undefined" && require.main === module) {
   demonstrateGradientInvariant();
 }
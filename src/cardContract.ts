@@ -8,6 +8,8 @@
  * navigation is implemented by activating cards.
  */
 
+import type { CardStateSchema } from "./cardState";
+
 export type CardID = string;
 
 export type CardFailure = {
@@ -23,14 +25,23 @@ export type CardMeta = {
 };
 
 export type CardIO = {
-  inputs?: string[]; // semantic keys or dependency names
+  inputs?: string[]; // semantic keys or dependency names; "facet:<name>" for user input (see facetRouting.ts)
   outputs?: string[]; // semantic keys or emitted artifacts
 };
 
+/**
+ * Input keys with this prefix are fed by what the user types or pastes
+ * (e.g. "facet:number-series"), not by another card's outputs.
+ */
+export const FACET_INPUT_PREFIX = "facet:";
+
+export type CardPortValues = Record<string, unknown>; // keyed by CardIO input/output key
+
 export type CardActivationContext = {
   reason?: string; // "user_selected", "route_reflection", "programmatic", ...
   from?: CardID; // which card initiated the activation
   timestamp?: number;
+  input?: CardPortValues; // delivered through receive() before activate (e.g. a routed facet payload)
 };
 
 /**
@@ -45,14 +56,32 @@ export interface ZetaCardContract<State = unknown> {
   // Dependency graph (optional)
   readonly io?: CardIO;
 
+  // Dataflow (optional): current values for the declared outputs, and
+  // delivery of upstream values for the declared inputs (see cardDataflow.ts)
+  publish?(): CardPortValues;
+  receive?(inputs: CardPortValues): void;
+
+  // Change notification (optional): the card calls listeners after its own
+  // mutators (step, setState, ...) change its state; the runtime relays them
+  // to the dataflow. Returns an unsubscribe function.
+  subscribe?(listener: () => void): () => void;
+
   // State management
   getState(): State;
   setState(next: State): void;
 
+  // State schema (optional): version + migrations so setState can accept
+  // snapshots from older builds (see cardState.ts)
+  readonly stateSchema?: CardStateSchema<State>;
+
   // Activation operator: "become the active card"
   // This is the ONLY way a card should become active.
   activate(ctx?: CardActivationContext): void;
 
+  // Deactivation hook (optional): called by the runtime when another card
+  // becomes active or the active card is closed.
+  deactivate?(): void;
+
   // Semantic payload (optional but encouraged)
   // Your spectral fingerprint, energy vector, or other invariant measure
   readonly zeta?: number[];
@@ -91,10 +120,22 @@ export const CardFailureRegistry = {
     code: "missing_input",
     message: "Required input dependency is not available",
   },
+  DEPENDENCY_CYCLE: {
+    code: "dependency_cycle",
+    message: "Card inputs and outputs form a dependency cycle",
+  },
+  STATE_MIGRATION_FAILED: {
+    code: "state_migration_failed",
+    message: "State snapshot could not be migrated to the current schema",
+  },
   DISCONNECTED: {
     code: "disconnected",
     message: "Card cannot reach required external service or resource",
   },
+  INVALID_INPUT: {
+    code: "invalid_input",
+    message: "Delivered input does not have the shape the card accepts",
+  },
 };
 
 /**
@@ -0,0 +1,171 @@
+/**
+ * ζ-Card: Reactive Dataflow
+ *
+ * Turns declared `CardIO` into a live pipeline over the cards held by a
+ * CardRuntime:
+ *
+ *   upstream.publish()  →  values by output key  →  downstream.receive(inputs)
+ *
+ * When a card reports a state change (through its `subscribe`, relayed by the
+ * runtime, or notifyChanged()), only that card and the cards reachable
+ * downstream of it are re-run, in topological order. Changes are coalesced
+ * until the scheduled flush: the shared pipeline flushes once per animation
+ * frame, however many cards changed in it. A card with several
+ * producers for the same key receives the value of the last producer run.
+ * Cards on a dependency cycle have no order to run in; they are reported as
+ * skipped.
+ */
+
+import { CardFailureRegistry, CardID, CardPortValues } from "./cardContract";
+import { CardGraph, toGraphNode } from "./cardGraph";
+import { CardRuntime, cardRuntime } from "./cardRuntime";
+
+export type DataflowListener = (key: string, value: unknown, producer: CardID) => void;
+
+export type DataflowReport = {
+  ran: CardID[]; // in the order they were run
+  skipped: { cardId: CardID; reason: string }[];
+};
+
+export type CardDataflowOptions = {
+  schedule?: (flush: () => void) => void; // when to run a pending flush (default: a microtask)
+};
+
+// One flush per frame in the browser; a microtask where there are no frames (Node)
+const perFrame = (flush: () => void) =>
+  typeof requestAnimationFrame === "function" ? requestAnimationFrame(() => flush()) : queueMicrotask(flush);
+
+export class CardDataflow {
+  private runtime: CardRuntime;
+  private graph: CardGraph | null = null;
+  private graphKey = "";
+  private values = new Map<string, { value: unknown; producer: CardID }>();
+  private dirty = new Set<CardID>();
+  private scheduled = false;
+  private listeners: DataflowListener[] = [];
+  private running: CardID | null = null;
+  private schedule: (flush: () => void) => void;
+
+  constructor(runtime: CardRuntime = cardRuntime, options: CardDataflowOptions = {}) {
+    this.runtime = runtime;
+    this.schedule = options.schedule ?? queueMicrotask;
+    runtime.subscribeChanges((id) => {
+      // A card reacting to inputs delivered here is already being propagated
+      if (id !== this.running) this.notifyChanged(id);
+    });
+  }
+
+  /**
+   * Mark a card's state as changed. Propagation is batched until the
+   * scheduled flush; call flush() to propagate synchronously.
+   */
+  notifyChanged(id: CardID): void {
+    this.dirty.add(id);
+    if (this.scheduled) return;
+    this.scheduled = true;
+    this.schedule(() => {
+      if (this.scheduled) this.flush();
+    });
+  }
+
+  /**
+   * Re-run every dirty card and everything downstream of it.
+   */
+  flush(): DataflowReport {
+    this.scheduled = false;
+    const report: DataflowReport = { ran: [], skipped: [] };
+    if (this.dirty.size === 0) return report;
+
+    const graph = this.getGraph();
+    const affected = new Set<CardID>();
+    for (const id of this.dirty) {
+      affected.add(id);
+      for (const downstream of graph.downstreamOf(id)) affected.add(downstream);
+    }
+    this.dirty.clear();
+
+    for (const id of graph.order) {
+      if (!affected.has(id)) continue;
+      this.run(id);
+      report.ran.push(id);
+    }
+    for (const cycle of graph.cycles) {
+      const reason = `${CardFailureRegistry.DEPENDENCY_CYCLE.message}: ${cycle.join(" → ")}`;
+      for (const id of cycle) {
+        if (affected.has(id)) report.skipped.push({ cardId: id, reason });
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Run every card once, in topological order.
+   */
+  runAll(): DataflowReport {
+    for (const card of this.runtime.list()) this.dirty.add(card.id);
+    return this.flush();
+  }
+
+  /**
+   * Latest published value for an output key.
+   */
+  getValue(key: string): unknown {
+    return this.values.get(key)?.value;
+  }
+
+  /**
+   * The graph over the runtime's live cards (rebuilt when the card set changes).
+   */
+  getGraph(): CardGraph {
+    const cards = this.runtime.list();
+    const key = cards.map((c) => c.id).join("\n");
+    if (!this.graph || key !== this.graphKey) {
+      this.graph = new CardGraph(cards.map(toGraphNode));
+      this.graphKey = key;
+    }
+    return this.graph;
+  }
+
+  subscribe(listener: DataflowListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private run(id: CardID): void {
+    const card = this.runtime.get(id);
+    if (!card) return;
+
+    const inputs = card.io?.inputs || [];
+    if (inputs.length > 0 && card.receive) {
+      const delivered: CardPortValues = {};
+      for (const key of inputs) {
+        if (this.values.has(key)) delivered[key] = this.values.get(key)!.value;
+      }
+      this.running = id;
+      try {
+        card.receive(delivered);
+      } finally {
+        this.running = null;
+      }
+    }
+
+    if (!card.publish) return;
+    const published = card.publish();
+    for (const key of card.io?.outputs || []) {
+      if (!(key in published)) continue;
+      this.values.set(key, { value: published[key], producer: id });
+      for (const listener of this.listeners) {
+        try {
+          listener(key, published[key], id);
+        } catch (e) {
+          // Ignore listener errors so one view cannot stall the pipeline
+        }
+      }
+    }
+  }
+}
+
+// Singleton pipeline over the shared runtime
+export const cardDataflow = new CardDataflow(cardRuntime, { schedule: perFrame });
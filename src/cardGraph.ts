@@ -0,0 +1,234 @@
+/**
+ * ζ-Card: Dependency Graph
+ *
+ * Resolves the card dependency graph from declared `CardIO`:
+ * an edge producer → consumer exists for every key that appears in the
+ * producer's `outputs` and the consumer's `inputs`.
+ *
+ * The graph is a projection of the registry, like the README. It answers
+ * "what feeds this card" and "what depends on this card", gives a
+ * topological evaluation order, and reports `missing_input` for any declared
+ * input that no registered card produces. Facet inputs ("facet:<name>") come
+ * from the user rather than another card and are not part of the graph.
+ */
+
+import { CardID, CardIO, CardFailure, CardFailureRegistry, FACET_INPUT_PREFIX } from "./cardContract";
+import { CardRegistryEntry, listCards } from "./cardRegistry";
+
+export type CardGraphEdge = {
+  from: CardID; // producer
+  to: CardID; // consumer
+  key: string; // the output/input key that connects them
+};
+
+export type CardGraphNode = {
+  id: CardID;
+  inputs: string[];
+  outputs: string[];
+};
+
+export class CardGraph {
+  readonly nodes: Map<CardID, CardGraphNode>;
+  readonly edges: CardGraphEdge[];
+
+  /** Topological order of all nodes that are not part of a cycle. */
+  readonly order: CardID[];
+
+  /** Strongly connected components with more than one node, or a self-loop. */
+  readonly cycles: CardID[][];
+
+  private producers = new Map<string, CardID[]>();
+  private failures = new Map<CardID, CardFailure[]>();
+
+  constructor(nodes: CardGraphNode[]) {
+    this.nodes = new Map(nodes.map((n) => [n.id, n]));
+
+    for (const node of nodes) {
+      for (const key of node.outputs) {
+        const list = this.producers.get(key) || [];
+        list.push(node.id);
+        this.producers.set(key, list);
+      }
+    }
+
+    this.edges = [];
+    for (const node of nodes) {
+      for (const key of node.inputs) {
+        if (key.startsWith(FACET_INPUT_PREFIX)) continue;
+        const from = this.producers.get(key);
+        if (!from || from.length === 0) {
+          this.addFailure(node.id, {
+            code: CardFailureRegistry.MISSING_INPUT.code,
+            message: `${CardFailureRegistry.MISSING_INPUT.message}: no card produces "${key}"`,
+            severity: "error",
+          });
+          continue;
+        }
+        for (const producer of from) {
+          this.edges.push({ from: producer, to: node.id, key });
+        }
+      }
+    }
+
+    this.cycles = this.findCycles();
+    for (const cycle of this.cycles) {
+      for (const id of cycle) {
+        this.addFailure(id, {
+          code: CardFailureRegistry.DEPENDENCY_CYCLE.code,
+          message: `${CardFailureRegistry.DEPENDENCY_CYCLE.message}: ${cycle.join(" → ")}`,
+          severity: "error",
+        });
+      }
+    }
+
+    this.order = this.topologicalOrder(new Set(this.cycles.flat()));
+  }
+
+  /** Edges into `id`: what feeds this card. */
+  feeds(id: CardID): CardGraphEdge[] {
+    return this.edges.filter((e) => e.to === id);
+  }
+
+  /** Edges out of `id`: what depends on this card. */
+  dependents(id: CardID): CardGraphEdge[] {
+    return this.edges.filter((e) => e.from === id);
+  }
+
+  /** Every card reachable downstream of `id` (excluding `id` unless it is in a cycle). */
+  downstreamOf(id: CardID): CardID[] {
+    const seen = new Set<CardID>();
+    const stack = [id];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const edge of this.dependents(current)) {
+        if (!seen.has(edge.to)) {
+          seen.add(edge.to);
+          stack.push(edge.to);
+        }
+      }
+    }
+    return Array.from(seen);
+  }
+
+  /** Cards that produce `key`. */
+  producersOf(key: string): CardID[] {
+    return [...(this.producers.get(key) || [])];
+  }
+
+  /** Graph failures (missing inputs, cycles) for a single card. */
+  getFailures(id: CardID): CardFailure[] {
+    return [...(this.failures.get(id) || [])];
+  }
+
+  /** All graph failures, keyed by card id. */
+  getAllFailures(): Map<CardID, CardFailure[]> {
+    return new Map(Array.from(this.failures.entries()).map(([id, f]) => [id, [...f]]));
+  }
+
+  hasCycles(): boolean {
+    return this.cycles.length > 0;
+  }
+
+  private addFailure(id: CardID, failure: CardFailure): void {
+    const list = this.failures.get(id) || [];
+    list.push(failure);
+    this.failures.set(id, list);
+  }
+
+  /** Kahn's algorithm over the acyclic part of the graph, stable in node order. */
+  private topologicalOrder(excluded: Set<CardID>): CardID[] {
+    const indegree = new Map<CardID, number>();
+    for (const id of this.nodes.keys()) {
+      if (!excluded.has(id)) indegree.set(id, 0);
+    }
+    for (const edge of this.edges) {
+      if (indegree.has(edge.to) && !excluded.has(edge.from)) {
+        indegree.set(edge.to, indegree.get(edge.to)! + 1);
+      }
+    }
+
+    const queue = Array.from(indegree.keys()).filter((id) => indegree.get(id) === 0);
+    const order: CardID[] = [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      for (const edge of this.dependents(id)) {
+        if (!indegree.has(edge.to)) continue;
+        const d = indegree.get(edge.to)! - 1;
+        indegree.set(edge.to, d);
+        if (d === 0) queue.push(edge.to);
+      }
+    }
+
+    // Nodes downstream of a cycle never reach indegree 0; append them last
+    for (const id of indegree.keys()) {
+      if (!order.includes(id)) order.push(id);
+    }
+    return order;
+  }
+
+  /** Tarjan's strongly connected components. */
+  private findCycles(): CardID[][] {
+    let index = 0;
+    const indices = new Map<CardID, number>();
+    const lowlink = new Map<CardID, number>();
+    const onStack = new Set<CardID>();
+    const stack: CardID[] = [];
+    const cycles: CardID[][] = [];
+
+    const visit = (id: CardID) => {
+      indices.set(id, index);
+      lowlink.set(id, index);
+      index++;
+      stack.push(id);
+      onStack.add(id);
+
+      for (const edge of this.dependents(id)) {
+        if (!indices.has(edge.to)) {
+          visit(edge.to);
+          lowlink.set(id, Math.min(lowlink.get(id)!, lowlink.get(edge.to)!));
+        } else if (onStack.has(edge.to)) {
+          lowlink.set(id, Math.min(lowlink.get(id)!, indices.get(edge.to)!));
+        }
+      }
+
+      if (lowlink.get(id) === indices.get(id)) {
+        const component: CardID[] = [];
+        let member: CardID;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+
+        const selfLoop = this.edges.some((e) => e.from === id && e.to === id);
+        if (component.length > 1 || selfLoop) {
+          cycles.push(component.reverse());
+        }
+      }
+    };
+
+    for (const id of this.nodes.keys()) {
+      if (!indices.has(id)) visit(id);
+    }
+    return cycles;
+  }
+}
+
+/**
+ * Build a graph node from any card-like object that declares `io`.
+ */
+export function toGraphNode(card: { id: CardID; io?: CardIO }): CardGraphNode {
+  return {
+    id: card.id,
+    inputs: card.io?.inputs ? [...card.io.inputs] : [],
+    outputs: card.io?.outputs ? [...card.io.outputs] : [],
+  };
+}
+
+/**
+ * Build the dependency graph over registry entries (defaults to all registered cards).
+ */
+export function buildCardGraph(entries: CardRegistryEntry[] = listCards()): CardGraph {
+  return new CardGraph(entries.map(toGraphNode));
+}
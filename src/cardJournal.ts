@@ -0,0 +1,192 @@
+/**
+ * ζ-Card: State Journal (undo / redo)
+ *
+ * Records state transitions of any ZetaCardContract as (before, after)
+ * snapshot pairs taken through `getState()`, and walks them back and forth
+ * through `setState()`. Cards keep mutating themselves through their own
+ * methods; the journal either wraps a single mutation (`record`) or patches
+ * the instance methods that mutate (`track`).
+ *
+ * High-frequency mutations (e.g. `Card.step()` every frame) are coalesced:
+ * consecutive changes with the same label inside `coalesceMs` of each other
+ * collapse into one entry, so undo jumps back past the whole burst.
+ *
+ * Requires `getState()` to return a snapshot that later mutations do not
+ * alias (all cards in this repo copy their arrays).
+ */
+
+import { ZetaCardContract } from "./cardContract";
+
+export type JournalEntry<State = unknown> = {
+  seq: number;
+  label: string;
+  before: State;
+  after: State;
+  startedAt: number;
+  updatedAt: number;
+  count: number; // mutations coalesced into this entry
+};
+
+export type CardJournalOptions = {
+  depth?: number; // max entries kept (oldest dropped first)
+  coalesceMs?: number; // same-label changes closer than this are merged (0 disables)
+  now?: () => number;
+};
+
+export type CardJournalListener<State> = (entries: readonly JournalEntry<State>[], cursor: number) => void;
+
+const DEFAULT_DEPTH = 100;
+const DEFAULT_COALESCE_MS = 250;
+
+export class CardJournal<State = unknown> {
+  private entries: JournalEntry<State>[] = [];
+  private cursor = 0; // entries[0..cursor) are applied; the rest can be redone
+  private seq = 0;
+  private recording = 0;
+  private applying = false;
+  private listeners: CardJournalListener<State>[] = [];
+  private readonly depth: number;
+  private readonly coalesceMs: number;
+  private readonly now: () => number;
+
+  constructor(private card: ZetaCardContract<State>, options: CardJournalOptions = {}) {
+    this.depth = Math.max(1, options.depth ?? DEFAULT_DEPTH);
+    this.coalesceMs = options.coalesceMs ?? DEFAULT_COALESCE_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Run a mutation and journal the state change it made.
+   * Nested records (a tracked method calling another) journal only the outermost.
+   */
+  record<T>(label: string, mutate: () => T): T {
+    if (this.applying || this.recording > 0) return mutate();
+
+    const before = this.card.getState();
+    this.recording++;
+    try {
+      return mutate();
+    } finally {
+      this.recording--;
+      this.push(label, before, this.card.getState());
+    }
+  }
+
+  /**
+   * Journal every call to the named methods of the card instance.
+   * Returns a function that restores the original methods.
+   */
+  track(...methods: string[]): () => void {
+    const target = this.card as unknown as Record<string, unknown>;
+    const originals = new Map<string, unknown>();
+
+    for (const name of methods) {
+      const original = target[name];
+      if (typeof original !== "function") {
+        throw new Error(`cannot track ${this.card.id}.${name}: not a method`);
+      }
+      originals.set(name, original);
+      target[name] = (...args: unknown[]) => this.record(name, () => original.apply(this.card, args));
+    }
+
+    return () => {
+      for (const [name, original] of originals) {
+        target[name] = original;
+      }
+    };
+  }
+
+  undo(): boolean {
+    if (!this.canUndo()) return false;
+    this.cursor--;
+    this.apply(this.entries[this.cursor].before);
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo()) return false;
+    this.apply(this.entries[this.cursor].after);
+    this.cursor++;
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.cursor > 0;
+  }
+
+  canRedo(): boolean {
+    return this.cursor < this.entries.length;
+  }
+
+  /** Timeline of journaled changes, oldest first. */
+  getEntries(): readonly JournalEntry<State>[] {
+    return [...this.entries];
+  }
+
+  /** Number of entries currently applied (entries at or after it are redoable). */
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.cursor = 0;
+    this.notify();
+  }
+
+  subscribe(listener: CardJournalListener<State>) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private push(label: string, before: State, after: State) {
+    const now = this.now();
+    const top = this.entries[this.entries.length - 1];
+
+    const coalesce =
+      top !== undefined &&
+      this.coalesceMs > 0 &&
+      this.cursor === this.entries.length &&
+      top.label === label &&
+      now - top.updatedAt <= this.coalesceMs;
+
+    if (coalesce) {
+      top.after = after;
+      top.updatedAt = now;
+      top.count++;
+      this.notify();
+      return;
+    }
+
+    // A new change discards the redo branch
+    this.entries.length = this.cursor;
+    this.entries.push({ seq: ++this.seq, label, before, after, startedAt: now, updatedAt: now, count: 1 });
+    if (this.entries.length > this.depth) {
+      this.entries.splice(0, this.entries.length - this.depth);
+    }
+    this.cursor = this.entries.length;
+    this.notify();
+  }
+
+  private apply(state: State) {
+    this.applying = true;
+    try {
+      this.card.setState(state);
+    } finally {
+      this.applying = false;
+    }
+    this.notify();
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      try {
+        listener(this.getEntries(), this.cursor);
+      } catch (e) {
+        // Listener errors must not break journaling
+      }
+    }
+  }
+}
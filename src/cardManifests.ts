@@ -0,0 +1,316 @@
+/**
+ * ζ-Card: Repo Manifests
+ *
+ * Populates the CardRegistry from card manifests committed in a ZetaRepo
+ * (`cards/<name>/manifest.json`, as written by `ZetaRepo.addCardAndCommit`).
+ * Loading a commit registers its manifests, updates changed ones and removes
+ * cards that came from an earlier commit but are gone from this one, so
+ * moving to another branch changes which cards exist and how they read.
+ * Built-in (static) registry entries are never replaced or removed.
+ *
+ * Manifest format (JSON):
+ *   {
+ *     "id": "ζ.card.pulse",
+ *     "title": "Pulse",
+ *     "description": "...",          // or "tagline" / "semanticDescriptor"
+ *     "tags": ["..."],
+ *     "io": { "inputs": [], "outputs": [] },
+ *     "invariants": ["Name: text"],
+ *     "failureModes": [{ "code": "...", "message": "...", "severity": "warn" }],
+ *     "implementationPath": "src/...", // defaults to the manifest path
+ *     "docstring": "..."
+ *   }
+ */
+
+import { CardFailure, CardID } from "./cardContract";
+import { CardRegistryEntry, getCard, registerCard, unregisterCard, updateCard } from "./cardRegistry";
+import { LocationManager, locationManager } from "./location";
+import { LogOptions, TreeDiffEntry, ZetaRepo, repo } from "./zetaRepo";
+import { JsonChange, LineDiff, diffJson, diffLines } from "./zetaDiff";
+import { eventLog } from "./instrumentation";
+
+const MANIFEST_PATTERN = /^cards\/[^/]+\/manifest\.json$/;
+
+export type ManifestLoadReport = {
+  commit: string | null;
+  registered: CardID[];
+  updated: CardID[];
+  removed: CardID[];
+  skipped: { path: string; reason: string }[];
+};
+
+export type CardVersion = {
+  commit: string;
+  timestamp: number;
+  message: string;
+  author?: string;
+};
+
+export type ManifestDiff = TreeDiffEntry & {
+  id?: CardID; // from the newer manifest, else the older one
+  changes: JsonChange[]; // key-level; empty when either side is not valid JSON
+  lines?: LineDiff[]; // only when either side is not valid JSON
+};
+
+// Ids currently in the registry because a repo manifest put them there, with that manifest's path
+const repoCards = new Map<CardID, string>();
+
+export function isRepoCard(id: CardID): boolean {
+  return repoCards.has(id);
+}
+
+export function repoManifestPath(id: CardID): string | null {
+  return repoCards.get(id) ?? null;
+}
+
+function stringArray(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * Convert manifest JSON into a registry entry. Throws on malformed manifests.
+ */
+export function parseCardManifest(manifestPath: string, text: string): CardRegistryEntry {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (typeof raw !== "object" || raw === null) throw new Error("manifest is not an object");
+
+  const meta = (typeof raw.meta === "object" && raw.meta !== null ? raw.meta : raw) as Record<string, unknown>;
+  if (typeof raw.id !== "string" || !raw.id) throw new Error("missing id");
+  if (typeof meta.title !== "string" || !meta.title) throw new Error("missing title");
+
+  const description = [meta.description, meta.tagline, meta.semanticDescriptor].find(
+    (d): d is string => typeof d === "string"
+  );
+  const io = raw.io as CardRegistryEntry["io"] | undefined;
+
+  return {
+    id: raw.id,
+    meta: { title: meta.title, description, tags: stringArray(meta.tags, "tags") },
+    ...(io ? { io: { inputs: stringArray(io.inputs, "io.inputs"), outputs: stringArray(io.outputs, "io.outputs") } } : {}),
+    implementationPath: typeof raw.implementationPath === "string" ? raw.implementationPath : manifestPath,
+    invariants: stringArray(raw.invariants, "invariants"),
+    failureModes: Array.isArray(raw.failureModes) ? (raw.failureModes as CardFailure[]) : [],
+    ...(typeof raw.docstring === "string" ? { docstring: raw.docstring } : {}),
+  };
+}
+
+async function resolveCommit(source: ZetaRepo, target: string): Promise<string | null> {
+  if (/^[0-9a-f]{40}$/i.test(target)) return target;
+  return source.readRef(target.startsWith("refs/") ? target : `refs/heads/${target}`);
+}
+
+/**
+ * Read every card manifest in a commit's tree.
+ */
+export async function readManifestsAtCommit(
+  commitOid: string,
+  source: ZetaRepo = repo
+): Promise<{ entries: { path: string; entry: CardRegistryEntry }[]; skipped: ManifestLoadReport["skipped"] }> {
+  const commit = await source.readCommit(commitOid);
+  const tree: Record<string, { oid: string; type: string }> = await source.readTree(commit.tree);
+
+  const entries: { path: string; entry: CardRegistryEntry }[] = [];
+  const skipped: ManifestLoadReport["skipped"] = [];
+  for (const [manifestPath, node] of Object.entries(tree)) {
+    if (node.type !== "blob" || !MANIFEST_PATTERN.test(manifestPath)) continue;
+    try {
+      const text = (await source.readBlob(node.oid)).toString("utf8");
+      entries.push({ path: manifestPath, entry: parseCardManifest(manifestPath, text) });
+    } catch (e) {
+      skipped.push({ path: manifestPath, reason: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return { entries, skipped };
+}
+
+/**
+ * Retry registry operations until a pass makes no progress, so producers are
+ * registered before consumers (and consumers removed before producers).
+ */
+function applyUntilStable(ops: { path: string; run: () => void }[], skipped: ManifestLoadReport["skipped"]) {
+  let pending = ops;
+  while (pending.length > 0) {
+    const failed: { path: string; run: () => void; error: unknown }[] = [];
+    for (const op of pending) {
+      try {
+        op.run();
+      } catch (error) {
+        failed.push({ ...op, error });
+      }
+    }
+    if (failed.length === pending.length) {
+      for (const op of failed) {
+        skipped.push({ path: op.path, reason: op.error instanceof Error ? op.error.message : String(op.error) });
+      }
+      return;
+    }
+    pending = failed;
+  }
+}
+
+/**
+ * Make the repo-sourced part of the registry match the manifests at `target`
+ * (a branch name, full ref, or commit oid). A target with no commit removes
+ * every repo-sourced card.
+ */
+export async function loadRegistryFromRepo(
+  target: string | null = "refs/heads/main",
+  source: ZetaRepo = repo
+): Promise<ManifestLoadReport> {
+  const commit = target ? await resolveCommit(source, target) : null;
+  const report: ManifestLoadReport = { commit, registered: [], updated: [], removed: [], skipped: [] };
+
+  const loaded = commit ? await readManifestsAtCommit(commit, source) : { entries: [], skipped: [] };
+  report.skipped.push(...loaded.skipped);
+
+  const wanted = new Map<CardID, { path: string; entry: CardRegistryEntry }>();
+  for (const item of loaded.entries) {
+    const existing = getCard(item.entry.id);
+    if (existing && !repoCards.has(item.entry.id)) {
+      report.skipped.push({ path: item.path, reason: `conflicts with built-in card ${item.entry.id}` });
+    } else if (wanted.has(item.entry.id)) {
+      report.skipped.push({ path: item.path, reason: `duplicate id ${item.entry.id}` });
+    } else {
+      wanted.set(item.entry.id, item);
+    }
+  }
+
+  const removals = [...repoCards.keys()]
+    .filter((id) => !wanted.has(id))
+    .map((id) => ({
+      path: getCard(id)?.implementationPath ?? id,
+      run: () => {
+        unregisterCard(id);
+        repoCards.delete(id);
+        report.removed.push(id);
+      },
+    }));
+  applyUntilStable(removals, report.skipped);
+
+  const upserts = [...wanted.values()]
+    .filter(({ entry }) => {
+      const current = getCard(entry.id);
+      return !current || JSON.stringify(current) !== JSON.stringify(entry);
+    })
+    .map(({ path: manifestPath, entry }) => ({
+      path: manifestPath,
+      run: () => {
+        if (getCard(entry.id)) {
+          // Optional fields absent from the new manifest must not linger
+          updateCard(entry.id, { io: undefined, docstring: undefined, ...entry });
+          repoCards.set(entry.id, manifestPath);
+          report.updated.push(entry.id);
+        } else {
+          registerCard(entry);
+          repoCards.set(entry.id, manifestPath);
+          report.registered.push(entry.id);
+        }
+      },
+    }));
+  applyUntilStable(upserts, report.skipped);
+
+  return report;
+}
+
+/**
+ * Keep the registry in sync with a LocationManager: reload manifests when it
+ * moves to another commit or a new commit lands. Returns a stop function.
+ */
+export function followLocation(manager: LocationManager = locationManager, source: ZetaRepo = repo): () => void {
+  let queue: Promise<unknown> = Promise.resolve();
+  let requested: string | null | undefined;
+
+  // Loads run one at a time so a slow load cannot overwrite a newer one
+  const reload = () => {
+    requested = manager.currentCommit;
+    queue = queue.then(() =>
+      loadRegistryFromRepo(manager.currentCommit, source).catch((e) => {
+        eventLog.emit({
+          type: "ERROR",
+          source: "storage",
+          message: `Failed to load card manifests: ${e instanceof Error ? e.message : String(e)}`,
+        });
+      })
+    );
+  };
+
+  // descend/ascend also emit `moved` without changing the commit
+  const onMoved = () => {
+    if (manager.currentCommit !== requested) reload();
+  };
+
+  manager.on("moved", onMoved);
+  manager.on("commit", reload);
+  reload();
+
+  return () => {
+    manager.off("moved", onMoved);
+    manager.off("commit", reload);
+  };
+}
+
+/**
+ * Earlier versions of a repo card: the commits that changed its directory
+ * (`cards/<name>/`), newest first, walking back from the location's current
+ * commit. Empty for cards that did not come from the repo.
+ */
+export async function cardVersions(
+  id: CardID,
+  manager: LocationManager = locationManager,
+  options: LogOptions = {}
+): Promise<CardVersion[]> {
+  const manifestPath = repoCards.get(id);
+  if (!manifestPath) return [];
+  const history = await manager.history(manifestPath.replace(/\/manifest\.json$/, ""), options);
+  return history.map(({ oid, commit }) => ({
+    commit: oid,
+    timestamp: commit.timestamp,
+    message: commit.message ?? "",
+    author: commit.author?.name,
+  }));
+}
+
+/**
+ * How the card manifests differ between two refs or commits: which manifests
+ * were added, removed, renamed or modified, and which keys changed from what
+ * to what. Manifests that do not parse fall back to a line diff.
+ */
+export async function diffManifests(from: string, to: string, source: ZetaRepo = repo): Promise<ManifestDiff[]> {
+  const read = async (oid?: string) => (oid ? (await source.readBlob(oid)).toString("utf8") : undefined);
+  const parse = (text?: string): { ok: boolean; value?: unknown } => {
+    if (text === undefined) return { ok: true };
+    try {
+      return { ok: true, value: JSON.parse(text) };
+    } catch (e) {
+      return { ok: false };
+    }
+  };
+  const idOf = (value: unknown) =>
+    typeof value === "object" && value !== null && typeof (value as { id?: unknown }).id === "string"
+      ? (value as { id: string }).id
+      : undefined;
+
+  const diffs: ManifestDiff[] = [];
+  for (const entry of await source.diffTrees(from, to)) {
+    if (!MANIFEST_PATTERN.test(entry.path) && !(entry.from && MANIFEST_PATTERN.test(entry.from))) continue;
+    const [oldText, newText] = [await read(entry.oldOid), await read(entry.newOid)];
+    const [before, after] = [parse(oldText), parse(newText)];
+    const id = idOf(after.value) ?? idOf(before.value);
+    if (before.ok && after.ok) {
+      // Added and removed manifests list their keys one by one
+      diffs.push({ ...entry, id, changes: diffJson(before.value ?? {}, after.value ?? {}) });
+    } else {
+      diffs.push({ ...entry, id, changes: [], lines: diffLines(oldText ?? "", newText ?? "") });
+    }
+  }
+  return diffs;
+}
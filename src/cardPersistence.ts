@@ -0,0 +1,328 @@
+/**
+ * ζ-Card: State Persistence
+ *
+ * Snapshots every live card's `getState()` into a pluggable store and restores
+ * them through `setState()` on startup, emitting STATE_REHYDRATED with the
+ * cards that were restored or skipped.
+ *
+ * Snapshots are stored as versioned envelopes (see cardState.ts), so a
+ * snapshot written by an older build is migrated on restore. Values JSON
+ * cannot represent are tagged on the way out and revived on the way in:
+ *   - Float32Array (the `Card` surface)
+ *   - Map / Set
+ *   - non-finite numbers (NaN, ±Infinity)
+ *
+ * Stores:
+ *   - MemoryStateStore        (tests, headless runs)
+ *   - LocalStorageStateStore  (browser, small states)
+ *   - IndexedDBStateStore     (browser, large states)
+ *   - FileStateStore          (Node; the caller supplies `fs/promises`)
+ */
+
+import { CardID } from "./cardContract";
+import { CardRuntime, cardRuntime } from "./cardRuntime";
+import { VersionedState, migrateState, snapshotCardState } from "./cardState";
+import { eventLog } from "./instrumentation";
+
+const SNAPSHOT_FORMAT = 1;
+
+export type PersistedSnapshot = {
+  format: number;
+  savedAt: number;
+  cards: Record<CardID, VersionedState<unknown>>;
+};
+
+export type RehydrationReport = {
+  restored: CardID[];
+  skipped: { cardId: CardID; reason: string }[];
+};
+
+/**
+ * Where snapshots live. Stores exchange serialized text so every backend
+ * shares the same encoding.
+ */
+export interface CardStateStore {
+  read(): Promise<string | null>;
+  write(text: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const TYPE_TAG = "__zetaType";
+
+type Tagged =
+  | { [TYPE_TAG]: "Float32Array"; data: number[] }
+  | { [TYPE_TAG]: "Map"; entries: [unknown, unknown][] }
+  | { [TYPE_TAG]: "Set"; values: unknown[] }
+  | { [TYPE_TAG]: "number"; value: "NaN" | "Infinity" | "-Infinity" };
+
+function tag(value: unknown): unknown {
+  if (value instanceof Float32Array) {
+    return { [TYPE_TAG]: "Float32Array", data: Array.from(value) };
+  }
+  if (value instanceof Map) {
+    return { [TYPE_TAG]: "Map", entries: Array.from(value.entries()) };
+  }
+  if (value instanceof Set) {
+    return { [TYPE_TAG]: "Set", values: Array.from(value.values()) };
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return { [TYPE_TAG]: "number", value: String(value) };
+  }
+  return value;
+}
+
+function untag(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || !(TYPE_TAG in value)) {
+    return value;
+  }
+  const tagged = value as Tagged;
+  switch (tagged[TYPE_TAG]) {
+    case "Float32Array":
+      return new Float32Array(tagged.data);
+    case "Map":
+      return new Map(tagged.entries);
+    case "Set":
+      return new Set(tagged.values);
+    case "number":
+      return Number(tagged.value);
+    default:
+      return value;
+  }
+}
+
+// Read the raw holder value: typed arrays and non-finite numbers must be
+// tagged before JSON turns them into plain objects or null
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  const tagged = tag(raw);
+  return tagged === raw ? value : tagged;
+}
+
+/**
+ * JSON with the tagged encoding above, for any value that may hold card state.
+ */
+export function encodeValue(value: unknown): string {
+  return JSON.stringify(value, replacer);
+}
+
+export function decodeValue(text: string): unknown {
+  return JSON.parse(text, (_key, value) => untag(value));
+}
+
+export function serializeSnapshot(snapshot: PersistedSnapshot): string {
+  return encodeValue(snapshot);
+}
+
+/**
+ * Deep copy a state snapshot with the same encoding used for storage, so the
+ * copy shares no arrays or typed arrays with the original.
+ */
+export function cloneState<State>(state: State): State {
+  if (state === undefined) return state;
+  return decodeValue(encodeValue(state)) as State;
+}
+
+export function deserializeSnapshot(text: string): PersistedSnapshot {
+  const parsed = JSON.parse(text, (_key, value) => untag(value));
+  if (typeof parsed !== "object" || parsed === null || typeof parsed.cards !== "object") {
+    throw new Error("invalid snapshot: missing cards");
+  }
+  if (parsed.format !== SNAPSHOT_FORMAT) {
+    throw new Error(`unsupported snapshot format ${parsed.format}`);
+  }
+  return parsed as PersistedSnapshot;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export class MemoryStateStore implements CardStateStore {
+  private text: string | null = null;
+
+  async read() {
+    return this.text;
+  }
+  async write(text: string) {
+    this.text = text;
+  }
+  async clear() {
+    this.text = null;
+  }
+}
+
+export class LocalStorageStateStore implements CardStateStore {
+  constructor(
+    private key = "zetacard.state",
+    private storage: Storage = window.localStorage
+  ) {}
+
+  async read() {
+    return this.storage.getItem(this.key);
+  }
+  async write(text: string) {
+    this.storage.setItem(this.key, text);
+  }
+  async clear() {
+    this.storage.removeItem(this.key);
+  }
+}
+
+export class IndexedDBStateStore implements CardStateStore {
+  constructor(
+    private dbName = "zetacard",
+    private key = "state",
+    private factory: IDBFactory = indexedDB
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const req = this.factory.open(this.dbName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore("snapshots");
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const req = op(db.transaction("snapshots", mode).objectStore("snapshots"));
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  async read() {
+    const value = await this.request<string | undefined>("readonly", (s) => s.get(this.key));
+    return value ?? null;
+  }
+  async write(text: string) {
+    await this.request("readwrite", (s) => s.put(text, this.key));
+  }
+  async clear() {
+    await this.request("readwrite", (s) => s.delete(this.key));
+  }
+}
+
+/** Subset of Node's `fs/promises` used by FileStateStore. */
+export interface FileSystemLike {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+  rm?(path: string, options?: { force?: boolean }): Promise<void>;
+  unlink?(path: string): Promise<void>;
+}
+
+export class FileStateStore implements CardStateStore {
+  constructor(private filePath: string, private fs: FileSystemLike) {}
+
+  async read() {
+    try {
+      return await this.fs.readFile(this.filePath, "utf8");
+    } catch (e) {
+      return null; // No snapshot written yet
+    }
+  }
+  async write(text: string) {
+    await this.fs.writeFile(this.filePath, text, "utf8");
+  }
+  async clear() {
+    try {
+      if (this.fs.rm) await this.fs.rm(this.filePath, { force: true });
+      else if (this.fs.unlink) await this.fs.unlink(this.filePath);
+    } catch (e) {
+      // Already gone
+    }
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export class CardPersistence {
+  constructor(
+    private store: CardStateStore,
+    private runtime: CardRuntime = cardRuntime
+  ) {}
+
+  /**
+   * Snapshot every live card. Returns the ids that were saved.
+   */
+  async save(): Promise<CardID[]> {
+    const cards: PersistedSnapshot["cards"] = {};
+    for (const card of this.runtime.list()) {
+      try {
+        cards[card.id] = snapshotCardState(card);
+      } catch (e) {
+        eventLog.emit({
+          type: "ERROR",
+          source: "storage",
+          message: `Failed to snapshot ${card.id}: ${e instanceof Error ? e.message : String(e)}`,
+        });
+      }
+    }
+    await this.store.write(serializeSnapshot({ format: SNAPSHOT_FORMAT, savedAt: Date.now(), cards }));
+    return Object.keys(cards);
+  }
+
+  /**
+   * Restore persisted snapshots into the live cards and emit STATE_REHYDRATED.
+   * Cards that are not registered, or whose snapshot cannot be migrated, are skipped.
+   */
+  async restore(): Promise<RehydrationReport> {
+    const report: RehydrationReport = { restored: [], skipped: [] };
+
+    let snapshot: PersistedSnapshot | null = null;
+    try {
+      const text = await this.store.read();
+      snapshot = text ? deserializeSnapshot(text) : null;
+    } catch (e) {
+      eventLog.emit({
+        type: "ERROR",
+        source: "storage",
+        message: `Failed to load card snapshot: ${e instanceof Error ? e.message : String(e)}`,
+      });
+    }
+
+    for (const [cardId, envelope] of Object.entries(snapshot?.cards ?? {})) {
+      const card = this.runtime.get(cardId);
+      if (!card) {
+        report.skipped.push({ cardId, reason: "not_registered" });
+        continue;
+      }
+
+      if (card.stateSchema) {
+        const result = migrateState(card.stateSchema, envelope);
+        if (!result.ok) {
+          report.skipped.push({ cardId, reason: result.failure.message });
+          continue;
+        }
+        card.setState(result.state);
+      } else {
+        try {
+          card.setState(envelope.state);
+        } catch (e) {
+          report.skipped.push({ cardId, reason: e instanceof Error ? e.message : String(e) });
+          continue;
+        }
+      }
+      report.restored.push(cardId);
+    }
+
+    eventLog.emit({ type: "STATE_REHYDRATED", restored: report.restored, skipped: report.skipped });
+    return report;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
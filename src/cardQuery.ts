@@ -0,0 +1,131 @@
+/**
+ * ζ-Card: Card Query
+ *
+ * Structured Omnibox queries: filter tokens narrow the registry by metadata,
+ * and whatever is left is free text ranked by the resolver.
+ *
+ *   tag:safety                  entry has the tag
+ *   failure:dose_exceeded       entry declares the failure mode code
+ *   severity:error              entry declares a failure mode of that severity
+ *   path:src/cards              implementationPath starts with the path
+ *   -tag:system                 negation: entry must NOT match the filter
+ *   tag:"power asymmetry"       quotes allow spaces in a value
+ *   "dose budget"               phrase: matches only as one contiguous string
+ *
+ *   "sun tag:safety -severity:info" → text "sun", two filters
+ *
+ * All filters must hold (AND). Tokens with an unknown field ("https://…",
+ * "main:/cards") stay free text; a filter without a value ("tag:", still
+ * being typed) is ignored.
+ */
+
+import { CardRegistryEntry } from "./cardRegistry";
+
+export const QUERY_FIELDS = ["tag", "failure", "severity", "path"] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+export type QueryFilter = {
+  kind: "filter";
+  field: QueryField;
+  value: string;
+  negated: boolean;
+};
+
+export type QueryText = {
+  kind: "text";
+  value: string;
+};
+
+export type QueryPhrase = {
+  kind: "phrase";
+  value: string; // inner whitespace collapsed to single spaces
+};
+
+export type QueryNode = QueryFilter | QueryText | QueryPhrase;
+
+export type CardQuery = {
+  nodes: QueryNode[]; // in input order
+  text: string; // free text nodes joined by spaces (phrases excluded)
+  phrases: string[];
+  filters: QueryFilter[];
+};
+
+// -field:"quoted value" | -field:value | "quoted text" | word
+const TOKEN = /(-?)([a-z]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/gi;
+
+function isQueryField(name: string): name is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(name);
+}
+
+/**
+ * Parse Omnibox input into filters and free text.
+ */
+export function parseCardQuery(input: string): CardQuery {
+  const nodes: QueryNode[] = [];
+  for (const m of input.matchAll(TOKEN)) {
+    const [token, minus, name, quoted, bare, phrase, word] = m;
+    if (name !== undefined) {
+      const field = name.toLowerCase();
+      if (!isQueryField(field)) {
+        nodes.push({ kind: "text", value: token });
+        continue;
+      }
+      const value = (quoted ?? bare ?? "").trim();
+      if (value) nodes.push({ kind: "filter", field, value, negated: minus === "-" });
+    } else if (phrase !== undefined) {
+      const value = phrase.trim().replace(/\s+/g, " ");
+      if (value) nodes.push({ kind: "phrase", value });
+    } else {
+      nodes.push({ kind: "text", value: word });
+    }
+  }
+
+  return {
+    nodes,
+    text: nodes
+      .filter((n): n is QueryText => n.kind === "text")
+      .map((n) => n.value)
+      .join(" "),
+    phrases: nodes.filter((n): n is QueryPhrase => n.kind === "phrase").map((n) => n.value),
+    filters: nodes.filter((n): n is QueryFilter => n.kind === "filter"),
+  };
+}
+
+/**
+ * Whether an entry satisfies one filter (before negation).
+ */
+function matchesField(entry: CardRegistryEntry, field: QueryField, value: string): boolean {
+  const v = value.toLowerCase();
+  switch (field) {
+    case "tag":
+      return (entry.meta.tags ?? []).some((t) => t.toLowerCase() === v);
+    case "failure":
+      return entry.failureModes.some((f) => f.code.toLowerCase() === v);
+    case "severity":
+      return entry.failureModes.some((f) => f.severity === v);
+    case "path": {
+      const path = entry.implementationPath.replace(/^\.\//, "").toLowerCase();
+      return path.startsWith(v.replace(/^\.\//, ""));
+    }
+  }
+}
+
+export function matchesFilter(entry: CardRegistryEntry, filter: QueryFilter): boolean {
+  return matchesField(entry, filter.field, filter.value) !== filter.negated;
+}
+
+/**
+ * Whether an entry satisfies every filter of a query.
+ */
+export function matchesQueryFilters(entry: CardRegistryEntry, query: CardQuery): boolean {
+  return query.filters.every((f) => matchesFilter(entry, f));
+}
+
+/**
+ * The filter as typed ("-tag:system", 'tag:"two words"').
+ */
+export function formatFilter(filter: QueryFilter): string {
+  const value = /\s/.test(filter.value) ? `"${filter.value}"` : filter.value;
+  return `${filter.negated ? "-" : ""}${filter.field}:${value}`;
+}
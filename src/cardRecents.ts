@@ -0,0 +1,258 @@
+/**
+ * ζ-Card: Recents (frecency)
+ *
+ * Remembers which cards were opened, ranks them by frecency and persists the
+ * list through a CardStateStore (see cardPersistence.ts), so the Omnibox can
+ * lead with the cards a user actually returns to.
+ *
+ * Frecency is an exponentially decayed visit count: every visit adds 1, and
+ * the total halves every `halfLifeMs` (3 days by default). A card opened ten
+ * times last week outranks one opened once an hour ago; one opened ten times
+ * last month does not. Only the decayed score and the last visit time are
+ * stored, so an entry never grows with use.
+ *
+ * Pinned cards always come first (in pin order) and survive `clear()`.
+ */
+
+import { CardID } from "./cardContract";
+import { CardStateStore, MemoryStateStore } from "./cardPersistence";
+import { CardRuntime } from "./cardRuntime";
+
+const RECENTS_FORMAT = 1;
+const DEFAULT_HALF_LIFE_MS = 3 * 24 * 60 * 60 * 1000;
+const DEFAULT_CAPACITY = 50;
+
+export type RecentEntry = {
+  cardId: CardID;
+  score: number; // decayed visit count as of lastVisit
+  visits: number; // lifetime visit count
+  lastVisit: number;
+  pinnedAt: number | null;
+};
+
+export type RankedRecent = RecentEntry & {
+  frecency: number; // score decayed to "now"
+};
+
+export type CardRecentsOptions = {
+  halfLifeMs?: number;
+  capacity?: number; // unpinned entries kept (lowest frecency dropped first)
+  now?: () => number;
+};
+
+export class CardRecents {
+  private entries = new Map<CardID, RecentEntry>();
+  private listeners: (() => void)[] = [];
+  private store: CardStateStore;
+  private readonly halfLifeMs: number;
+  private readonly capacity: number;
+  private readonly now: () => number;
+
+  constructor(store: CardStateStore = new MemoryStateStore(), options: CardRecentsOptions = {}) {
+    this.store = store;
+    this.halfLifeMs = options.halfLifeMs ?? DEFAULT_HALF_LIFE_MS;
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Read persisted recents (optionally switching to another store first).
+   * Visits recorded before the load completes are merged, not lost.
+   * A missing or unreadable snapshot leaves the current entries as they are.
+   */
+  async load(store?: CardStateStore): Promise<void> {
+    if (store) this.store = store;
+    let text: string | null;
+    try {
+      text = await this.store.read();
+    } catch (e) {
+      return;
+    }
+    if (!text) return;
+
+    let loaded: RecentEntry[];
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed?.format !== RECENTS_FORMAT || !Array.isArray(parsed.entries)) return;
+      loaded = parsed.entries;
+    } catch (e) {
+      return;
+    }
+
+    for (const entry of loaded) {
+      if (typeof entry?.cardId !== "string" || typeof entry.lastVisit !== "number") continue;
+      const current = this.entries.get(entry.cardId);
+      if (!current) {
+        this.entries.set(entry.cardId, { ...entry, pinnedAt: entry.pinnedAt ?? null });
+        continue;
+      }
+      const lastVisit = Math.max(current.lastVisit, entry.lastVisit);
+      this.entries.set(entry.cardId, {
+        cardId: entry.cardId,
+        score: this.decay(current.score, current.lastVisit, lastVisit) + this.decay(entry.score, entry.lastVisit, lastVisit),
+        visits: current.visits + entry.visits,
+        lastVisit,
+        pinnedAt: current.pinnedAt ?? entry.pinnedAt ?? null,
+      });
+    }
+    this.prune();
+    this.notify();
+  }
+
+  /**
+   * Count a visit to a card.
+   */
+  recordVisit(cardId: CardID): void {
+    const now = this.now();
+    const current = this.entries.get(cardId);
+    this.entries.set(cardId, {
+      cardId,
+      score: (current ? this.decay(current.score, current.lastVisit, now) : 0) + 1,
+      visits: (current?.visits ?? 0) + 1,
+      lastVisit: now,
+      pinnedAt: current?.pinnedAt ?? null,
+    });
+    this.prune();
+    this.changed();
+  }
+
+  /**
+   * Pin a card to the top of the list. Pinning a card that was never
+   * visited adds it without counting a visit.
+   */
+  pin(cardId: CardID): void {
+    const current = this.entries.get(cardId);
+    if (current?.pinnedAt != null) return;
+    this.entries.set(cardId, current
+      ? { ...current, pinnedAt: this.now() }
+      : { cardId, score: 0, visits: 0, lastVisit: this.now(), pinnedAt: this.now() });
+    this.changed();
+  }
+
+  unpin(cardId: CardID): void {
+    const current = this.entries.get(cardId);
+    if (!current || current.pinnedAt == null) return;
+    if (current.visits === 0) {
+      this.entries.delete(cardId);
+    } else {
+      this.entries.set(cardId, { ...current, pinnedAt: null });
+    }
+    this.prune();
+    this.changed();
+  }
+
+  togglePin(cardId: CardID): void {
+    if (this.isPinned(cardId)) this.unpin(cardId);
+    else this.pin(cardId);
+  }
+
+  isPinned(cardId: CardID): boolean {
+    return this.entries.get(cardId)?.pinnedAt != null;
+  }
+
+  /**
+   * Forget one card (pinned or not). Returns false if it was not listed.
+   */
+  remove(cardId: CardID): boolean {
+    if (!this.entries.delete(cardId)) return false;
+    this.changed();
+    return true;
+  }
+
+  /**
+   * Forget visit history. Pinned cards stay pinned unless `includePinned`.
+   */
+  clear(options: { includePinned?: boolean } = {}): void {
+    for (const [id, entry] of this.entries) {
+      if (options.includePinned || entry.pinnedAt == null) {
+        this.entries.delete(id);
+      } else {
+        this.entries.set(id, { ...entry, score: 0, visits: 0 });
+      }
+    }
+    this.changed();
+  }
+
+  /**
+   * Current frecency of a card (0 if it was never visited).
+   */
+  frecency(cardId: CardID): number {
+    const entry = this.entries.get(cardId);
+    return entry ? this.decay(entry.score, entry.lastVisit, this.now()) : 0;
+  }
+
+  /**
+   * Pinned cards in pin order, then visited cards by frecency
+   * (most recent visit breaks ties).
+   */
+  list(): RankedRecent[] {
+    const now = this.now();
+    const ranked = [...this.entries.values()].map((e) => ({ ...e, frecency: this.decay(e.score, e.lastVisit, now) }));
+    const pinned = ranked.filter((e) => e.pinnedAt != null).sort((a, b) => a.pinnedAt! - b.pinnedAt!);
+    const visited = ranked
+      .filter((e) => e.pinnedAt == null)
+      .sort((a, b) => b.frecency - a.frecency || b.lastVisit - a.lastVisit);
+    return [...pinned, ...visited];
+  }
+
+  /**
+   * Record a visit whenever the runtime activates a card. Returns an unsubscribe function.
+   */
+  trackRuntime(runtime: CardRuntime): () => void {
+    return runtime.subscribe((activeId) => {
+      if (activeId) this.recordVisit(activeId);
+    });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private decay(score: number, from: number, to: number): number {
+    return score * Math.pow(0.5, Math.max(0, to - from) / this.halfLifeMs);
+  }
+
+  // Drop the lowest-ranked unpinned entries beyond capacity
+  private prune() {
+    const unpinned = this.list().filter((e) => e.pinnedAt == null);
+    for (const entry of unpinned.slice(this.capacity)) {
+      this.entries.delete(entry.cardId);
+    }
+  }
+
+  private changed() {
+    const text = JSON.stringify({ format: RECENTS_FORMAT, entries: [...this.entries.values()] });
+    this.store.write(text).catch(() => {
+      // Recents are a convenience; a failed write must not break navigation
+    });
+    this.notify();
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (e) {
+        // Ignore listener errors so every subscriber is notified
+      }
+    }
+  }
+}
+
+/**
+ * Put listed cards first, in recents order; everything else keeps its order.
+ * Recents for cards that are not in `items` are ignored.
+ */
+export function withRecentsFirst<T extends { entry: { id: CardID } }>(items: T[], recents: RankedRecent[]): T[] {
+  const rank = new Map(recents.map((r, i) => [r.cardId, i]));
+  const listed = items.filter((item) => rank.has(item.entry.id));
+  listed.sort((a, b) => rank.get(a.entry.id)! - rank.get(b.entry.id)!);
+  return [...listed, ...items.filter((item) => !rank.has(item.entry.id))];
+}
+
+// Singleton shared by the Omnibox and Omnicard; the app shell points it at
+// localStorage on startup
+export const cardRecents = new CardRecents();
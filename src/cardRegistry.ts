@@ -7,7 +7,9 @@
  * The README is a projection of this registry, not an independent source.
  */
 
-import { CardID, CardMeta, CardFailure } from "./cardContract";
+import { CardID, CardMeta, CardFailure, CardIO } from "./cardContract";
+import { validateRegistry } from "./utils/cardValidation";
+import type { ManifestLoadReport } from "./cardManifests";
 
 export type CardManifest = {
   title: string;
@@ -25,6 +27,7 @@ export type CardQueryResult = {
 export interface CardRegistryEntry {
   id: CardID;
   meta: CardMeta;
+  io?: CardIO; // declared inputs/outputs (see cardGraph.ts)
   implementationPath: string; // relative path to the card implementation
   invariants: string[]; // human-readable invariants
   failureModes: CardFailure[]; // observable failure states
@@ -33,7 +36,8 @@ export interface CardRegistryEntry {
 
 /**
  * Global card registry.
- * All cards must be registered here to be discoverable.
+ * All cards must be registered here (statically, or at runtime through
+ * registerCard) to be discoverable.
  */
 export const CardRegistry: Record<CardID, CardRegistryEntry> = {
   "ζ.card.contract.core": {
@@ -83,6 +87,7 @@ export const CardRegistry: Record<CardID, CardRegistryEntry> = {
       description: "Normalized spectral vector with angular change detection validator",
       tags: ["spectral", "deterministic", "validator"],
     },
+    io: { inputs: ["facet:number-series"], outputs: ["spectral.zeta", "spectral.bandEnergy"] },
     implementationPath: "src/zetacard.ts",
     invariants: [
       "Normalized spectral identity: zeta vector carries multi-scale energy",
@@ -124,6 +129,7 @@ export const CardRegistry: Record<CardID, CardRegistryEntry> = {
       description: "Unbounded source with bounded couplings: models capacity + demand with safety invariants",
       tags: ["contract", "safety", "capacity", "asymmetric"],
     },
+    io: { inputs: ["facet:agent"], outputs: ["sun.zeta"] },
     implementationPath: "src/cards/sunContract.ts",
     invariants: [
       "Unbounded source safety: S(t) may be ∞; interfaces are bounded",
@@ -160,6 +166,94 @@ export function getCard(id: CardID): CardRegistryEntry | null {
   return CardRegistry[id] || null;
 }
 
+// ============================================================================
+// Runtime registration
+// ============================================================================
+
+export type CardRegistryChange =
+  | { type: "registered"; entry: CardRegistryEntry }
+  | { type: "updated"; entry: CardRegistryEntry; previous: CardRegistryEntry }
+  | { type: "unregistered"; entry: CardRegistryEntry };
+
+export type CardRegistryListener = (change: CardRegistryChange) => void;
+
+let registryListeners: CardRegistryListener[] = [];
+
+/**
+ * Subscribe to registry changes. Returns an unsubscribe function.
+ */
+export function subscribeRegistry(listener: CardRegistryListener): () => void {
+  registryListeners.push(listener);
+  return () => {
+    registryListeners = registryListeners.filter((l) => l !== listener);
+  };
+}
+
+function notifyRegistry(change: CardRegistryChange) {
+  for (const listener of registryListeners) {
+    try {
+      listener(change);
+    } catch (e) {
+      // Ignore listener errors so one subscriber cannot block a registry change
+    }
+  }
+}
+
+/**
+ * Apply a change only if it introduces no new validateRegistry() errors
+ * (missing fields, key/id mismatch, missing inputs, dependency cycles).
+ */
+function commitRegistryChange(candidate: Record<CardID, CardRegistryEntry>, change: CardRegistryChange) {
+  const key = (i: { entryId: string; issue: string }) => `${i.entryId}: ${i.issue}`;
+  const existing = new Set(validateRegistry(CardRegistry).map(key));
+  const introduced = validateRegistry(candidate).filter((i) => i.severity === "error" && !existing.has(key(i)));
+  if (introduced.length > 0) {
+    throw new Error(`invalid registry change for ${change.entry.id}: ${introduced.map((i) => i.issue).join("; ")}`);
+  }
+
+  for (const id of Object.keys(CardRegistry)) {
+    if (!(id in candidate)) delete CardRegistry[id];
+  }
+  Object.assign(CardRegistry, candidate);
+  notifyRegistry(change);
+}
+
+/**
+ * Add a card to the registry. Throws if the id is taken or the entry is invalid.
+ */
+export function registerCard(entry: CardRegistryEntry): void {
+  if (CardRegistry[entry.id]) {
+    throw new Error(`card already registered: ${entry.id}`);
+  }
+  commitRegistryChange({ ...CardRegistry, [entry.id]: entry }, { type: "registered", entry });
+}
+
+/**
+ * Patch a registered card. The id cannot change; unregister and register instead.
+ */
+export function updateCard(id: CardID, patch: Partial<Omit<CardRegistryEntry, "id">>): CardRegistryEntry {
+  const previous = CardRegistry[id];
+  if (!previous) {
+    throw new Error(`card not registered: ${id}`);
+  }
+  const entry: CardRegistryEntry = { ...previous, ...patch, id };
+  commitRegistryChange({ ...CardRegistry, [id]: entry }, { type: "updated", entry, previous });
+  return entry;
+}
+
+/**
+ * Remove a card from the registry. Returns false if it was not registered.
+ * Throws if other cards still consume its outputs.
+ */
+export function unregisterCard(id: CardID): boolean {
+  const entry = CardRegistry[id];
+  if (!entry) return false;
+  const candidate = { ...CardRegistry };
+  delete candidate[id];
+  commitRegistryChange(candidate, { type: "unregistered", entry });
+  return true;
+}
+
 /**
  * Generate a README section for a single card.
  */
@@ -270,16 +364,17 @@ export function detectFacets(input: string): string[] {
     // JSON parsing failed, not a JSON string
   }
   if (/\d{4}-\d{2}-\d{2}/.test(input)) facets.push("date");
-  if (/^[\d,\s]+$/.test(input)) facets.push("number-series");
+  // Signed integers or decimals separated by commas and/or whitespace
+  if (/^\s*-?\d+(\.\d+)?([,\s]+-?\d+(\.\d+)?)*[,\s]*$/.test(input)) facets.push("number-series");
   return facets;
 }
 
 /**
- * Backwards compatibility: old refreshRegistryFromRepo function.
- * In the new system, the registry is static.
- * This is a no-op; kept for API compatibility.
+ * Load card manifests committed in the ZetaRepo at `ref` (branch, full ref or
+ * commit oid) into the registry. See cardManifests.ts.
  */
-export async function refreshRegistryFromRepo(): Promise<void> {
-  // No-op: registry is now static and loaded from CardRegistry object
-  return Promise.resolve();
+export async function refreshRegistryFromRepo(ref = "refs/heads/main"): Promise<ManifestLoadReport> {
+  // Loaded on demand: the repo is file-backed and only available under Node
+  const { loadRegistryFromRepo } = await import("./cardManifests");
+  return loadRegistryFromRepo(ref);
 }
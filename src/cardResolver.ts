@@ -0,0 +1,337 @@
+/**
+ * ζ-Card: Card Resolver
+ *
+ * Ranks registry entries against a query. Shared by the Omnibox result list
+ * and `Omnicard.select()`, and free of React so it can be tested directly.
+ *
+ * Each field that matches the query adds its weight to the score:
+ *   exact id 1000 · id 100 · title 50 · description 25 · tags 10 ·
+ *   invariants 5 · docstring 2
+ * scaled by match quality, and is reported as a match (with the character
+ * ranges that matched) so callers can explain and highlight why a card ranked.
+ *
+ * Matching is typo-tolerant. Queries are split on whitespace and every term
+ * must match the field, trying in order:
+ *   - substring                      ("beat"        → "Heartbeat")
+ *   - edit distance against a word   ("hartbeat"    → "Heartbeat", "contrct" → "Contract")
+ *   - dense subsequence              ("sncntrct"    → "sun-contract")
+ * Greek letters are spelled out before matching, so "zeta.card.omni" finds
+ * `ζ.card.omni`.
+ *
+ * With `semantic: true`, cards whose docs are about the query (see
+ * cardSemantics.ts) also score, SEMANTIC_WEIGHT × cosine similarity, so
+ * "burnout dose" finds the Sun Contract although no field contains both words.
+ *
+ * `resolveCards` also understands filter tokens (`tag:safety`,
+ * `-severity:info`, see cardQuery.ts): entries are filtered first, and only
+ * the remaining free text is scored. A quoted phrase ("dose budget") is one
+ * term that must occur as a contiguous substring, never fuzzily.
+ */
+
+import { CardID } from "./cardContract";
+import { CardRegistryEntry, listCards } from "./cardRegistry";
+import { matchesQueryFilters, parseCardQuery } from "./cardQuery";
+import { semanticIndex, SemanticMatch } from "./cardSemantics";
+
+export type ResolverField = "id" | "title" | "description" | "tags" | "invariants" | "docstring";
+
+/** Half-open character range [start, end) in the original field text. */
+export type MatchRange = [number, number];
+
+export type ResolverMatch = {
+  field: ResolverField;
+  kind: "exact" | "substring" | "fuzzy";
+  text: string; // the field value (or tag / invariant) that matched
+  score: number;
+  ranges: MatchRange[];
+};
+
+export type ResolvedCard = {
+  entry: CardRegistryEntry;
+  score: number;
+  confidence: number; // 0..1, see CONFIDENT_SCORE
+  matches: ResolverMatch[];
+  semantic?: Omit<SemanticMatch, "entry">; // set when resolved with `semantic: true`
+};
+
+export const FIELD_WEIGHTS: Record<ResolverField, number> = {
+  id: 100,
+  title: 50,
+  description: 25,
+  tags: 10,
+  invariants: 5,
+  docstring: 2,
+};
+
+const EXACT_ID_WEIGHT = 1000;
+
+/** Weight of a perfect semantic match (cosine similarity 1), on par with a description match. */
+export const SEMANTIC_WEIGHT = 25;
+
+/** Score at which a match counts as fully confident (an id match, or title + description). */
+export const CONFIDENT_SCORE = 100;
+
+/** Minimum confidence for `Omnicard.select()` to commit to a card (a title match). */
+export const DEFAULT_SELECT_CONFIDENCE = 0.5;
+
+// Quality caps so a typo never outranks the same field matched exactly
+const FUZZY_QUALITY = 0.8;
+const SUBSEQUENCE_QUALITY = 0.5;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+const GREEK_NAMES: Record<string, string> = {
+  α: "alpha", β: "beta", γ: "gamma", δ: "delta", ε: "epsilon", ζ: "zeta", η: "eta",
+  θ: "theta", ι: "iota", κ: "kappa", λ: "lambda", μ: "mu", ν: "nu", ξ: "xi",
+  ο: "omicron", π: "pi", ρ: "rho", σ: "sigma", ς: "sigma", τ: "tau", υ: "upsilon",
+  φ: "phi", χ: "chi", ψ: "psi", ω: "omega",
+};
+
+type Normalized = {
+  text: string;
+  origin: number[]; // origin[i] = index in the source string of text[i]
+};
+
+/**
+ * Lowercase and spell out Greek letters, remembering where each character
+ * came from so match ranges can be mapped back onto the source text.
+ */
+export function normalizeForSearch(source: string): Normalized {
+  let text = "";
+  const origin: number[] = [];
+  const lower = source.toLowerCase();
+  for (let i = 0; i < lower.length; i++) {
+    const ch = lower[i];
+    const spelled = GREEK_NAMES[ch] ?? ch;
+    text += spelled;
+    for (let k = 0; k < spelled.length; k++) origin.push(i);
+  }
+  return { text, origin };
+}
+
+function toSourceRange(norm: Normalized, start: number, end: number): MatchRange {
+  return [norm.origin[start], norm.origin[end - 1] + 1];
+}
+
+/** Sort and merge overlapping or touching ranges. */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+// ============================================================================
+// Term matching
+// ============================================================================
+
+/** Optimal string alignment distance (Levenshtein plus adjacent transpositions). */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function allowedTypos(term: string): number {
+  if (term.length <= 3) return 0;
+  return term.length <= 6 ? 1 : 2;
+}
+
+type TermMatch = { quality: number; fuzzy: boolean; ranges: MatchRange[] };
+
+function matchTerm(term: string, norm: Normalized): TermMatch | null {
+  const at = norm.text.indexOf(term);
+  if (at >= 0) {
+    return { quality: 1, fuzzy: false, ranges: [toSourceRange(norm, at, at + term.length)] };
+  }
+
+  // Typo against a whole word, or against the start of a word still being typed
+  const typos = allowedTypos(term);
+  let best: TermMatch | null = null;
+  if (typos > 0) {
+    for (const word of norm.text.matchAll(/[a-z0-9]+/g)) {
+      const w = word[0];
+      const start = word.index ?? 0;
+      const distance = Math.min(editDistance(term, w), editDistance(term, w.slice(0, term.length)));
+      if (distance > typos) continue;
+      const quality = FUZZY_QUALITY * (1 - distance / Math.max(term.length, w.length));
+      if (!best || quality > best.quality) {
+        best = { quality, fuzzy: true, ranges: [toSourceRange(norm, start, start + w.length)] };
+      }
+    }
+  }
+  if (best) return best;
+
+  // Characters in order, packed closely enough to be an abbreviation
+  if (term.length >= 3) {
+    const positions: number[] = [];
+    let from = 0;
+    for (const ch of term) {
+      const i = norm.text.indexOf(ch, from);
+      if (i < 0) return null;
+      positions.push(i);
+      from = i + 1;
+    }
+    const span = positions[positions.length - 1] - positions[0] + 1;
+    if (span <= term.length * 2) {
+      return {
+        quality: SUBSEQUENCE_QUALITY * (term.length / span),
+        fuzzy: true,
+        ranges: mergeRanges(positions.map((p) => toSourceRange(norm, p, p + 1))),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Match every query term, and every phrase as a whole, against one text.
+ * Returns null unless all of them match.
+ */
+export function matchText(query: string, text: string, phrases: string[] = []): TermMatch | null {
+  const terms = normalizeForSearch(query).text.split(/\s+/).filter(Boolean);
+  if (terms.length + phrases.length === 0) return null;
+
+  const norm = normalizeForSearch(text);
+  let quality = 0;
+  let fuzzy = false;
+  const ranges: MatchRange[] = [];
+  for (const term of terms) {
+    const m = matchTerm(term, norm);
+    if (!m) return null;
+    quality += m.quality;
+    fuzzy ||= m.fuzzy;
+    ranges.push(...m.ranges);
+  }
+  for (const phrase of phrases) {
+    const p = normalizeForSearch(phrase).text;
+    const at = norm.text.indexOf(p);
+    if (at < 0) return null;
+    quality += 1;
+    ranges.push(toSourceRange(norm, at, at + p.length));
+  }
+  return { quality: quality / (terms.length + phrases.length), fuzzy, ranges: mergeRanges(ranges) };
+}
+
+// ============================================================================
+// Card scoring
+// ============================================================================
+
+function fieldTexts(entry: CardRegistryEntry, field: ResolverField): string[] {
+  switch (field) {
+    case "id":
+      return [entry.id];
+    case "title":
+      return [entry.meta.title];
+    case "description":
+      return entry.meta.description ? [entry.meta.description] : [];
+    case "tags":
+      return entry.meta.tags ?? [];
+    case "invariants":
+      return entry.invariants;
+    case "docstring":
+      return entry.docstring ? [entry.docstring] : [];
+  }
+}
+
+/**
+ * Score one entry. Each field counts once, using its best-matching value.
+ */
+export function scoreCard(entry: CardRegistryEntry, query: string, phrases: string[] = []): ResolvedCard {
+  const matches: ResolverMatch[] = [];
+
+  if (query.trim() || phrases.length > 0) {
+    const q = normalizeForSearch(query.trim()).text;
+    if (q && phrases.length === 0 && normalizeForSearch(entry.id).text === q) {
+      matches.push({ field: "id", kind: "exact", text: entry.id, score: EXACT_ID_WEIGHT, ranges: [[0, entry.id.length]] });
+    }
+    for (const field of Object.keys(FIELD_WEIGHTS) as ResolverField[]) {
+      let best: ResolverMatch | null = null;
+      for (const text of fieldTexts(entry, field)) {
+        const m = matchText(query, text, phrases);
+        if (!m) continue;
+        const score = FIELD_WEIGHTS[field] * m.quality;
+        if (!best || score > best.score) {
+          best = { field, kind: m.fuzzy ? "fuzzy" : "substring", text, score, ranges: m.ranges };
+        }
+      }
+      if (best) matches.push(best);
+    }
+  }
+
+  const score = matches.reduce((sum, m) => sum + m.score, 0);
+  return { entry, score, confidence: Math.min(1, score / CONFIDENT_SCORE), matches };
+}
+
+/**
+ * Blend semantic similarity into a lexical result.
+ */
+export function withSemanticScore(result: ResolvedCard, query: string): ResolvedCard {
+  const m = semanticIndex.match(query, result.entry);
+  if (!m) return result;
+  const score = result.score + SEMANTIC_WEIGHT * m.similarity;
+  return {
+    ...result,
+    score,
+    confidence: Math.min(1, score / CONFIDENT_SCORE),
+    semantic: { similarity: m.similarity, terms: m.terms },
+  };
+}
+
+/**
+ * Ranges to highlight in one field of a resolved card (empty if it did not match).
+ */
+export function matchRanges(result: ResolvedCard, field: ResolverField): MatchRange[] {
+  return mergeRanges(result.matches.filter((m) => m.field === field).flatMap((m) => m.ranges));
+}
+
+/**
+ * Rank entries by score (registry order breaks ties).
+ * Filter tokens in the query narrow the entries first. With no free text,
+ * every (matching) entry is returned with score 0.
+ */
+export function resolveCards(
+  query: string,
+  options: { entries?: CardRegistryEntry[]; limit?: number; semantic?: boolean } = {}
+): ResolvedCard[] {
+  const parsed = parseCardQuery(query);
+  const text = parsed.text.trim();
+  const { phrases } = parsed;
+  const searched = text || phrases.length > 0;
+  const entries = (options.entries ?? listCards()).filter((entry) => matchesQueryFilters(entry, parsed));
+  const scored = entries.map((entry) => {
+    const lexical = scoreCard(entry, text, phrases);
+    return options.semantic && searched ? withSemanticScore(lexical, [text, ...phrases].join(" ").trim()) : lexical;
+  });
+  const results = searched
+    ? scored.filter((r) => r.score > 0).sort((a, b) => b.score - a.score)
+    : scored;
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * The single best card for a query, or null when nothing is confident enough.
+ */
+export function resolveBestCard(
+  query: string,
+  minConfidence = DEFAULT_SELECT_CONFIDENCE,
+  entries?: CardRegistryEntry[]
+): CardID | null {
+  const [best] = resolveCards(query, { entries, limit: 1 });
+  return best && best.confidence >= minConfidence ? best.entry.id : null;
+}
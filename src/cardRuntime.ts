@@ -0,0 +1,184 @@
+/**
+ * ζ-Card: Card Runtime
+ *
+ * Host for live card instances. Owns the card lifecycle and enforces that at
+ * most one card is active at a time.
+ *
+ * Key principle: activation is routed through the runtime, never through the
+ * view. The runtime deactivates the previous card, activates the next one, and
+ * records both transitions in the event log.
+ */
+
+import {
+  ZetaCardContract,
+  CardID,
+  CardActivationContext,
+} from "./cardContract";
+import { eventLog } from "./instrumentation";
+
+export type CardRunMode = "Run" | "SafeRun";
+
+/**
+ * Notified after every change of the active card.
+ */
+export type CardRuntimeListener = (activeId: CardID | null, previousId: CardID | null) => void;
+
+/**
+ * Notified when a registered card reports a change of its own state.
+ */
+export type CardChangeListener = (id: CardID) => void;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyCard = ZetaCardContract<any>;
+
+export class CardRuntime {
+  private cards = new Map<CardID, AnyCard>();
+  private activeId: CardID | null = null;
+  private listeners: CardRuntimeListener[] = [];
+  private changeListeners: CardChangeListener[] = [];
+  private cardSubscriptions = new Map<CardID, () => void>();
+
+  /**
+   * Register a live card instance. Re-registering an id replaces the instance.
+   * Changes the card reports through `subscribe` are relayed to subscribeChanges().
+   */
+  register(card: AnyCard): void {
+    if (!card.id || typeof card.id !== "string") {
+      throw new Error("Cannot register card without a stable id");
+    }
+    const existing = this.cards.get(card.id);
+    if (existing && existing !== card && this.activeId === card.id) {
+      this.deactivate();
+    }
+    this.cards.set(card.id, card);
+    this.cardSubscriptions.get(card.id)?.();
+    this.cardSubscriptions.delete(card.id);
+    const unsubscribe = card.subscribe?.(() => this.relayChange(card.id));
+    if (unsubscribe) this.cardSubscriptions.set(card.id, unsubscribe);
+  }
+
+  /**
+   * Remove a card instance. Deactivates it first if it is the active card.
+   */
+  unregister(id: CardID): boolean {
+    if (!this.cards.has(id)) return false;
+    if (this.activeId === id) {
+      this.deactivate();
+    }
+    this.cards.delete(id);
+    this.cardSubscriptions.get(id)?.();
+    this.cardSubscriptions.delete(id);
+    return true;
+  }
+
+  has(id: CardID): boolean {
+    return this.cards.has(id);
+  }
+
+  get<State = unknown>(id: CardID): ZetaCardContract<State> | null {
+    return (this.cards.get(id) as ZetaCardContract<State> | undefined) || null;
+  }
+
+  list(): AnyCard[] {
+    return Array.from(this.cards.values());
+  }
+
+  getActiveId(): CardID | null {
+    return this.activeId;
+  }
+
+  getActive(): AnyCard | null {
+    return this.activeId ? this.cards.get(this.activeId) || null : null;
+  }
+
+  /**
+   * Make `id` the single active card.
+   * The previously active card (if any) is deactivated and CARD_CLOSED is emitted
+   * before the new card is activated and CARD_OPENED is emitted.
+   * `ctx.input` is delivered through `receive()` first, even if the card is
+   * already active.
+   */
+  activate(id: CardID, ctx: CardActivationContext = {}, mode: CardRunMode = "Run"): AnyCard {
+    const card = this.cards.get(id);
+    if (!card) {
+      throw new Error("card not registered: " + id);
+    }
+    if (ctx.input && card.receive) {
+      card.receive(ctx.input);
+    }
+    if (this.activeId === id) {
+      return card;
+    }
+
+    const previousId = this.activeId;
+    if (previousId) {
+      this.closeActive();
+    }
+
+    card.activate({
+      ...ctx,
+      from: ctx.from ?? previousId ?? undefined,
+      timestamp: ctx.timestamp ?? Date.now(),
+    });
+    this.activeId = id;
+    eventLog.emit({ type: "CARD_OPENED", cardId: id, mode, flowId: eventLog.getCurrentFlowId() });
+
+    this.notify(previousId);
+    return card;
+  }
+
+  /**
+   * Deactivate the active card, leaving no card active.
+   */
+  deactivate(): void {
+    const previousId = this.activeId;
+    if (!previousId) return;
+    this.closeActive();
+    this.notify(previousId);
+  }
+
+  subscribe(listener: CardRuntimeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  subscribeChanges(listener: CardChangeListener): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    };
+  }
+
+  private relayChange(id: CardID): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(id);
+      } catch (e) {
+        // Ignore listener errors so the card's mutator still completes
+      }
+    }
+  }
+
+  private closeActive(): void {
+    const previous = this.getActive();
+    const cardId = this.activeId as CardID;
+    previous?.deactivate?.();
+    this.activeId = null;
+    eventLog.emit({ type: "CARD_CLOSED", cardId });
+  }
+
+  private notify(previousId: CardID | null): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(this.activeId, previousId);
+      } catch (e) {
+        // Ignore listener errors to keep lifecycle transitions atomic
+      }
+    }
+  }
+}
+
+// Singleton instance shared by the app shell and cards
+export const cardRuntime = new CardRuntime();
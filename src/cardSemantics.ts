@@ -0,0 +1,104 @@
+/**
+ * ζ-Card: Semantic Index
+ *
+ * Meaning vectors (see meaning.ts) for registry entries, so the Omnibox can
+ * find a card by what its documentation is about, not only by the words in
+ * one field. Each entry's vector is built from its description, invariants,
+ * docstring and failure-mode messages; a query is vectorized the same way and
+ * compared by cosine similarity:
+ *
+ *   "burnout dose" → ζ.card.sun-contract  ("dose budget" invariant,
+ *                                           "burnout threshold" failure mode)
+ *
+ * The lexical resolver would miss that query, because no single field contains
+ * both terms. `resolveCards(query, { semantic: true })` blends the similarity
+ * into the lexical score (see cardResolver.ts).
+ *
+ * Vectors are cached per entry object, so a registry update (which replaces
+ * the entry) is picked up without invalidation.
+ */
+
+import { CardRegistryEntry, listCards } from "./cardRegistry";
+import { Card as MeaningCard } from "./meaning";
+
+/** Similarity below which a card is not considered related to the query. */
+export const MIN_SEMANTIC_SIMILARITY = 0.03;
+
+export type SemanticMatch = {
+  entry: CardRegistryEntry;
+  similarity: number; // cosine similarity, 0..1
+  terms: string[]; // query terms that occur in the entry's docs
+};
+
+// Words that carry no meaning of their own and would relate every card
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "for", "from", "how", "if", "in",
+  "is", "it", "its", "no", "not", "of", "on", "or", "so", "that", "the", "this", "to",
+  "what", "when", "which", "with",
+]);
+
+/**
+ * Lowercased content words, with plurals folded ("budgets" → "budget").
+ */
+export function semanticTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t))
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+/**
+ * The documentation an entry's meaning is built from.
+ */
+export function semanticText(entry: CardRegistryEntry): string {
+  return [
+    entry.meta.description ?? "",
+    ...entry.invariants,
+    entry.docstring ?? "",
+    ...entry.failureModes.map((f) => f.message),
+  ].join("\n");
+}
+
+export class SemanticIndex {
+  private vectors = new WeakMap<CardRegistryEntry, MeaningCard>();
+
+  /**
+   * Meaning vector for an entry (built on first use).
+   */
+  vector(entry: CardRegistryEntry): MeaningCard {
+    let card = this.vectors.get(entry);
+    if (!card) {
+      card = new MeaningCard(entry.id, semanticTerms(semanticText(entry)).join(" "));
+      this.vectors.set(entry, card);
+    }
+    return card;
+  }
+
+  /**
+   * Match one entry against a query. Returns null below `minSimilarity`.
+   */
+  match(query: string, entry: CardRegistryEntry, minSimilarity = MIN_SEMANTIC_SIMILARITY): SemanticMatch | null {
+    const terms = semanticTerms(query);
+    if (terms.length === 0) return null;
+    const doc = this.vector(entry);
+    const similarity = new MeaningCard("query", terms.join(" ")).similarity(doc);
+    if (similarity < minSimilarity) return null;
+    return { entry, similarity, terms: [...new Set(terms.filter((t) => doc.meaning.has(t)))] };
+  }
+
+  /**
+   * Entries related to a query, most similar first.
+   */
+  search(query: string, entries: CardRegistryEntry[] = listCards(), minSimilarity = MIN_SEMANTIC_SIMILARITY): SemanticMatch[] {
+    const matches: SemanticMatch[] = [];
+    for (const entry of entries) {
+      const m = this.match(query, entry, minSimilarity);
+      if (m) matches.push(m);
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+}
+
+// Singleton shared by the resolver
+export const semanticIndex = new SemanticIndex();
@@ -0,0 +1,125 @@
+/**
+ * ζ-Card: Versioned Card State
+ *
+ * `getState()` snapshots carry no version, so a snapshot from an older build
+ * may be missing fields the current card depends on. A card that declares a
+ * `CardStateSchema` can accept such snapshots: they are upgraded through a
+ * chain of migrations (v1 → v2 → … → current) and validated before they are
+ * applied. A snapshot that cannot be upgraded yields a structured
+ * `state_migration_failed` failure and leaves the card's state untouched.
+ *
+ * Snapshot forms accepted by migrateState():
+ *   - versioned envelope: { version: 2, state: {...} }
+ *     (what snapshotCardState() and the persistence layer store)
+ *   - raw state (no envelope): every snapshot saved before versioning. Its
+ *     version is worked out by the schema's `detectVersion` (default 1), so a
+ *     card whose current state is recognisable by shape keeps getState →
+ *     setState round trips from re-running migrations.
+ */
+
+import { CardFailure, CardFailureRegistry, ZetaCardContract } from "./cardContract";
+
+/** A state snapshot tagged with the schema version that produced it. */
+export type VersionedState<State = unknown> = {
+  version: number;
+  state: State;
+};
+
+/** Upgrades a state from version N to N + 1. */
+export type StateMigration = (prev: unknown) => unknown;
+
+export interface CardStateSchema<State = unknown> {
+  /** Current schema version (the version getState() produces). */
+  version: number;
+
+  /** Migrations keyed by the version they upgrade *from*. */
+  migrations: Record<number, StateMigration>;
+
+  /** Version of a raw snapshot (no envelope), from its shape; default 1. */
+  detectVersion?(state: unknown): number;
+
+  /** Structural checks on a fully migrated state; returns human-readable issues. */
+  validate(state: unknown): string[];
+
+  /** Brand for type inference only. */
+  readonly __state?: State;
+}
+
+export type StateMigrationResult<State> =
+  | { ok: true; state: State; fromVersion: number }
+  | { ok: false; failure: CardFailure; fromVersion: number | null };
+
+export function isVersionedState(snapshot: unknown): snapshot is VersionedState {
+  return (
+    typeof snapshot === "object" &&
+    snapshot !== null &&
+    typeof (snapshot as VersionedState).version === "number" &&
+    "state" in snapshot
+  );
+}
+
+function migrationFailure(detail: string): CardFailure {
+  return {
+    code: CardFailureRegistry.STATE_MIGRATION_FAILED.code,
+    message: `${CardFailureRegistry.STATE_MIGRATION_FAILED.message}: ${detail}`,
+    severity: "error",
+  };
+}
+
+/**
+ * Upgrade a snapshot to the schema's current version and validate it.
+ * Never throws; migration errors are reported as a CardFailure.
+ */
+export function migrateState<State>(
+  schema: CardStateSchema<State>,
+  snapshot: unknown
+): StateMigrationResult<State> {
+  if (typeof snapshot !== "object" || snapshot === null) {
+    return { ok: false, failure: migrationFailure("snapshot is not an object"), fromVersion: null };
+  }
+
+  const fromVersion = isVersionedState(snapshot) ? snapshot.version : schema.detectVersion?.(snapshot) ?? 1;
+  let data: unknown = isVersionedState(snapshot) ? snapshot.state : snapshot;
+
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { ok: false, failure: migrationFailure(`invalid version ${fromVersion}`), fromVersion };
+  }
+  if (fromVersion > schema.version) {
+    return {
+      ok: false,
+      failure: migrationFailure(`snapshot version ${fromVersion} is newer than supported version ${schema.version}`),
+      fromVersion,
+    };
+  }
+
+  for (let v = fromVersion; v < schema.version; v++) {
+    const migration = schema.migrations[v];
+    if (!migration) {
+      return { ok: false, failure: migrationFailure(`no migration from version ${v}`), fromVersion };
+    }
+    try {
+      data = migration(data);
+    } catch (e) {
+      return {
+        ok: false,
+        failure: migrationFailure(`migration from version ${v} threw: ${e instanceof Error ? e.message : String(e)}`),
+        fromVersion,
+      };
+    }
+  }
+
+  const issues = schema.validate(data);
+  if (issues.length > 0) {
+    return { ok: false, failure: migrationFailure(issues.join("; ")), fromVersion };
+  }
+
+  return { ok: true, state: data as State, fromVersion };
+}
+
+/**
+ * Snapshot a card's state in a versioned envelope.
+ * Cards without a schema are tagged as version 1.
+ */
+export function snapshotCardState<State>(card: ZetaCardContract<State>): VersionedState<State> {
+  return { version: card.stateSchema?.version ?? 1, state: card.getState() };
+}
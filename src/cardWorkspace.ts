@@ -0,0 +1,327 @@
+/**
+ * ζ-Card: Workspace
+ *
+ * Several cards open at once, as tabs or side-by-side panes. The runtime
+ * still has exactly one active card: focusing a pane activates its card
+ * through the contract, and a card activated elsewhere (Omnibox, router)
+ * opens or focuses its pane (see trackRuntime).
+ *
+ * A pane shows either the live card registered with the runtime, or a
+ * detached copy: a fresh instance (see headless.ts) seeded with a clone of
+ * the source card's state, so two configurations of the same card can be
+ * compared side by side without touching the live one. A focused copy is
+ * activated directly, and the runtime is left with no active card. Each
+ * pane's view drives the instance it shows (a Sun Contract steps while its
+ * pane is running), so a copy advances independently of the live card.
+ *
+ * Layout, panes and the state of detached copies persist through a
+ * CardStateStore, so the workspace survives a reload.
+ */
+
+import { CardID, ZetaCardContract } from "./cardContract";
+import { CardStateStore, MemoryStateStore, cloneState, decodeValue, encodeValue } from "./cardPersistence";
+import { getCard } from "./cardRegistry";
+import { CardRuntime, cardRuntime } from "./cardRuntime";
+import { VersionedState, migrateState, snapshotCardState } from "./cardState";
+import { HeadlessCardFactory, headlessCardFactories } from "./headless";
+
+const WORKSPACE_FORMAT = 1;
+
+export type WorkspaceLayout = "tabs" | "split";
+
+export type WorkspacePane = {
+  key: string; // unique per pane; the same card may be open live and as copies
+  cardId: CardID;
+  detached: boolean;
+};
+
+export type WorkspaceState = {
+  panes: WorkspacePane[];
+  focusedKey: string | null;
+  layout: WorkspaceLayout;
+};
+
+type PersistedPane = WorkspacePane & { state?: VersionedState<unknown> };
+
+export type CardWorkspaceOptions = {
+  copyFactories?: Record<CardID, HeadlessCardFactory>; // cards that can be opened as detached copies
+};
+
+export class CardWorkspace {
+  private panes: WorkspacePane[] = [];
+  private focusedKey: string | null = null;
+  private layout: WorkspaceLayout = "tabs";
+  private copies = new Map<string, ZetaCardContract>();
+  private listeners: (() => void)[] = [];
+  private nextKey = 1;
+  private store: CardStateStore;
+  private readonly runtime: CardRuntime;
+  private readonly copyFactories: Record<CardID, HeadlessCardFactory>;
+
+  constructor(runtime: CardRuntime = cardRuntime, store: CardStateStore = new MemoryStateStore(), options: CardWorkspaceOptions = {}) {
+    this.runtime = runtime;
+    this.store = store;
+    this.copyFactories = options.copyFactories ?? headlessCardFactories;
+  }
+
+  getState(): WorkspaceState {
+    return { panes: this.panes.map((p) => ({ ...p })), focusedKey: this.focusedKey, layout: this.layout };
+  }
+
+  focused(): WorkspacePane | null {
+    return this.panes.find((p) => p.key === this.focusedKey) ?? null;
+  }
+
+  /**
+   * The instance a pane shows: its detached copy, or the live runtime card
+   * (null for manifest-only cards).
+   */
+  card(key: string): ZetaCardContract | null {
+    const pane = this.pane(key);
+    return pane.detached ? this.copies.get(key) ?? null : this.runtime.get(pane.cardId);
+  }
+
+  /**
+   * Open the live card in a pane (or focus the pane it is already in) and focus it.
+   * Returns the pane key.
+   */
+  open(cardId: CardID): string {
+    const existing = this.panes.find((p) => p.cardId === cardId && !p.detached);
+    if (existing) {
+      this.focus(existing.key);
+      return existing.key;
+    }
+    const key = this.addPane(cardId, false);
+    this.focus(key);
+    return key;
+  }
+
+  canCopy(cardId: CardID): boolean {
+    return cardId in this.copyFactories;
+  }
+
+  /**
+   * Open a detached copy of a pane's card, seeded with that pane's current
+   * state, next to it. Returns the new pane key.
+   */
+  duplicate(key: string): string {
+    const source = this.pane(key);
+    if (!this.canCopy(source.cardId)) {
+      throw new Error("card has no copy implementation: " + source.cardId);
+    }
+    const copy = this.copyFactories[source.cardId]();
+    const from = this.card(key);
+    if (from) copy.setState(cloneState(from.getState()));
+
+    const copyKey = this.addPane(source.cardId, true, this.panes.indexOf(source) + 1);
+    this.copies.set(copyKey, copy);
+    this.focus(copyKey);
+    return copyKey;
+  }
+
+  /**
+   * Close a pane. Closing the focused pane focuses its neighbour; closing the
+   * last one leaves no card active.
+   */
+  close(key: string): void {
+    const pane = this.pane(key);
+    const index = this.panes.indexOf(pane);
+    const wasFocused = this.focusedKey === key;
+    this.panes.splice(index, 1);
+
+    const copy = this.copies.get(key);
+    if (copy) {
+      copy.deactivate?.();
+      (copy as { dispose?: () => void }).dispose?.();
+      this.copies.delete(key);
+    }
+
+    if (wasFocused) {
+      this.focusedKey = null;
+      const next = this.panes[Math.min(index, this.panes.length - 1)];
+      if (next) {
+        this.focus(next.key);
+        return;
+      }
+      this.runtime.deactivate();
+    }
+    this.changed();
+  }
+
+  /**
+   * Close every pane.
+   */
+  closeAll(): void {
+    for (const pane of [...this.panes].reverse()) this.close(pane.key);
+  }
+
+  /**
+   * Focus a pane and activate its card through the contract.
+   */
+  focus(key: string): void {
+    const pane = this.pane(key);
+    const previous = this.focused();
+    if (previous?.detached && previous.key !== key) {
+      this.copies.get(previous.key)?.deactivate?.();
+    }
+    this.focusedKey = key;
+
+    if (pane.detached) {
+      this.runtime.deactivate();
+      if (previous?.key !== key) this.copies.get(key)?.activate({ reason: "workspace_focus", timestamp: Date.now() });
+    } else if (this.runtime.has(pane.cardId)) {
+      this.runtime.activate(pane.cardId, { reason: "workspace_focus" });
+    } else {
+      // Manifest-only card: nothing to activate
+      this.runtime.deactivate();
+    }
+    this.changed();
+  }
+
+  /**
+   * Focus the next (delta 1) or previous (delta -1) pane, wrapping around.
+   */
+  cycle(delta = 1): void {
+    if (this.panes.length === 0) return;
+    const index = this.panes.findIndex((p) => p.key === this.focusedKey);
+    const next = (((index < 0 ? 0 : index + delta) % this.panes.length) + this.panes.length) % this.panes.length;
+    this.focus(this.panes[next].key);
+  }
+
+  setLayout(layout: WorkspaceLayout): void {
+    if (this.layout === layout) return;
+    this.layout = layout;
+    this.changed();
+  }
+
+  toggleLayout(): void {
+    this.setLayout(this.layout === "tabs" ? "split" : "tabs");
+  }
+
+  /**
+   * Open (or focus) the pane of every card the runtime activates.
+   * Returns an unsubscribe function.
+   */
+  trackRuntime(runtime: CardRuntime = this.runtime): () => void {
+    return runtime.subscribe((activeId) => {
+      if (!activeId) return;
+      const focused = this.focused();
+      if (focused && !focused.detached && focused.cardId === activeId) return;
+      this.open(activeId);
+    });
+  }
+
+  /**
+   * Restore a saved workspace (optionally switching to another store first).
+   * Panes opened before the load completes are kept; saved panes whose card
+   * is no longer known are skipped. The saved focus is restored only if no
+   * pane has been focused in the meantime.
+   */
+  async load(store?: CardStateStore): Promise<void> {
+    if (store) this.store = store;
+    let saved: { format: number; layout: WorkspaceLayout; focusedKey: string | null; panes: PersistedPane[] };
+    try {
+      const text = await this.store.read();
+      if (!text) return;
+      saved = decodeValue(text) as typeof saved;
+      if (saved?.format !== WORKSPACE_FORMAT || !Array.isArray(saved.panes)) return;
+    } catch (e) {
+      return;
+    }
+
+    let focusKey: string | null = null;
+    for (const p of saved.panes) {
+      if (typeof p?.cardId !== "string" || (!getCard(p.cardId) && !this.runtime.has(p.cardId))) continue;
+      let key: string;
+      if (p.detached) {
+        if (!this.canCopy(p.cardId)) continue;
+        const copy = this.copyFactories[p.cardId]();
+        if (p.state && !restoreState(copy, p.state)) continue;
+        key = this.addPane(p.cardId, true);
+        this.copies.set(key, copy);
+      } else {
+        key = this.panes.find((q) => q.cardId === p.cardId && !q.detached)?.key ?? this.addPane(p.cardId, false);
+      }
+      if (p.key === saved.focusedKey) focusKey = key;
+    }
+    if (saved.layout === "tabs" || saved.layout === "split") this.layout = saved.layout;
+
+    if (!this.focusedKey && focusKey) {
+      this.focus(focusKey);
+    } else {
+      this.changed();
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private changed() {
+    this.save().catch(() => {
+      // The layout is a convenience; a failed write must not break navigation
+    });
+    this.notify();
+  }
+
+  private pane(key: string): WorkspacePane {
+    const pane = this.panes.find((p) => p.key === key);
+    if (!pane) {
+      throw new Error("pane not open: " + key);
+    }
+    return pane;
+  }
+
+  private addPane(cardId: CardID, detached: boolean, index = this.panes.length): string {
+    const key = `pane-${this.nextKey++}`;
+    this.panes.splice(index, 0, { key, cardId, detached });
+    return key;
+  }
+
+  /**
+   * Write panes, layout and the current state of detached copies to the store.
+   * Layout changes save automatically; call this to capture copies that
+   * changed since (e.g. before unload).
+   */
+  async save(): Promise<void> {
+    const panes: PersistedPane[] = this.panes.map((p) => {
+      const copy = p.detached ? this.copies.get(p.key) : undefined;
+      return copy ? { ...p, state: snapshotCardState(copy) } : { ...p };
+    });
+    await this.store.write(encodeValue({ format: WORKSPACE_FORMAT, layout: this.layout, focusedKey: this.focusedKey, panes }));
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (e) {
+        // Ignore listener errors so every subscriber is notified
+      }
+    }
+  }
+}
+
+/**
+ * Apply a saved envelope the way CardPersistence.restore does. False if it cannot be applied.
+ */
+function restoreState(card: ZetaCardContract, envelope: VersionedState<unknown>): boolean {
+  if (card.stateSchema) {
+    const result = migrateState(card.stateSchema, envelope);
+    if (!result.ok) return false;
+    card.setState(result.state);
+    return true;
+  }
+  try {
+    card.setState(envelope.state);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Singleton used by the app shell; it points the store at localStorage on startup
+export const cardWorkspace = new CardWorkspace();
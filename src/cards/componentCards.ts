@@ -0,0 +1,87 @@
+/**
+ * ζ-Card: Component Cards
+ *
+ * Registry entries for views and case studies that live outside the static
+ * CardRegistry. They are registered at runtime (see registerCard) so the
+ * Omnibox and README card pick them up like any other card.
+ */
+
+import { CardRegistryEntry, getCard, registerCard, unregisterCard } from "../cardRegistry";
+
+export const ComponentCardEntries: CardRegistryEntry[] = [
+  {
+    id: "ζ.card.pi-timer",
+    meta: {
+      title: "π-Timer",
+      description: "Deterministic π-clock signatures tied to a file tag and channel",
+      tags: ["clock", "deterministic", "signature"],
+    },
+    implementationPath: "src/components/PiTimerCard.tsx",
+    invariants: [
+      "Deterministic stream: the same dial, file tag and channel yield the same signature",
+      "π as master tape: digits are read from a fixed offset, never generated",
+    ],
+    failureModes: [],
+    docstring: "Set the dial, lock the file, and the π-clock produces a reproducible signature.",
+  },
+  {
+    id: "ζ.card.gi-flow",
+    meta: {
+      title: "GI Flow Topology",
+      description: "Gut microbiome organisms mapped onto a gradient-driven flow topology",
+      tags: ["biology", "topology", "3d"],
+    },
+    implementationPath: "src/components/GIFlowViewer.tsx",
+    invariants: [
+      "Data-backed: organisms and schema are loaded from the gi-flow-topology card repo",
+      "Lazy 3D: the WebGL tract loads on demand and never blocks the index view",
+    ],
+    failureModes: [],
+  },
+  {
+    id: "ζ.card.sun-contract.visualizer",
+    meta: {
+      title: "Sun Contract Visualizer",
+      description: "Live simulation of agents coupled to an unbounded source with bounded intake",
+      tags: ["contract", "safety", "visualization"],
+    },
+    implementationPath: "src/components/SunContractVisualizer.tsx",
+    invariants: [
+      "Projection only: the visualizer renders a SunContract and owns no safety logic",
+    ],
+    failureModes: [],
+  },
+  {
+    id: "ζ.card.approval-queue",
+    meta: {
+      title: "Approval Queue",
+      description: "Institutional approval process modeled as a potential field",
+      tags: ["institutional", "gradient-aware", "sun-contract"],
+    },
+    implementationPath: "src/approvalQueueCase.ts",
+    invariants: [
+      "Field work over motion work: throughput improves by reshaping the potential, not by coercion",
+      "Coercion decays: any applied force is tracked and must fade",
+    ],
+    failureModes: [
+      { code: "sustained_coercion", message: "Card applying force for too long", severity: "warn" },
+      { code: "hidden_basin", message: "No gradient; queue trapped", severity: "error" },
+    ],
+  },
+];
+
+/**
+ * Register the component cards that are not registered yet.
+ * Returns a function that unregisters the ones this call added.
+ */
+export function registerComponentCards(): () => void {
+  const added = ComponentCardEntries.filter((entry) => !getCard(entry.id));
+  for (const entry of added) {
+    registerCard(entry);
+  }
+  return () => {
+    for (const entry of added) {
+      unregisterCard(entry.id);
+    }
+  };
+}
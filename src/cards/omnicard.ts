@@ -7,14 +7,20 @@
 
 import {
   ZetaCardContract,
+  CardID,
   CardMeta,
   CardFailure,
   CardActivationContext,
 } from "../cardContract";
+import { buildCardGraph, CardGraphEdge } from "../cardGraph";
+import { DEFAULT_SELECT_CONFIDENCE, resolveBestCard } from "../cardResolver";
+import { CardRecents, cardRecents } from "../cardRecents";
+
+const MAX_RECENT_CARDS = 10;
 
 export type OmnicardState = {
   query: string;
-  recentCards: string[]; // recent card IDs
+  recentCards: string[]; // pinned, then most frecent card IDs (see cardRecents.ts)
   selectedIndex: number;
   isOpen: boolean;
 };
@@ -32,14 +38,22 @@ export class Omnicard implements ZetaCardContract<OmnicardState> {
   private state: OmnicardState;
   private _isActive: boolean = false;
   private onActivate?: (ctx?: CardActivationContext) => void;
+  private unsubscribeRecents: () => void;
 
-  constructor() {
+  constructor(private recents: CardRecents = cardRecents) {
     this.state = {
       query: "",
-      recentCards: [],
+      recentCards: this.rankedRecents(),
       selectedIndex: 0,
       isOpen: true,
     };
+    this.unsubscribeRecents = this.recents.subscribe(() => {
+      this.state.recentCards = this.rankedRecents();
+    });
+  }
+
+  private rankedRecents(): string[] {
+    return this.recents.list().slice(0, MAX_RECENT_CARDS).map((e) => e.cardId);
   }
 
   /**
@@ -51,9 +65,17 @@ export class Omnicard implements ZetaCardContract<OmnicardState> {
 
   /**
    * Restore state from snapshot.
+   * recentCards is a projection of the recents list and is not restored.
    */
   setState(next: OmnicardState): void {
-    this.state = { ...next };
+    this.state = { ...next, recentCards: this.rankedRecents() };
+  }
+
+  /**
+   * Stop following the recents list.
+   */
+  dispose(): void {
+    this.unsubscribeRecents();
   }
 
   /**
@@ -84,30 +106,35 @@ export class Omnicard implements ZetaCardContract<OmnicardState> {
 
   /**
    * Omnibox semantic operator: resolve a query to a card ID or return null.
-   * In a full system, this would query the registry.
+   * Ranks the registry with the shared resolver (see cardResolver.ts) and
+   * commits only when the best match reaches `minConfidence`.
    */
-  select(query: string): string | null {
-    // For now, simple heuristic: assume query is a card ID fragment
-    // A real implementation would search the registry
-    if (query.startsWith("ζ.card")) {
-      return query;
-    }
-    return null;
+  select(query: string, minConfidence = DEFAULT_SELECT_CONFIDENCE): CardID | null {
+    return resolveBestCard(query, minConfidence);
   }
 
   /**
-   * Add to recents.
+   * Add to recents (a visit in the shared frecency list).
    */
   addRecent(cardId: string): void {
-    const recents = this.state.recentCards;
-    const idx = recents.indexOf(cardId);
-    if (idx >= 0) {
-      recents.splice(idx, 1);
-    }
-    recents.unshift(cardId);
-    if (recents.length > 10) {
-      recents.pop();
-    }
+    this.recents.recordVisit(cardId);
+  }
+
+  /**
+   * Dependency view for a card: what feeds it and what depends on it.
+   * Resolved from the registry's declared inputs/outputs on each call.
+   */
+  getDependencies(cardId: string): {
+    feeds: CardGraphEdge[];
+    dependents: CardGraphEdge[];
+    failures: CardFailure[];
+  } {
+    const graph = buildCardGraph();
+    return {
+      feeds: graph.feeds(cardId),
+      dependents: graph.dependents(cardId),
+      failures: graph.getFailures(cardId),
+    };
   }
 
   /**
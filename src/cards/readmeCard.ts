@@ -17,6 +17,7 @@ import {
   CardRegistry,
   CardRegistryEntry,
   listCards,
+  subscribeRegistry,
   generateCardsSection,
   validateReadmeAgainstRegistry,
   ReadmeDriftIssue,
@@ -40,6 +41,7 @@ export class ReadmeCard implements ZetaCardContract<ReadmeCardState> {
 
   private state: ReadmeCardState;
   private _isActive: boolean = false;
+  private unsubscribeRegistry: () => void;
 
   constructor() {
     this.state = {
@@ -47,6 +49,18 @@ export class ReadmeCard implements ZetaCardContract<ReadmeCardState> {
       lastValidation: undefined,
       readmeContent: undefined,
     };
+
+    // Registry changes can introduce or resolve drift: re-validate loaded content
+    this.unsubscribeRegistry = subscribeRegistry(() => {
+      if (this.state.readmeContent) this.validate();
+    });
+  }
+
+  /**
+   * Stop following registry changes.
+   */
+  dispose(): void {
+    this.unsubscribeRegistry();
   }
 
   /**
@@ -73,6 +87,13 @@ export class ReadmeCard implements ZetaCardContract<ReadmeCardState> {
     console.log(`[${this.id}] activated and validating`, ctx);
   }
 
+  /**
+   * Deactivate: called by the runtime when another card becomes active.
+   */
+  deactivate(): void {
+    this._isActive = false;
+  }
+
   /**
    * Check if active.
    */
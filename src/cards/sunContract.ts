@@ -33,9 +33,13 @@
 import {
   ZetaCardContract,
   CardMeta,
+  CardIO,
+  CardPortValues,
   CardFailure,
   CardActivationContext,
+  CardFailureRegistry,
 } from "../cardContract";
+import { CardStateSchema, VersionedState, migrateState } from "../cardState";
 
 /**
  * Agent coupled to the sun contract.
@@ -63,6 +67,28 @@ export interface SunContractAgent {
   decayRate?: number; // λ: exposure decay rate toward baseline (default 0.98 ~33-step half-life)
 }
 
+const AGENT_NUMERIC_FIELDS = [
+  "capCurrent",
+  "processingCapacity",
+  "ramping",
+  "doseBudget",
+  "exposure",
+  "exposureRampRate",
+] as const;
+
+/**
+ * Whether a value (e.g. parsed JSON) has the required SunContractAgent fields.
+ */
+export function isSunContractAgent(value: unknown): value is SunContractAgent {
+  if (typeof value !== "object" || value === null) return false;
+  const agent = value as Record<string, unknown>;
+  return (
+    typeof agent.id === "string" &&
+    agent.id.length > 0 &&
+    AGENT_NUMERIC_FIELDS.every((f) => typeof agent[f] === "number" && Number.isFinite(agent[f]))
+  );
+}
+
 
 /**
  * Field state for the sun contract.
@@ -116,6 +142,81 @@ export interface OfferField {
 }
 
 
+/**
+ * State schema history:
+ *   v1: per-agent intake/dose/externality only
+ *   v2: adds the offer field (currentOffer) and exposure tracking (agentExposure)
+ */
+export const SunContractStateSchema: CardStateSchema<SunContractState> = {
+  version: 2,
+  migrations: {
+    1: (prev) => {
+      const v1 = prev as Partial<SunContractState>;
+      return {
+        ...v1,
+        currentOffer: v1.currentOffer ?? { z: [], m: [], strength: 1.0 },
+        agentExposure:
+          v1.agentExposure ??
+          Object.fromEntries(
+            Object.entries(v1.agents ?? {}).map(([id, agent]) => [id, agent.exposure ?? 0])
+          ),
+      };
+    },
+  },
+  // Raw snapshots from before versioning lack the v2 fields
+  detectVersion(state) {
+    const s = state as Partial<SunContractState>;
+    return s.currentOffer !== undefined && s.agentExposure !== undefined ? 2 : 1;
+  },
+  validate(state) {
+    const issues: string[] = [];
+    const s = state as Partial<SunContractState>;
+    if (typeof s.sourceStrength !== "number") issues.push("sourceStrength must be a number");
+    if (typeof s.fieldEnergy !== "number") issues.push("fieldEnergy must be a number");
+    for (const key of ["agents", "agentIntake", "agentDose", "agentExternality", "agentExposure"] as const) {
+      if (typeof s[key] !== "object" || s[key] === null) issues.push(`${key} must be an object`);
+    }
+    if (!s.currentOffer || !Array.isArray(s.currentOffer.z) || !Array.isArray(s.currentOffer.m)) {
+      issues.push("currentOffer must have z and m arrays");
+    }
+    if (!Array.isArray(s.violations)) issues.push("violations must be an array");
+    for (const [id, agent] of Object.entries(s.agents ?? {})) {
+      if (typeof agent?.doseBudget !== "number" || typeof agent?.capCurrent !== "number") {
+        issues.push(`agent ${id} is missing capCurrent or doseBudget`);
+      }
+    }
+    return issues;
+  },
+};
+
+/** Two agents, one within its budget and one that breaches it: what the app opens with. */
+export const SUN_CONTRACT_DEMO_AGENTS: SunContractAgent[] = [
+  {
+    id: "Agent A (Safe)",
+    capCurrent: 0.4,
+    processingCapacity: 0.3,
+    ramping: 0.1,
+    doseBudget: 20,
+    exposure: 0.5,
+    exposureRampRate: 0.05,
+  },
+  {
+    id: "Agent B (Risky)",
+    capCurrent: 1.0,
+    processingCapacity: 0.1,
+    ramping: 0.5,
+    doseBudget: 5,
+    exposure: 0.8,
+    exposureRampRate: 0.3,
+  },
+];
+
+export function demoSunContract(sourceStrength = 5): SunContract {
+  const contract = new SunContract(sourceStrength);
+  for (const agent of SUN_CONTRACT_DEMO_AGENTS) contract.couple({ ...agent });
+  return contract;
+}
+
 export class SunContract implements ZetaCardContract<SunContractState> {
   readonly id = "ζ.card.sun-contract";
   readonly meta: CardMeta = {
@@ -125,10 +226,17 @@ export class SunContract implements ZetaCardContract<SunContractState> {
     tags: ["contract", "safety", "capacity", "asymmetric"],
   };
 
+  readonly io: CardIO = { inputs: ["facet:agent"], outputs: ["sun.zeta"] };
+
   readonly zeta: number[] = [1, 0, 0]; // contract health: starts at identity
 
+  readonly stateSchema = SunContractStateSchema;
+
   private state: SunContractState;
   private _isActive: boolean = false;
+  private stateFailure: CardFailure | null = null; // last rejected snapshot
+  private inputFailure: CardFailure | null = null; // last rejected input
+  private listeners: Array<() => void> = [];
 
   constructor(sourceStrength: number = 1.0) {
     this.state = {
@@ -158,6 +266,7 @@ export class SunContract implements ZetaCardContract<SunContractState> {
     this.state.agentIntake[agent.id] = 0;
     this.state.agentDose[agent.id] = 0;
     this.state.agentExternality[agent.id] = 0;
+    this.changed();
   }
 
   /**
@@ -193,6 +302,7 @@ export class SunContract implements ZetaCardContract<SunContractState> {
     }
 
     this.state.currentOffer = { z, m: mask, strength };
+    this.changed();
   }
 
   /**
@@ -386,6 +496,7 @@ export class SunContract implements ZetaCardContract<SunContractState> {
         severity: "warn",
       });
     }
+    this.changed();
   }
 
   /**
@@ -464,6 +575,7 @@ export class SunContract implements ZetaCardContract<SunContractState> {
       totalAbsorbed / (this.state.sourceStrength + 1),
       0.5,
     ];
+    this.changed();
   }
 
   /**
@@ -473,8 +585,41 @@ export class SunContract implements ZetaCardContract<SunContractState> {
     return JSON.parse(JSON.stringify(this.state));
   }
 
-  setState(next: SunContractState): void {
-    this.state = JSON.parse(JSON.stringify(next));
+  /**
+   * Accepts current snapshots (as getState() returns them), raw snapshots
+   * from before versioning and versioned envelopes; older ones are migrated. A snapshot that cannot
+   * be migrated is rejected (state unchanged) and reported through getFailures().
+   */
+  setState(next: SunContractState | VersionedState<unknown>): void {
+    const result = migrateState(this.stateSchema, next);
+    if (!result.ok) {
+      this.stateFailure = result.failure;
+      return;
+    }
+    this.stateFailure = null;
+    this.state = JSON.parse(JSON.stringify(result.state));
+    this.changed();
+  }
+
+  /**
+   * Card contract: change notification, after step, couple, setState and the
+   * offer/exposure setters.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private changed(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (e) {
+        // Ignore listener errors so the mutation itself always completes
+      }
+    }
   }
 
   /**
@@ -487,6 +632,40 @@ export class SunContract implements ZetaCardContract<SunContractState> {
     }
   }
 
+  deactivate(): void {
+    this._isActive = false;
+  }
+
+  /**
+   * Card contract: dataflow inputs.
+   * "facet:agent" couples one agent or an array of agents (e.g. pasted JSON).
+   * Payloads that are not agents are rejected whole and reported through getFailures().
+   */
+  receive(inputs: CardPortValues): void {
+    if (!("facet:agent" in inputs)) return;
+    const payload = inputs["facet:agent"];
+    const agents = Array.isArray(payload) ? payload : [payload];
+    if (agents.length === 0 || !agents.every(isSunContractAgent)) {
+      this.inputFailure = {
+        ...CardFailureRegistry.INVALID_INPUT,
+        message: `${CardFailureRegistry.INVALID_INPUT.message}: facet:agent expects SunContractAgent JSON`,
+        severity: "warn",
+      };
+      return;
+    }
+    this.inputFailure = null;
+    for (const agent of agents) {
+      this.couple(agent);
+    }
+  }
+
+  /**
+   * Card contract: dataflow outputs (contract health vector)
+   */
+  publish(): CardPortValues {
+    return { "sun.zeta": [...this.zeta] };
+  }
+
   isActive(): boolean {
     return this._isActive;
   }
@@ -497,6 +676,14 @@ export class SunContract implements ZetaCardContract<SunContractState> {
   getFailures?(): CardFailure[] {
     const failures: CardFailure[] = [];
 
+    // Report rejected state snapshots and inputs
+    if (this.stateFailure) {
+      failures.push(this.stateFailure);
+    }
+    if (this.inputFailure) {
+      failures.push(this.inputFailure);
+    }
+
     // Report recent errors
     const recentErrors = this.state.violations.filter(
       (v) => v.time > performance.now() - 2000 && v.severity === "error"
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { CardFailure, ZetaCardContract } from '../cardContract';
+import type { CardManifest } from '../cardRegistry';
+import { cardViews } from './cardViews';
+
+interface CardSurfaceProps {
+  card: ZetaCardContract | null; // live instance or copy, null for manifest-only entries
+  manifest: CardManifest;
+}
+
+const FAILURE_POLL_MS = 500;
+
+const SEVERITY_COLORS: Record<NonNullable<CardFailure['severity']>, { fg: string; bg: string }> = {
+  error: { fg: '#ff8080', bg: 'rgba(255,80,80,0.12)' },
+  warn: { fg: '#ffb366', bg: 'rgba(255,170,80,0.12)' },
+  info: { fg: '#80b3ff', bg: 'rgba(80,150,255,0.12)' },
+};
+
+/**
+ * Live failures of a card, re-read while it is open (not every card notifies).
+ */
+function useCardFailures(card: ZetaCardContract | null): CardFailure[] {
+  const [failures, setFailures] = useState<CardFailure[]>(() => card?.getFailures?.() ?? []);
+  useEffect(() => {
+    const read = () => setFailures(card?.getFailures?.() ?? []);
+    read();
+    const interval = setInterval(read, FAILURE_POLL_MS);
+    return () => clearInterval(interval);
+  }, [card]);
+  return failures;
+}
+
+function ManifestText({ manifest }: { manifest: CardManifest }) {
+  return (
+    <div style={{ color: '#ddd', whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '12px' }}>
+      {manifest.semanticDescriptor}
+    </div>
+  );
+}
+
+/**
+ * A View that throws falls back to the manifest text instead of taking the app down.
+ */
+class ViewBoundary extends React.Component<
+  { manifest: CardManifest; children: React.ReactNode },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+    return (
+      <>
+        <div role="alert" style={{ color: '#ff8080', fontSize: 13, marginBottom: 12 }}>
+          View failed: {this.state.error.message}
+        </div>
+        <ManifestText manifest={this.props.manifest} />
+      </>
+    );
+  }
+}
+
+/**
+ * CardSurface: the body of an opened card (one workspace pane).
+ *
+ * Mounts the card's `View` (or its entry in cardViews) with the instance, or
+ * shows the manifest text for headless and manifest-only cards. `getFailures()` is shown as banners above
+ * the view (errors as alerts).
+ */
+export default function CardSurface({ card, manifest }: CardSurfaceProps) {
+  const failures = useCardFailures(card);
+  const View = card ? card.View ?? cardViews[card.id] : undefined;
+
+  return (
+    <div data-testid="card-surface" style={{ padding: '20px' }}>
+      <h1 style={{ color: '#fff', marginBottom: '12px' }}>{manifest.title}</h1>
+      <p style={{ color: '#bbb', marginBottom: '20px' }}>{manifest.tagline}</p>
+
+      {failures.length > 0 && (
+        <div aria-label="Card failures" style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 16 }}>
+          {failures.map((f, i) => (
+            <div
+              key={`${f.code}-${i}`}
+              role={f.severity === 'error' ? 'alert' : 'status'}
+              style={{
+                padding: '8px 12px',
+                borderRadius: 6,
+                fontSize: 13,
+                color: SEVERITY_COLORS[f.severity ?? 'info'].fg,
+                background: SEVERITY_COLORS[f.severity ?? 'info'].bg,
+              }}
+            >
+              <strong style={{ fontFamily: 'monospace' }}>{f.code}</strong> {f.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {card && View ? (
+        <ViewBoundary manifest={manifest}>
+          <View card={card} />
+        </ViewBoundary>
+      ) : (
+        <ManifestText manifest={manifest} />
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,23 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { listCards, CardRegistryEntry, type CardQueryResult } from '../cardRegistry';
+import { subscribeRegistry, CardRegistryEntry, type CardQueryResult } from '../cardRegistry';
+import { matchRanges, resolveCards, type MatchRange, type ResolvedCard } from '../cardResolver';
+import { cardRecents, withRecentsFirst } from '../cardRecents';
+import type { CardPortValues } from '../cardContract';
+import { routeInput, routeInputValues, type FacetRoute } from '../facetRouting';
+import { formatFilter, parseCardQuery } from '../cardQuery';
 import { eventLog } from '../instrumentation';
+import {
+  commandRegistry,
+  commandText,
+  commandUsage,
+  isCommandInput,
+  type CommandMatch,
+  type CommandResult,
+  type OmniboxCommand,
+} from '../omniboxCommands';
 
 interface OmniboxProps {
-  onInvoke?: (id: string, mode: 'SafeRun' | 'Run', card: CardQueryResult) => void;
+  onInvoke?: (id: string, mode: 'SafeRun' | 'Run', card: CardQueryResult, input?: CardPortValues) => void;
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
 }
@@ -11,10 +25,43 @@ interface OmniboxProps {
 /**
  * Omnibox: Semantic invocation interface.
  *
- * Uses CardRegistry directly.
+ * Uses CardRegistry directly and re-runs the query when cards are
+ * registered, updated or unregistered.
  * Activates cards by semantic reference, not search.
+ * Input starting with `>` lists commands instead (see omniboxCommands.ts).
+ * An empty query leads with pinned and recent cards (see cardRecents.ts).
+ * Pasted data (JSON, number series, ...) is offered to the cards that accept
+ * it, and the parsed payload goes with the activation (see facetRouting.ts).
  */
 
+/**
+ * Render text with the resolver's matched character ranges wrapped in <mark>.
+ */
+function Highlighted({ text, ranges }: { text: string; ranges: MatchRange[] }) {
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={i} style={{ background: 'rgba(255, 214, 102, 0.3)', color: 'inherit', borderRadius: 2 }}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  });
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
+
+/**
+ * Rank cards for a query; an empty query puts pinned and recent cards first.
+ */
+function rankCards(query: string): ResolvedCard[] {
+  const ranked = resolveCards(query, { semantic: true });
+  return query.trim() ? ranked : withRecentsFirst(ranked, cardRecents.list());
+}
+
 /**
  * Convert CardRegistryEntry to CardQueryResult format
  */
@@ -43,61 +90,40 @@ export default function Omnibox({ onInvoke, open: externalOpen, onOpenChange }:
   };
 
   const [q, setQ] = useState('');
-  const [results, setResults] = useState<CardRegistryEntry[]>([]);
+  const [matches, setMatches] = useState<ResolvedCard[]>([]);
+  const [routes, setRoutes] = useState<FacetRoute[]>([]);
+  const [commands, setCommands] = useState<CommandMatch[]>([]);
+  const [commandResult, setCommandResult] = useState<{ name: string; result: CommandResult } | null>(null);
   const [sel, setSel] = useState(0);
+  const [registryVersion, setRegistryVersion] = useState(0);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
-  /**
-   * Simple semantic search: match query against card ID and metadata.
-   */
-  const searchCards = (query: string): CardRegistryEntry[] => {
-    if (!query.trim()) {
-      return listCards();
-    }
-
-    const lq = query.toLowerCase();
-    const scored = listCards()
-      .map((card) => {
-        let score = 0;
-
-        // Exact ID match is highest priority
-        if (card.id.toLowerCase() === lq) {
-          score += 1000;
-        }
-
-        // ID substring
-        if (card.id.toLowerCase().includes(lq)) {
-          score += 100;
-        }
+  const commandMode = isCommandInput(q);
+  const results = matches.map((m) => m.entry);
+  const recents = new Map(cardRecents.list().map((r) => [r.cardId, r]));
+  const showRecents = !commandMode && !q.trim();
+  const filters = commandMode ? [] : parseCardQuery(q).filters;
+  const itemCount = commandMode ? commands.length : routes.length + results.length;
+  // Card list rows: facet routes first, then ranked cards
+  const selectedCard = sel < routes.length ? routes[sel].entry : results[sel - routes.length];
 
-        // Title match
-        if (card.meta.title.toLowerCase().includes(lq)) {
-          score += 50;
-        }
-
-        // Description match
-        if (card.meta.description?.toLowerCase().includes(lq)) {
-          score += 25;
-        }
-
-        // Tag match
-        if (card.meta.tags?.some((t) => t.toLowerCase().includes(lq))) {
-          score += 10;
-        }
-
-        return { card, score };
-      })
-      .filter((r) => r.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .map((r) => r.card);
-
-    return scored;
-  };
+  useEffect(() => subscribeRegistry(() => setRegistryVersion((v) => v + 1)), []);
+  useEffect(() => commandRegistry.subscribe(() => setRegistryVersion((v) => v + 1)), []);
+  useEffect(() => cardRecents.subscribe(() => setRegistryVersion((v) => v + 1)), []);
 
+  // Ranking is shared with Omnicard.select (see cardResolver.ts)
   useEffect(() => {
-    const results = searchCards(q);
-    setResults(results);
     setSel(0);
+    if (isCommandInput(q)) {
+      setCommands(commandRegistry.search(q));
+      setMatches([]);
+      setRoutes([]);
+      return;
+    }
+    setMatches(rankCards(q));
+    setRoutes(routeInput(q));
+    setCommands([]);
+    setCommandResult(null);
 
     if (q) {
       const flowId = eventLog.startFlow();
@@ -105,6 +131,22 @@ export default function Omnibox({ onInvoke, open: externalOpen, onOpenChange }:
     }
   }, [q]);
 
+  // Registry, commands or recents changed: refresh results without logging a new search
+  useEffect(() => {
+    if (registryVersion === 0) return;
+    if (isCommandInput(q)) {
+      const next = commandRegistry.search(q);
+      setCommands(next);
+      setSel((s) => Math.min(s, Math.max(0, next.length - 1)));
+      return;
+    }
+    const next = rankCards(q);
+    const nextRoutes = routeInput(q);
+    setMatches(next);
+    setRoutes(nextRoutes);
+    setSel((s) => Math.min(s, Math.max(0, nextRoutes.length + next.length - 1)));
+  }, [registryVersion]);
+
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
@@ -114,11 +156,13 @@ export default function Omnibox({ onInvoke, open: externalOpen, onOpenChange }:
       }
       if (!open) return;
       if (e.key === 'Escape') {
+        // Handled here: the workspace must not also close a pane
+        e.preventDefault();
         setOpen(false);
       }
       if (e.key === 'ArrowDown') {
         e.preventDefault();
-        setSel((s) => Math.min(s + 1, results.length - 1));
+        setSel((s) => Math.min(s + 1, itemCount - 1));
       }
       if (e.key === 'ArrowUp') {
         e.preventDefault();
@@ -126,29 +170,51 @@ export default function Omnibox({ onInvoke, open: externalOpen, onOpenChange }:
       }
       if (e.key === 'Enter') {
         e.preventDefault();
-        const r = results[sel];
-        if (r) {
-          handleActivateCard(r, 'Run');
-        }
+        // Shift+Enter previews the card in a sandbox (SafeRun) instead of running it
+        activateSelection(e.shiftKey ? 'SafeRun' : 'Run');
       }
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [open, results, sel]);
+  }, [open, results, routes, commands, commandMode, sel]);
 
-  const handleActivateCard = (card: CardRegistryEntry, mode: 'SafeRun' | 'Run') => {
+  const activateSelection = (mode: 'SafeRun' | 'Run' = 'Run') => {
+    if (commandMode) {
+      const c = commands[sel];
+      if (c) handleRunCommand(c.command);
+      return;
+    }
+    if (sel < routes.length) {
+      handleActivateCard(routes[sel].entry, mode, routeInputValues(routes[sel]));
+      return;
+    }
+    const r = results[sel - routes.length];
+    if (r) handleActivateCard(r, mode);
+  };
+
+  // Arguments are whatever follows the command name in the input;
+  // picking a command the input does not name runs it without arguments.
+  const handleRunCommand = async (command: OmniboxCommand) => {
+    const parsed = commandRegistry.parse(commandText(q));
+    const argText = parsed && parsed.command.name === command.name ? parsed.argText : '';
+    const result = await commandRegistry.run(command, argText);
+    setCommandResult({ name: command.name, result });
+  };
+
+  const handleActivateCard = (card: CardRegistryEntry, mode: 'SafeRun' | 'Run', input?: CardPortValues) => {
     if (!card) return;
     setOpen(false);
 
     const flowId = eventLog.startFlow();
     eventLog.emit({ type: 'CARD_SELECTED', cardId: card.id, cardTitle: card.meta.title, flowId });
-    eventLog.emit({ type: 'CARD_OPENED', cardId: card.id, mode, flowId });
+    // CARD_OPENED is emitted once the card is actually opened: by the card runtime,
+    // or by the host for manifest-only cards
 
     // Convert CardRegistryEntry to CardQueryResult format expected by App
     const cardQueryResult = toCardQueryResult(card);
 
-    // Notify parent
-    onInvoke?.(card.id, mode, cardQueryResult);
+    // Notify parent (with the routed payload, if the card was picked for pasted input)
+    onInvoke?.(card.id, mode, cardQueryResult, input);
   };
 
   return (
@@ -180,7 +246,7 @@ export default function Omnibox({ onInvoke, open: externalOpen, onOpenChange }:
                 ref={inputRef}
                 value={q}
                 onChange={(e) => setQ(e.target.value)}
-                placeholder="Type card ID or name (Ctrl+K)"
+                placeholder="Type card ID or name, or > for commands (Ctrl+K)"
                 aria-controls="omnibox-results"
                 aria-label="Activate cards"
                 style={{
@@ -194,74 +260,199 @@ export default function Omnibox({ onInvoke, open: externalOpen, onOpenChange }:
               />
               <button
                 aria-label="Activate selection"
-                onClick={() => {
-                  const r = results[sel];
-                  if (r) handleActivateCard(r, 'Run');
-                }}
+                onClick={() => activateSelection('Run')}
                 style={{ padding: '6px 10px' }}
               >
                 Activate
               </button>
+              {!commandMode && (
+                <button
+                  aria-label="SafeRun selection"
+                  title="Run against a copy and preview the changes (Shift+Enter)"
+                  onClick={() => activateSelection('SafeRun')}
+                  style={{ padding: '6px 10px' }}
+                >
+                  SafeRun
+                </button>
+              )}
             </div>
 
+            {filters.length > 0 && (
+              <div aria-label="Active filters" style={{ display: 'flex', gap: 6, marginTop: 8, flexWrap: 'wrap' }}>
+                {filters.map((f, i) => (
+                  <span
+                    key={i}
+                    style={{
+                      fontSize: 11,
+                      fontFamily: 'monospace',
+                      padding: '2px 6px',
+                      borderRadius: 4,
+                      background: f.negated ? 'rgba(255,128,128,0.12)' : 'rgba(143,209,143,0.12)',
+                      color: f.negated ? '#ff8080' : '#8fd18f',
+                    }}
+                  >
+                    {formatFilter(f)}
+                  </span>
+                ))}
+              </div>
+            )}
+
             <div style={{ display: 'flex', gap: 12, marginTop: 8 }}>
               {/* Results list */}
               <div style={{ flex: '0 0 380px', maxHeight: 220, overflow: 'auto' }}>
-                <div id="omnibox-results" role="listbox" aria-label="Card results">
-                  {results.map((card, i) => (
-                    <div
-                      key={card.id}
-                      role="option"
-                      aria-selected={i === sel}
-                      tabIndex={0}
-                      onMouseEnter={() => setSel(i)}
-                      onClick={() => handleActivateCard(card, 'Run')}
-                      style={{
-                        padding: 8,
-                        background: i === sel ? 'rgba(255,255,255,0.04)' : 'transparent',
-                        borderRadius: 6,
-                        display: 'flex',
-                        justifyContent: 'space-between',
-                        alignItems: 'center',
-                        cursor: 'pointer',
-                      }}
-                    >
-                      <div>
-                        <div style={{ fontWeight: 600 }}>{card.meta.title}</div>
-                        <div style={{ fontSize: 12, color: '#bbb' }}>{card.meta.description}</div>
-                        <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
-                          ID: {card.id} • {card.meta.tags?.join(', ') || 'no tags'}
+                <div id="omnibox-results" role="listbox" aria-label={commandMode ? 'Command results' : 'Card results'}>
+                  {commandMode &&
+                    commands.map(({ command, ranges }, i) => (
+                      <div
+                        key={command.name}
+                        role="option"
+                        aria-selected={i === sel}
+                        tabIndex={0}
+                        onMouseEnter={() => setSel(i)}
+                        onClick={() => handleRunCommand(command)}
+                        style={{
+                          padding: 8,
+                          background: i === sel ? 'rgba(255,255,255,0.04)' : 'transparent',
+                          borderRadius: 6,
+                          cursor: 'pointer',
+                        }}
+                      >
+                        <div style={{ fontWeight: 600 }}>
+                          <Highlighted text={command.name} ranges={ranges} />
                         </div>
+                        <div style={{ fontSize: 12, color: '#bbb' }}>{command.description}</div>
                       </div>
-                    </div>
-                  ))}
+                    ))}
+                  {!commandMode &&
+                    routes.map((route, i) => (
+                      <div
+                        key={`route:${route.entry.id}`}
+                        role="option"
+                        aria-selected={i === sel}
+                        tabIndex={0}
+                        onMouseEnter={() => setSel(i)}
+                        onClick={() => handleActivateCard(route.entry, 'Run', routeInputValues(route))}
+                        style={{
+                          padding: 8,
+                          background: i === sel ? 'rgba(255,255,255,0.04)' : 'transparent',
+                          borderRadius: 6,
+                          borderLeft: '2px solid #6ca0ff',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        <div style={{ fontWeight: 600 }}>Send to {route.entry.meta.title}</div>
+                        <div style={{ fontSize: 12, color: '#bbb' }}>
+                          {route.facet} input → <code>{route.inputKey}</code>
+                        </div>
+                      </div>
+                    ))}
+                  {!commandMode && results.map((card, k) => {
+                    const i = routes.length + k;
+                    return (
+                      <div
+                        key={card.id}
+                        role="option"
+                        aria-selected={i === sel}
+                        tabIndex={0}
+                        onMouseEnter={() => setSel(i)}
+                        onClick={() => handleActivateCard(card, 'Run')}
+                        style={{
+                          padding: 8,
+                          background: i === sel ? 'rgba(255,255,255,0.04)' : 'transparent',
+                          borderRadius: 6,
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          alignItems: 'center',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        <div>
+                          <div style={{ fontWeight: 600 }}>
+                            <Highlighted text={card.meta.title} ranges={matchRanges(matches[k], 'title')} />
+                          </div>
+                          <div style={{ fontSize: 12, color: '#bbb' }}>{card.meta.description}</div>
+                          <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
+                            ID: <Highlighted text={card.id} ranges={matchRanges(matches[k], 'id')} /> •{' '}
+                            {card.meta.tags?.join(', ') || 'no tags'}
+                            {showRecents && recents.get(card.id)?.visits ? ' • recent' : ''}
+                            {matches[k].semantic?.terms.length ? ` • about: ${matches[k].semantic!.terms.join(', ')}` : ''}
+                          </div>
+                        </div>
+                        <button
+                          aria-label={`${cardRecents.isPinned(card.id) ? 'Unpin' : 'Pin'} ${card.meta.title}`}
+                          aria-pressed={cardRecents.isPinned(card.id)}
+                          title={cardRecents.isPinned(card.id) ? 'Unpin' : 'Pin to the top of the list'}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            cardRecents.togglePin(card.id);
+                          }}
+                          style={{ background: 'none', border: 'none', color: cardRecents.isPinned(card.id) ? '#ffd666' : '#555', cursor: 'pointer', fontSize: 16 }}
+                        >
+                          {cardRecents.isPinned(card.id) ? '★' : '☆'}
+                        </button>
+                      </div>
+                    );
+                  })}
                 </div>
-                {results.length === 0 && <div style={{ color: '#777', padding: 8 }}>No cards match</div>}
+                {showRecents && [...recents.values()].some((r) => r.visits > 0) && (
+                  <button
+                    onClick={() => cardRecents.clear()}
+                    style={{ marginTop: 4, background: 'none', border: 'none', color: '#888', fontSize: 11, cursor: 'pointer' }}
+                  >
+                    Clear recents
+                  </button>
+                )}
+                {itemCount === 0 && (
+                  <div style={{ color: '#777', padding: 8 }}>{commandMode ? 'No commands match' : 'No cards match'}</div>
+                )}
               </div>
 
               {/* Preview */}
               <div style={{ flex: 1, background: '#0b0b0b', padding: 10, borderRadius: 6, border: '1px solid #202020' }}>
-                <div style={{ fontSize: 13, fontWeight: 600 }}>Card Details</div>
-                {results[sel] ? (
+                <div style={{ fontSize: 13, fontWeight: 600 }}>{commandMode ? 'Command' : 'Card Details'}</div>
+                {commandMode ? (
+                  <div style={{ marginTop: 8 }}>
+                    {commands[sel] && (
+                      <div style={{ fontSize: 11, color: '#999', fontFamily: 'monospace' }}>
+                        {'> '}
+                        {commandUsage(commands[sel].command)}
+                      </div>
+                    )}
+                    {commandResult && (
+                      <div data-testid="omnibox-command-result" role="status" style={{ marginTop: 8 }}>
+                        <div style={{ fontWeight: 700, fontSize: 13, color: commandResult.result.ok ? '#8fd18f' : '#ff8080' }}>
+                          {commandResult.result.title}
+                        </div>
+                        {commandResult.result.lines && commandResult.result.lines.length > 0 && (
+                          <ul style={{ fontSize: 11, color: '#aaa', marginTop: 4, paddingLeft: 16, maxHeight: 140, overflow: 'auto' }}>
+                            {commandResult.result.lines.map((line, i) => (
+                              <li key={i}>{line}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ) : selectedCard ? (
                   <div style={{ marginTop: 8 }}>
-                    <div style={{ fontWeight: 700, fontSize: 14 }}>{results[sel].meta.title}</div>
-                    <div style={{ color: '#bbb', fontSize: 12, marginTop: 4 }}>{results[sel].meta.description}</div>
+                    <div style={{ fontWeight: 700, fontSize: 14 }}>{selectedCard.meta.title}</div>
+                    <div style={{ color: '#bbb', fontSize: 12, marginTop: 4 }}>{selectedCard.meta.description}</div>
                     <div style={{ fontSize: 11, color: '#999', marginTop: 8, fontFamily: 'monospace' }}>
-                      {results[sel].id}
+                      {selectedCard.id}
                     </div>
-                    {results[sel].invariants && results[sel].invariants.length > 0 && (
+                    {selectedCard.invariants && selectedCard.invariants.length > 0 && (
                       <div style={{ marginTop: 8 }}>
                         <div style={{ fontSize: 11, fontWeight: 600, color: '#ccc' }}>Invariants:</div>
                         <ul style={{ fontSize: 11, color: '#aaa', marginTop: 4, paddingLeft: 16 }}>
-                          {results[sel].invariants.slice(0, 2).map((inv, i) => (
+                          {selectedCard.invariants.slice(0, 2).map((inv, i) => (
                             <li key={i}>{inv.split(':')[0]}</li>
                           ))}
                         </ul>
                       </div>
                     )}
-                    {results[sel].docstring && (
+                    {selectedCard.docstring && (
                       <div style={{ marginTop: 8, fontSize: 11, color: '#888', fontStyle: 'italic' }}>
-                        {results[sel].docstring}
+                        {selectedCard.docstring}
                       </div>
                     )}
                   </div>
@@ -0,0 +1,115 @@
+import React from 'react';
+import { formatStateValue, type SafeRunSession } from '../safeRun';
+
+interface SafeRunPanelProps {
+  title: string;
+  session: SafeRunSession | null;
+  error?: string;
+  onCommit: () => void;
+  onDiscard: () => void;
+}
+
+const MAX_LISTED_CHANGES = 50;
+
+/**
+ * SafeRunPanel: preview of a sandboxed run.
+ *
+ * Lists the state paths the run would change and the failures it would
+ * introduce, and lets the user commit the result to the live card or
+ * discard it. The panel only projects the session; commit/discard are
+ * performed by the caller.
+ */
+export default function SafeRunPanel({ title, session, error, onCommit, onDiscard }: SafeRunPanelProps) {
+  const preview = session?.preview;
+  const changes = preview?.changes ?? [];
+
+  return (
+    <div
+      data-testid="safe-run-panel"
+      role="dialog"
+      aria-label={`SafeRun preview: ${title}`}
+      style={{
+        position: 'fixed',
+        top: 60,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: 640,
+        maxHeight: '80vh',
+        overflow: 'auto',
+        background: '#111',
+        color: '#fff',
+        padding: 16,
+        borderRadius: 8,
+        boxShadow: '0 6px 20px rgba(0,0,0,0.6)',
+        zIndex: 9500,
+      }}
+    >
+      <div style={{ fontSize: 12, color: '#888', textTransform: 'uppercase', letterSpacing: 1 }}>SafeRun preview</div>
+      <h2 style={{ margin: '4px 0 12px', fontSize: 18 }}>{title}</h2>
+
+      {error && <div style={{ color: '#ff8080', fontSize: 13 }}>{error}</div>}
+
+      {preview && (
+        <>
+          <div style={{ fontSize: 12, color: '#bbb' }}>
+            {preview.steps} step(s) in a sandbox · {changes.length === 0 ? 'no state changes' : `${changes.length} change(s)`}
+          </div>
+
+          {preview.newFailures.length > 0 && (
+            <div style={{ marginTop: 12 }}>
+              <div style={{ fontSize: 12, fontWeight: 600, color: '#ffb366' }}>New failures</div>
+              <ul style={{ fontSize: 12, marginTop: 4, paddingLeft: 16 }}>
+                {preview.newFailures.map((f, i) => (
+                  <li key={i} style={{ color: f.severity === 'error' ? '#ff8080' : '#ffd666' }}>
+                    <code>{f.code}</code>: {f.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {changes.length > 0 && (
+            <table style={{ width: '100%', marginTop: 12, fontSize: 11, fontFamily: 'monospace', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ color: '#888', textAlign: 'left' }}>
+                  <th>path</th>
+                  <th>before</th>
+                  <th>after</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.slice(0, MAX_LISTED_CHANGES).map((c) => (
+                  <tr key={c.path}>
+                    <td style={{ color: '#ccc' }}>{c.path || '(state)'}</td>
+                    <td style={{ color: '#ff9e9e' }}>{formatStateValue(c.before)}</td>
+                    <td style={{ color: '#9eff9e' }}>{formatStateValue(c.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {changes.length > MAX_LISTED_CHANGES && (
+            <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>…and {changes.length - MAX_LISTED_CHANGES} more</div>
+          )}
+
+          {session?.isStale() && (
+            <div style={{ fontSize: 11, color: '#ffd666', marginTop: 8 }}>
+              The live card changed since the snapshot; committing replaces those changes.
+            </div>
+          )}
+        </>
+      )}
+
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 16 }}>
+        <button onClick={onDiscard} style={{ padding: '6px 12px' }}>
+          {session ? 'Discard' : 'Close'}
+        </button>
+        {session && (
+          <button onClick={onCommit} style={{ padding: '6px 12px' }}>
+            Commit
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,34 @@
-import React, { useState, useRef, useEffect } from "react";
-import { SunContract, SunContractAgent } from "../cards/sunContract";
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import type { ZetaCardContract } from "../cardContract";
+import { SunContract, SunContractState, demoSunContract } from "../cards/sunContract";
 
 interface SunContractVisualizerProps {
+  card?: ZetaCardContract<unknown>; // live card (mounted through cardViews); a private demo contract otherwise
   sourceStrength?: number;
 }
 
-export default function SunContractVisualizer({ sourceStrength = 5 }: SunContractVisualizerProps) {
+// Zero the simulation counters (field, intake, dose, externality, violations), keeping the coupled agents
+function clearCounters(state: SunContractState): SunContractState {
+  const zeros = () => Object.fromEntries(Object.keys(state.agents).map((id) => [id, 0]));
+  return {
+    ...state,
+    fieldEnergy: 0,
+    agentIntake: zeros(),
+    agentDose: zeros(),
+    agentExternality: zeros(),
+    violations: [],
+    lastStepTime: 0,
+  };
+}
+
+export default function SunContractVisualizer({ card, sourceStrength = 5 }: SunContractVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const contractRef = useRef(new SunContract(sourceStrength));
-  const [, setAgents] = useState<Record<string, SunContractAgent>>({});
+  // Nothing else steps a SunContract: while running, the view drives the card it shows
+  // (its agents are coupled by whoever created it)
+  const contract = useMemo(
+    () => (card instanceof SunContract ? card : demoSunContract(sourceStrength)),
+    [card, sourceStrength]
+  );
   const [, setStats] = useState({
     fieldEnergy: 0,
     totalViolations: 0,
@@ -16,48 +36,17 @@ export default function SunContractVisualizer({ sourceStrength = 5 }: SunContrac
   });
   const [isRunning, setIsRunning] = useState(false);
 
-  // Create sample agents
-  useEffect(() => {
-    const contract = contractRef.current;
-
-    const agentA: SunContractAgent = {
-      id: "Agent A (Safe)",
-      capMax: 0.4,
-      capCurrent: 0.4,
-      processingCapacity: 0.3,
-      ramping: 0.1,
-      doseBudget: 20,
-      exposure: 0.5,
-      exposureRampRate: 0.05,
-    };
-
-    const agentB: SunContractAgent = {
-      id: "Agent B (Risky)",
-      capMax: 1.0,
-      capCurrent: 1.0,
-      processingCapacity: 0.1,
-      ramping: 0.5,
-      doseBudget: 5,
-      exposure: 0.8,
-      exposureRampRate: 0.3,
-    };
-
-    contract.couple(agentA);
-    contract.couple(agentB);
-    setAgents({ [agentA.id]: agentA, [agentB.id]: agentB });
-  }, []);
-
   // Animation loop
   useEffect(() => {
     if (!isRunning) return;
 
     const interval = setInterval(() => {
-      const contract = contractRef.current;
       contract.step(0.016);
+      const state = contract.getState();
 
       setStats({
-        fieldEnergy: contract.state.fieldEnergy,
-        totalViolations: contract.state.violations.length,
+        fieldEnergy: state.fieldEnergy,
+        totalViolations: state.violations.length,
         zeta: [...contract.zeta],
       });
 
@@ -75,11 +64,11 @@ export default function SunContractVisualizer({ sourceStrength = 5 }: SunContrac
         sunY = 50;
       ctx.fillStyle = "#ffb700";
       ctx.beginPath();
-      ctx.arc(sunX, sunY, Math.min(30, 10 + contract.state.sourceStrength * 10), 0, Math.PI * 2);
+      ctx.arc(sunX, sunY, Math.min(30, 10 + state.sourceStrength * 10), 0, Math.PI * 2);
       ctx.fill();
       ctx.fillStyle = "#fff";
       ctx.font = "11px monospace";
-      ctx.fillText(`Source: ${contract.state.sourceStrength.toFixed(2)}`, sunX + 50, sunY);
+      ctx.fillText(`Source: ${state.sourceStrength.toFixed(2)}`, sunX + 50, sunY);
 
       // Draw field energy (central pool)
       const poolX = 250,
@@ -87,14 +76,14 @@ export default function SunContractVisualizer({ sourceStrength = 5 }: SunContrac
       ctx.fillStyle = "rgba(100, 200, 255, 0.3)";
       ctx.fillRect(poolX - 40, poolY - 20, 80, 40);
       ctx.fillStyle = "#64c8ff";
-      ctx.fillText(`Field: ${contract.state.fieldEnergy.toFixed(2)}`, poolX - 30, poolY - 30);
+      ctx.fillText(`Field: ${state.fieldEnergy.toFixed(2)}`, poolX - 30, poolY - 30);
 
       // Draw agents and their intake
       let agentY = 180;
-      for (const agentId in contract.state.agents) {
-        const agent = contract.state.agents[agentId];
-        const intake = contract.state.agentIntake[agentId] ?? 0;
-        const dose = contract.state.agentDose[agentId] ?? 0;
+      for (const agentId in state.agents) {
+        const agent = state.agents[agentId];
+        const intake = state.agentIntake[agentId] ?? 0;
+        const dose = state.agentDose[agentId] ?? 0;
         const doseRatio = dose / agent.doseBudget;
 
         // Agent box
@@ -133,9 +122,9 @@ export default function SunContractVisualizer({ sourceStrength = 5 }: SunContrac
       }
 
       // Draw violations count
-      ctx.fillStyle = contract.state.violations.length > 0 ? "#ff6b6b" : "#4caf50";
+      ctx.fillStyle = state.violations.length > 0 ? "#ff6b6b" : "#4caf50";
       ctx.font = "bold 14px monospace";
-      ctx.fillText(`Violations: ${contract.state.violations.length}`, 100, canvas.height - 30);
+      ctx.fillText(`Violations: ${state.violations.length}`, 100, canvas.height - 30);
 
       // Draw zeta health
       ctx.fillStyle = "#64c8ff";
@@ -143,13 +132,13 @@ export default function SunContractVisualizer({ sourceStrength = 5 }: SunContrac
     }, 50);
 
     return () => clearInterval(interval);
-  }, [isRunning]);
+  }, [isRunning, contract]);
 
   return (
     <div style={{ padding: "20px", fontFamily: "monospace" }}>
       <h2 style={{ color: "#fff", marginBottom: "12px" }}>Sun Contract Visualizer</h2>
       <p style={{ color: "#bbb", marginBottom: "20px", maxWidth: "600px" }}>
-        The contract offers unlimited energy (the "sun"). Two agents couple to it with different safety budgets.
+        The contract offers unlimited energy (the "sun"). Agents couple to it with their own safety budgets.
         Watch how intake, dose accumulation, and violations track over time.
       </p>
 
@@ -169,29 +158,7 @@ export default function SunContractVisualizer({ sourceStrength = 5 }: SunContrac
         </button>
         <button
           onClick={() => {
-            contractRef.current = new SunContract(sourceStrength);
-            const agentA: SunContractAgent = {
-              id: "Agent A (Safe)",
-              capMax: 0.4,
-              capCurrent: 0.4,
-              processingCapacity: 0.3,
-              ramping: 0.1,
-              doseBudget: 20,
-              exposure: 0.5,
-              exposureRampRate: 0.05,
-            };
-            const agentB: SunContractAgent = {
-              id: "Agent B (Risky)",
-              capMax: 1.0,
-              capCurrent: 1.0,
-              processingCapacity: 0.1,
-              ramping: 0.5,
-              doseBudget: 5,
-              exposure: 0.8,
-              exposureRampRate: 0.3,
-            };
-            contractRef.current.couple(agentA);
-            contractRef.current.couple(agentB);
+            contract.setState(clearCounters(contract.getState()));
             setStats({ fieldEnergy: 0, totalViolations: 0, zeta: [1, 0, 0] });
           }}
           style={{
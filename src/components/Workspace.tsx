@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { getCard, type CardManifest } from '../cardRegistry';
+import { cardWorkspace, type CardWorkspace, type WorkspacePane } from '../cardWorkspace';
+import CardSurface from './CardSurface';
+
+interface WorkspaceProps {
+  workspace?: CardWorkspace;
+  omniboxOpen?: boolean; // Escape closes the Omnibox first, not the focused pane
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  background: '#333',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 4,
+  cursor: 'pointer',
+};
+
+function paneManifest(pane: WorkspacePane): CardManifest {
+  const entry = getCard(pane.cardId);
+  return {
+    title: entry?.meta.title ?? pane.cardId,
+    tagline: entry?.meta.description,
+    semanticDescriptor: entry?.docstring ?? '',
+    description: entry?.meta.description,
+  };
+}
+
+function paneTitle(pane: WorkspacePane): string {
+  return paneManifest(pane).title + (pane.detached ? ' (copy)' : '');
+}
+
+/**
+ * Subscribe to a workspace and re-render on every change.
+ */
+export function useWorkspaceState(workspace: CardWorkspace = cardWorkspace) {
+  const [state, setState] = useState(() => workspace.getState());
+  useEffect(() => {
+    setState(workspace.getState());
+    return workspace.subscribe(() => setState(workspace.getState()));
+  }, [workspace]);
+  return state;
+}
+
+/**
+ * Workspace: the open cards, as tabs or side-by-side panes.
+ *
+ * Keyboard:
+ *   Escape          close the focused pane (unless the Omnibox is open
+ *                   or another handler already took the key)
+ *   Alt+] / Alt+[   next / previous pane
+ *   Alt+1 … Alt+9   focus pane N
+ *   Alt+\           toggle tabs / split
+ *
+ * The workspace model owns focus and activation; this component only
+ * projects it.
+ */
+export default function Workspace({ workspace = cardWorkspace, omniboxOpen = false }: WorkspaceProps) {
+  const { panes, focusedKey, layout } = useWorkspaceState(workspace);
+  const focused = panes.find((p) => p.key === focusedKey) ?? null;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        if (focusedKey && !omniboxOpen && !e.defaultPrevented) workspace.close(focusedKey);
+        return;
+      }
+      if (!e.altKey) return;
+      if (e.key === ']' || e.key === '[') {
+        e.preventDefault();
+        workspace.cycle(e.key === ']' ? 1 : -1);
+      } else if (e.key === '\\') {
+        e.preventDefault();
+        workspace.toggleLayout();
+      } else if (/^[1-9]$/.test(e.key) && panes[Number(e.key) - 1]) {
+        e.preventDefault();
+        workspace.focus(panes[Number(e.key) - 1].key);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [workspace, panes, focusedKey, omniboxOpen]);
+
+  if (panes.length === 0) return null;
+
+  const visible = layout === 'split' ? panes : focused ? [focused] : [];
+
+  return (
+    <div
+      data-testid="workspace"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: '#0a0e27', zIndex: 9000, display: 'flex', flexDirection: 'column' }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '8px 12px', borderBottom: '1px solid #202040' }}>
+        <div role="tablist" aria-label="Open cards" style={{ display: 'flex', gap: 4, flex: 1, overflowX: 'auto' }}>
+          {panes.map((pane) => (
+            <div
+              key={pane.key}
+              role="tab"
+              aria-selected={pane.key === focusedKey}
+              tabIndex={0}
+              onClick={() => workspace.focus(pane.key)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                padding: '6px 10px',
+                borderRadius: 4,
+                cursor: 'pointer',
+                whiteSpace: 'nowrap',
+                color: '#fff',
+                background: pane.key === focusedKey ? '#2a2a55' : 'transparent',
+              }}
+            >
+              {paneTitle(pane)}
+              <button
+                aria-label={`Close ${paneTitle(pane)}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  workspace.close(pane.key);
+                }}
+                style={{ background: 'transparent', border: 'none', color: '#999', cursor: 'pointer', padding: 0 }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        {focused && (
+          <button
+            disabled={!workspace.canCopy(focused.cardId)}
+            title="Open an independent copy next to it, to compare configurations"
+            onClick={() => workspace.duplicate(focused.key)}
+            style={buttonStyle}
+          >
+            Duplicate
+          </button>
+        )}
+        <button
+          aria-pressed={layout === 'split'}
+          title="Show all open cards side by side (Alt+\)"
+          onClick={() => workspace.toggleLayout()}
+          style={buttonStyle}
+        >
+          Split
+        </button>
+        <button onClick={() => focusedKey && workspace.close(focusedKey)} style={buttonStyle}>
+          Close (Esc)
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flex: 1, minHeight: 0 }}>
+        {visible.map((pane) => (
+          <div
+            key={pane.key}
+            role="tabpanel"
+            aria-label={paneTitle(pane)}
+            onMouseDown={() => pane.key !== focusedKey && workspace.focus(pane.key)}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              overflow: 'auto',
+              borderLeft: layout === 'split' ? `2px solid ${pane.key === focusedKey ? '#5b5bd6' : '#202040'}` : 'none',
+            }}
+          >
+            <CardSurface card={workspace.card(pane.key)} manifest={paneManifest(pane)} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
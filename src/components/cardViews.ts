@@ -0,0 +1,14 @@
+import type { ComponentType } from 'react';
+import type { CardID, ZetaCardContract } from '../cardContract';
+import SunContractVisualizer from './SunContractVisualizer';
+
+export type CardView = ComponentType<{ card: ZetaCardContract<unknown> }>;
+
+/**
+ * Views for cards whose model must stay free of React (they also run
+ * headless under Node), keyed by card id. CardSurface falls back to these
+ * when a card has no `View` of its own.
+ */
+export const cardViews: Record<CardID, CardView> = {
+  'ζ.card.sun-contract': SunContractVisualizer,
+};
@@ -0,0 +1,110 @@
+/**
+ * ζ-Card: Facet Routing
+ *
+ * Turns what the user typed or pasted into card input. `detectFacets` names
+ * the kind of input (url, json, date, number-series); this module parses the
+ * payload for each facet and suggests the cards that accept it, i.e. whose
+ * `CardIO.inputs` declare `facet:<name>`:
+ *
+ *   "3, 1, 4, 1, 5, 9"            → facet:number-series → ζ.card.spectral.heartbeat
+ *   '{"id": "a1", "capCurrent": …}' → facet:agent         → ζ.card.sun-contract
+ *
+ * Activating a suggestion hands `{ "facet:<name>": payload }` to the card
+ * through `receive()` (see CardActivationContext.input).
+ *
+ * Facets, most specific first:
+ *   - agent          JSON object (or array of objects) shaped like a SunContractAgent
+ *   - json           any JSON value
+ *   - number-series  comma/space separated numbers, parsed to number[]
+ *   - date           first YYYY-MM-DD in the input
+ *   - url            the input itself
+ */
+
+import { CardID, CardPortValues, FACET_INPUT_PREFIX } from "./cardContract";
+import { CardRegistryEntry, detectFacets, listCards } from "./cardRegistry";
+import { isSunContractAgent } from "./cards/sunContract";
+
+export type DetectedFacet = {
+  facet: string;
+  payload: unknown;
+};
+
+export type FacetRoute = {
+  entry: CardRegistryEntry;
+  facet: string;
+  inputKey: string; // "facet:<name>"
+  payload: unknown;
+};
+
+// Specific facets before the general ones they refine
+const FACET_ORDER = ["agent", "json", "number-series", "date", "url"];
+
+export function facetInputKey(facet: string): string {
+  return FACET_INPUT_PREFIX + facet;
+}
+
+/**
+ * Facets present in the input, each with its parsed payload.
+ */
+export function parseFacets(input: string): DetectedFacet[] {
+  const text = input.trim();
+  if (!text) return [];
+
+  const found: DetectedFacet[] = [];
+  for (const facet of detectFacets(text)) {
+    switch (facet) {
+      case "url":
+        found.push({ facet, payload: text });
+        break;
+      case "json": {
+        const value = JSON.parse(text);
+        found.push({ facet, payload: value });
+        const agents = Array.isArray(value) ? value : [value];
+        if (agents.length > 0 && agents.every(isSunContractAgent)) {
+          found.push({ facet: "agent", payload: value });
+        }
+        break;
+      }
+      case "date":
+        found.push({ facet, payload: text.match(/\d{4}-\d{2}-\d{2}/)![0] });
+        break;
+      case "number-series": {
+        const series = text.split(/[,\s]+/).filter(Boolean).map(Number);
+        if (series.length > 0) found.push({ facet, payload: series });
+        break;
+      }
+    }
+  }
+
+  const rank = (facet: string) => {
+    const i = FACET_ORDER.indexOf(facet);
+    return i < 0 ? FACET_ORDER.length : i;
+  };
+  return found.sort((a, b) => rank(a.facet) - rank(b.facet));
+}
+
+/**
+ * Cards that accept a facet of the input, most specific facet first.
+ * A card that accepts several of the input's facets is suggested once,
+ * for the most specific one.
+ */
+export function routeInput(input: string, entries: CardRegistryEntry[] = listCards()): FacetRoute[] {
+  const routes: FacetRoute[] = [];
+  const routed = new Set<CardID>();
+  for (const { facet, payload } of parseFacets(input)) {
+    const inputKey = facetInputKey(facet);
+    for (const entry of entries) {
+      if (routed.has(entry.id) || !entry.io?.inputs?.includes(inputKey)) continue;
+      routed.add(entry.id);
+      routes.push({ entry, facet, inputKey, payload });
+    }
+  }
+  return routes;
+}
+
+/**
+ * The port values a route delivers on activation.
+ */
+export function routeInputValues(route: FacetRoute): CardPortValues {
+  return { [route.inputKey]: route.payload };
+}
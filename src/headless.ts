@@ -0,0 +1,133 @@
+/**
+ * ζ-Card: Headless Runner
+ *
+ * Runs a card without a view: instantiate by registry id, apply a JSON state,
+ * call `step()` N times, and report the resulting state, `zeta` vector and
+ * `getFailures()` as plain JSON. Nothing here touches the DOM, so it runs
+ * under plain Node (see scripts/run-card.ts) for batch jobs and CI.
+ *
+ * Only registry entries with a live implementation can run. Manifest-only
+ * entries (e.g. ζ.card.contract.core) and cards that exist only as React
+ * views (e.g. ζ.card.pi-timer) are rejected with the reason; headlessSupport()
+ * lists which ids run.
+ */
+
+import { CardFailure, CardID, ZetaCardContract } from "./cardContract";
+import { ApprovalQueueCard } from "./approvalQueueCase";
+import { CardRegistryEntry, getCard, listCards } from "./cardRegistry";
+import { ComponentCardEntries } from "./cards/componentCards";
+import { Omnicard } from "./cards/omnicard";
+import { ReadmeCard } from "./cards/readmeCard";
+import { SunContract } from "./cards/sunContract";
+import { Card } from "./zetacard";
+
+export type HeadlessCardFactory = () => ZetaCardContract;
+
+/** Live implementations for registry ids. */
+export const headlessCardFactories: Record<CardID, HeadlessCardFactory> = {
+  "ζ.card.omni": () => new Omnicard(),
+  "ζ.card.spectral.heartbeat": () => new Card(),
+  "ζ.card.readme": () => new ReadmeCard(),
+  "ζ.card.sun-contract": () => new SunContract(),
+  "ζ.card.approval-queue": () => new ApprovalQueueCard(),
+};
+
+export type HeadlessSupport = {
+  cardId: CardID;
+  runnable: boolean;
+  reason?: string; // why a card cannot run headless
+};
+
+export type HeadlessRunSpec = {
+  cardId: CardID;
+  state?: unknown; // raw state or versioned envelope, as accepted by setState
+  steps?: number;
+  dt?: number; // forwarded to step(dt) for cards that take a timestep
+};
+
+export type HeadlessRunResult = {
+  cardId: CardID;
+  steps: number;
+  state: unknown;
+  zeta: number[] | null;
+  failures: CardFailure[];
+};
+
+type SteppableCard = ZetaCardContract & { step(dt?: number): void };
+
+function isSteppable(card: ZetaCardContract): card is SteppableCard {
+  return typeof (card as Partial<SteppableCard>).step === "function";
+}
+
+/**
+ * Convert a state snapshot into plain JSON values (typed arrays become arrays).
+ */
+export function toPlainJSON(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (_key, v) => (ArrayBuffer.isView(v) ? Array.from(v as Float32Array) : v))
+  );
+}
+
+// Registry entries, including the component cards the app registers at runtime
+function findEntry(cardId: CardID): CardRegistryEntry | null {
+  return getCard(cardId) ?? ComponentCardEntries.find((entry) => entry.id === cardId) ?? null;
+}
+
+function unsupportedReason(entry: CardRegistryEntry): string {
+  return entry.implementationPath.endsWith(".tsx")
+    ? `implemented only as a React view (${entry.implementationPath}), which needs a DOM`
+    : "manifest only, with no live implementation";
+}
+
+/**
+ * Every registered card id (component cards included) and whether it can
+ * run headless.
+ */
+export function headlessSupport(): HeadlessSupport[] {
+  const entries = [...listCards(), ...ComponentCardEntries.filter((entry) => !getCard(entry.id))];
+  return entries.map((entry) =>
+    entry.id in headlessCardFactories
+      ? { cardId: entry.id, runnable: true }
+      : { cardId: entry.id, runnable: false, reason: unsupportedReason(entry) }
+  );
+}
+
+export function createHeadlessCard(cardId: CardID): ZetaCardContract {
+  const factory = headlessCardFactories[cardId];
+  if (!factory) {
+    const entry = findEntry(cardId);
+    throw new Error(
+      entry ? `card has no headless implementation: ${cardId} (${unsupportedReason(entry)})` : `card not registered: ${cardId}`
+    );
+  }
+  return factory();
+}
+
+export function runHeadless(spec: HeadlessRunSpec): HeadlessRunResult {
+  const steps = spec.steps ?? 0;
+  if (!Number.isInteger(steps) || steps < 0) {
+    throw new Error(`steps must be a non-negative integer: ${spec.steps}`);
+  }
+
+  const card = createHeadlessCard(spec.cardId);
+  if (spec.state !== undefined) {
+    card.setState(spec.state);
+  }
+
+  if (steps > 0) {
+    if (!isSteppable(card)) {
+      throw new Error(`card does not step: ${spec.cardId}`);
+    }
+    for (let i = 0; i < steps; i++) {
+      card.step(spec.dt);
+    }
+  }
+
+  return {
+    cardId: card.id,
+    steps,
+    state: toPlainJSON(card.getState()),
+    zeta: card.zeta ? [...card.zeta] : null,
+    failures: card.getFailures?.() ?? [],
+  };
+}
@@ -16,10 +16,15 @@ export type ZetacardEvent =
   | { type: 'SEARCH_RESULTS'; count: number; timestamp: number; flowId: string }
   | { type: 'CARD_SELECTED'; cardId: string; cardTitle: string; timestamp: number; flowId: string }
   | { type: 'CARD_OPENED'; cardId: string; mode: 'Run' | 'SafeRun'; timestamp: number; flowId: string }
-  | { type: 'CARD_CLOSED'; timestamp: number; flowId?: string }
-  | { type: 'STATE_REHYDRATED'; timestamp: number }
+  | { type: 'CARD_CLOSED'; cardId: string; timestamp: number; flowId?: string }
+  | { type: 'SAFE_RUN_RESOLVED'; cardId: string; outcome: 'committed' | 'discarded'; changes: number; newFailures: number; timestamp: number; flowId?: string }
+  | { type: 'STATE_REHYDRATED'; restored: string[]; skipped: { cardId: string; reason: string }[]; timestamp: number }
   | { type: 'ERROR'; source: 'react' | 'network' | 'storage' | 'validation' | 'unknown'; message: string; stack?: string; timestamp: number; flowId?: string };
 
+// Omit applied per union member, so each event keeps its own payload fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type ZetacardEventInput = DistributiveOmit<ZetacardEvent, 'timestamp'>;
+
 interface EventLogExport {
   version: string;
   buildId: string;
@@ -51,7 +56,7 @@ class EventLog {
     return this.currentFlowId;
   }
 
-  emit(event: Omit<ZetacardEvent, 'timestamp'>) {
+  emit(event: ZetacardEventInput) {
     // Auto-assign flowId if not provided and current flow exists
     const flowId = (this.currentFlowId && this.isFlowableEvent(event.type)) ? this.currentFlowId : undefined;
     
@@ -79,7 +84,7 @@ class EventLog {
   }
 
   private isFlowableEvent(type: string): boolean {
-    return ['SEARCH_QUERY', 'CARD_SELECTED', 'CARD_OPENED', 'CARD_CLOSED'].includes(type);
+    return ['SEARCH_QUERY', 'CARD_SELECTED', 'CARD_OPENED', 'CARD_CLOSED', 'SAFE_RUN_RESOLVED'].includes(type);
   }
 
   getEvents(): ZetacardEvent[] {
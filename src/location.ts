@@ -1,4 +1,4 @@
-import { repo } from './zetaRepo';
+import { repo, type LogEntry, type LogOptions } from './zetaRepo';
 
 type Location = { commit: string | null; path: string };
 
@@ -102,6 +102,13 @@ export class LocationManager {
     return {commit: this.currentCommit, path: this.currentPath};
   }
 
+  // commits that changed `path` (default: the current path), newest first, walking back from the current commit
+  async history(path: string = this.currentPath, options: LogOptions = {}): Promise<LogEntry[]>{
+    if(!this.currentCommit) return [];
+    const clean = path.replace(/^\/+|\/+$/g,'');
+    return repo.log(this.currentCommit, {...options, path: clean || undefined});
+  }
+
   descend(relPath: string){
     const clean = relPath.replace(/^\/+|\/+$/g,'');
     if(!clean) return this.currentPath;
@@ -0,0 +1,365 @@
+/**
+ * ζ-Card: Omnibox Commands
+ *
+ * Input starting with `>` puts the Omnibox in command mode: instead of cards,
+ * the result list shows registered commands, and activating one runs it with
+ * the rest of the input as arguments.
+ *
+ *   > validate registry
+ *   > goto main:/cards/pulse
+ *   > versions pulse
+ *   > diff main experiment pulse
+ *
+ * Commands are registered with a name (may contain spaces), a description and
+ * positional argument specs; the last argument receives the remaining text.
+ */
+
+import { getCard, validateReadmeAgainstRegistry } from "./cardRegistry";
+import { cardRecents } from "./cardRecents";
+import { matchText, MatchRange, resolveBestCard } from "./cardResolver";
+import { eventLog } from "./instrumentation";
+import { validateRegistry } from "./utils/cardValidation";
+import { formatJsonChange, formatLineDiff } from "./zetaDiff";
+import readmeText from "../README.md?raw";
+
+export const COMMAND_PREFIX = ">";
+
+export type CommandArgSpec = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type CommandResult = {
+  ok: boolean;
+  title: string;
+  lines?: string[];
+};
+
+export interface OmniboxCommand {
+  name: string; // lowercase words, e.g. "validate registry"
+  description: string;
+  args?: CommandArgSpec[];
+  run(args: Record<string, string>): CommandResult | Promise<CommandResult>;
+}
+
+export type CommandMatch = {
+  command: OmniboxCommand;
+  score: number;
+  ranges: MatchRange[]; // highlight ranges in command.name
+};
+
+export function isCommandInput(input: string): boolean {
+  return input.trimStart().startsWith(COMMAND_PREFIX);
+}
+
+/** Input with the prefix removed ("> goto main" → "goto main"). */
+export function commandText(input: string): string {
+  const trimmed = input.trimStart();
+  return (trimmed.startsWith(COMMAND_PREFIX) ? trimmed.slice(COMMAND_PREFIX.length) : trimmed).trim();
+}
+
+/** One-line usage string, e.g. "goto <target>". */
+export function commandUsage(command: OmniboxCommand): string {
+  const args = (command.args ?? []).map((a) => (a.required ? `<${a.name}>` : `[${a.name}]`));
+  return [command.name, ...args].join(" ");
+}
+
+/**
+ * Split argument text over the command's positional args.
+ * The last declared argument takes whatever text remains.
+ */
+export function parseCommandArgs(
+  command: OmniboxCommand,
+  text: string
+): { ok: true; args: Record<string, string> } | { ok: false; error: string } {
+  const specs = command.args ?? [];
+  const args: Record<string, string> = {};
+  let rest = text.trim();
+
+  specs.forEach((spec, i) => {
+    if (!rest) return;
+    if (i === specs.length - 1) {
+      args[spec.name] = rest;
+      rest = "";
+      return;
+    }
+    const [head, ...tail] = rest.split(/\s+/);
+    args[spec.name] = head;
+    rest = tail.join(" ");
+  });
+
+  if (rest) {
+    return { ok: false, error: `unexpected arguments: ${rest}` };
+  }
+  const missing = specs.filter((s) => s.required && !(s.name in args));
+  if (missing.length > 0) {
+    return { ok: false, error: `missing ${missing.map((s) => s.name).join(", ")} (usage: ${commandUsage(command)})` };
+  }
+  return { ok: true, args };
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, OmniboxCommand>();
+  private listeners: (() => void)[] = [];
+
+  /**
+   * Register a command. Returns a function that unregisters it.
+   */
+  register(command: OmniboxCommand): () => void {
+    const name = command.name.trim().toLowerCase();
+    if (!name) throw new Error("command name is required");
+    if (this.commands.has(name)) throw new Error(`command already registered: ${name}`);
+    this.commands.set(name, { ...command, name });
+    this.notify();
+    return () => {
+      if (this.commands.delete(name)) this.notify();
+    };
+  }
+
+  get(name: string): OmniboxCommand | null {
+    return this.commands.get(name.trim().toLowerCase()) ?? null;
+  }
+
+  list(): OmniboxCommand[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * The command whose name the text starts with (longest name wins),
+   * and the argument text after it.
+   */
+  parse(text: string): { command: OmniboxCommand; argText: string } | null {
+    const lower = text.toLowerCase();
+    let found: OmniboxCommand | null = null;
+    for (const command of this.commands.values()) {
+      const boundary = lower.length === command.name.length || /\s/.test(lower[command.name.length] ?? "");
+      if (lower.startsWith(command.name) && boundary && (!found || command.name.length > found.name.length)) {
+        found = command;
+      }
+    }
+    return found ? { command: found, argText: text.slice(found.name.length).trim() } : null;
+  }
+
+  /**
+   * Commands for the Omnibox list. A command named at the start of the input
+   * ranks first; otherwise names and descriptions are fuzzy-matched.
+   */
+  search(input: string): CommandMatch[] {
+    const text = commandText(input);
+    if (!text) {
+      return this.list().map((command) => ({ command, score: 0, ranges: [] }));
+    }
+
+    const parsed = this.parse(text);
+    if (parsed) {
+      return [{ command: parsed.command, score: Infinity, ranges: [[0, parsed.command.name.length]] }];
+    }
+
+    const matches: CommandMatch[] = [];
+    for (const command of this.commands.values()) {
+      const byName = matchText(text, command.name);
+      const byDescription = matchText(text, command.description);
+      const score = (byName ? 2 * byName.quality : 0) + (byDescription ? byDescription.quality : 0);
+      if (score > 0) matches.push({ command, score, ranges: byName?.ranges ?? [] });
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Run a command with argument text. Errors become a failed CommandResult.
+   */
+  async run(command: OmniboxCommand, argText = ""): Promise<CommandResult> {
+    const parsed = parseCommandArgs(command, argText);
+    if (!parsed.ok) {
+      return { ok: false, title: `${command.name}: ${parsed.error}` };
+    }
+    try {
+      return await command.run(parsed.args);
+    } catch (e) {
+      return { ok: false, title: `${command.name} failed: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  }
+
+  /**
+   * Parse and run Omnibox input ("> goto main").
+   */
+  async execute(input: string): Promise<CommandResult> {
+    const parsed = this.parse(commandText(input));
+    if (!parsed) {
+      return { ok: false, title: `Unknown command: ${commandText(input) || "(empty)"}` };
+    }
+    return this.run(parsed.command, parsed.argText);
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (e) {
+        // Ignore listener errors so registration always completes
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Built-in commands
+// ============================================================================
+
+/** Trigger a browser download of a text file. */
+export function downloadText(filename: string, text: string, type = "application/json"): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function registerBuiltinCommands(
+  registry: CommandRegistry,
+  deps: { download?: (filename: string, text: string) => void } = {}
+): () => void {
+  const download = deps.download ?? downloadText;
+
+  const unregister = [
+    registry.register({
+      name: "validate registry",
+      description: "Check registry entries, required fields and the dependency graph",
+      run: () => {
+        const issues = validateRegistry();
+        const errors = issues.filter((i) => i.severity === "error").length;
+        return {
+          ok: errors === 0,
+          title: issues.length === 0 ? "Registry is valid" : `${issues.length} issue(s), ${errors} error(s)`,
+          lines: issues.map((i) => `[${i.severity}] ${i.entryId}: ${i.issue}`),
+        };
+      },
+    }),
+
+    registry.register({
+      name: "export events",
+      description: "Download the instrumentation event log as JSON",
+      run: () => {
+        const exported = eventLog.export();
+        download(`zetacard-events-${exported.buildId}.json`, JSON.stringify(exported, null, 2));
+        return { ok: true, title: `Exported ${exported.events.length} event(s)` };
+      },
+    }),
+
+    registry.register({
+      name: "goto",
+      description: "Move the repo location to a ref, commit or ref:path",
+      args: [{ name: "target", description: "e.g. main:/cards/pulse", required: true }],
+      run: async ({ target }) => {
+        // Loaded on demand: the repo is file-backed and only available under Node
+        const { locationManager } = await import("./location");
+        const resolved = await locationManager.resolve(target);
+        if (!resolved.commit) {
+          return { ok: false, title: `Cannot resolve ${target}` };
+        }
+        const here = await locationManager.move(target);
+        return { ok: true, title: `Moved to ${here.commit}:${here.path}` };
+      },
+    }),
+
+    registry.register({
+      name: "versions",
+      description: "List earlier versions of a repo card (commits that changed it)",
+      args: [{ name: "card", description: "card id or name", required: true }],
+      run: async ({ card }) => {
+        const id = resolveBestCard(card);
+        if (!id) return { ok: false, title: `No card matches ${card}` };
+        const title = getCard(id)?.meta.title ?? id;
+        // Loaded on demand: the repo is file-backed and only available under Node
+        const { cardVersions, isRepoCard } = await import("./cardManifests");
+        if (!isRepoCard(id)) return { ok: false, title: `${title} is not stored in the repo` };
+        const versions = await cardVersions(id);
+        return {
+          ok: true,
+          title: `${versions.length} version(s) of ${title}`,
+          lines: versions.map((v) => `${v.commit} ${new Date(v.timestamp).toISOString().slice(0, 10)} ${v.message}`),
+        };
+      },
+    }),
+
+    registry.register({
+      name: "diff",
+      description: "Show how card manifests changed between two refs or commits",
+      args: [
+        { name: "from", description: "ref or commit", required: true },
+        { name: "to", description: "ref or commit", required: true },
+        { name: "card", description: "only this card (id, name or directory)" },
+      ],
+      run: async ({ from, to, card }) => {
+        // Loaded on demand: the repo is file-backed and only available under Node
+        const { diffManifests } = await import("./cardManifests");
+        const id = card ? resolveBestCard(card) : null;
+        const diffs = (await diffManifests(from, to)).filter(
+          (d) => !card || d.id === id || d.path.split("/")[1] === card || d.from?.split("/")[1] === card
+        );
+        return {
+          ok: true,
+          title: diffs.length === 0 ? `No manifest changes from ${from} to ${to}` : `${diffs.length} manifest(s) changed`,
+          lines: diffs.flatMap((d) => [
+            `${d.status} ${d.from ? `${d.from} → ` : ""}${d.path}`,
+            ...(d.lines ? formatLineDiff(d.lines.filter((l) => l.op !== "equal")) : d.changes.map(formatJsonChange)).map(
+              (line) => `  ${line}`
+            ),
+          ]),
+        };
+      },
+    }),
+
+    registry.register({
+      name: "readme drift",
+      description: "Validate the README against the card registry",
+      run: () => {
+        // Only reports: the README bundled with this build is checked without touching the live ReadmeCard
+        const issues = validateReadmeAgainstRegistry(readmeText);
+        return {
+          ok: issues.length === 0,
+          title: issues.length === 0 ? "README matches the registry" : `${issues.length} drift issue(s)`,
+          lines: issues.map((i) => `${i.cardId}: ${i.message}`),
+        };
+      },
+    }),
+
+    registry.register({
+      name: "pin",
+      description: "Pin or unpin a card at the top of the empty-query list",
+      args: [{ name: "card", description: "card id or name", required: true }],
+      run: ({ card }) => {
+        const id = resolveBestCard(card);
+        if (!id) return { ok: false, title: `No card matches ${card}` };
+        cardRecents.togglePin(id);
+        const title = getCard(id)?.meta.title ?? id;
+        return { ok: true, title: cardRecents.isPinned(id) ? `Pinned ${title}` : `Unpinned ${title}` };
+      },
+    }),
+
+    registry.register({
+      name: "clear recents",
+      description: "Forget recently opened cards (pinned cards stay)",
+      run: () => {
+        cardRecents.clear();
+        return { ok: true, title: "Recents cleared" };
+      },
+    }),
+  ];
+
+  return () => unregister.forEach((fn) => fn());
+}
+
+// Singleton with the built-in commands
+export const commandRegistry = new CommandRegistry();
+registerBuiltinCommands(commandRegistry);
@@ -0,0 +1,142 @@
+/**
+ * ζ-Card: Card Router
+ *
+ * The URL is a reflection of the active card's `id`; navigation is implemented
+ * by activating cards. The router never owns state of its own:
+ *
+ *   runtime activation  →  URL hash   (reflection)
+ *   URL hash (load, back/forward)  →  runtime.activate(id, { reason: "route_reflection" })
+ *
+ * Ids are encoded into the hash losslessly (`#/%CE%B6.card.sun-contract`).
+ * Any registered id that does not survive an encode/decode round trip is
+ * reported as `non_reversible_route`.
+ */
+
+import { CardID, CardFailure, CardFailureRegistry } from "./cardContract";
+import { listCards } from "./cardRegistry";
+import { CardRuntime, cardRuntime } from "./cardRuntime";
+import { eventLog } from "./instrumentation";
+
+const ROUTE_PREFIX = "#/";
+
+/**
+ * Encode a card id as a URL hash.
+ * Throws if the id cannot be represented (e.g. lone UTF-16 surrogates).
+ */
+export function encodeCardRoute(id: CardID): string {
+  return ROUTE_PREFIX + encodeURIComponent(id);
+}
+
+/**
+ * Decode a URL hash back into a card id.
+ * Returns null for an empty route or a malformed encoding.
+ */
+export function decodeCardRoute(hash: string): CardID | null {
+  if (!hash.startsWith(ROUTE_PREFIX)) return null;
+  const raw = hash.slice(ROUTE_PREFIX.length);
+  if (!raw) return null;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that every id survives encode → decode unchanged.
+ */
+export function checkRouteReversibility(
+  ids: CardID[] = listCards().map((c) => c.id)
+): CardFailure[] {
+  const failures: CardFailure[] = [];
+  for (const id of ids) {
+    let decoded: CardID | null = null;
+    try {
+      decoded = decodeCardRoute(encodeCardRoute(id));
+    } catch {
+      decoded = null;
+    }
+    if (decoded !== id) {
+      failures.push({
+        code: CardFailureRegistry.NON_REVERSIBLE_ROUTE.code,
+        message: `${CardFailureRegistry.NON_REVERSIBLE_ROUTE.message}: ${JSON.stringify(id)}`,
+        severity: "error",
+      });
+    }
+  }
+  return failures;
+}
+
+export class CardRouter {
+  private runtime: CardRuntime;
+  private win: Window;
+  private failures: CardFailure[] = [];
+
+  constructor(runtime: CardRuntime = cardRuntime, win: Window = window) {
+    this.runtime = runtime;
+    this.win = win;
+  }
+
+  /**
+   * Start reflecting: apply the current URL, then keep URL and runtime in sync.
+   * Returns a stop function.
+   */
+  start(): () => void {
+    this.failures = checkRouteReversibility();
+    for (const failure of this.failures) {
+      eventLog.emit({ type: "ERROR", source: "validation", message: failure.message });
+    }
+
+    const onNavigate = () => this.applyLocation();
+    this.win.addEventListener("popstate", onNavigate);
+    this.win.addEventListener("hashchange", onNavigate);
+    const unsubscribe = this.runtime.subscribe((id) => this.reflect(id));
+
+    this.applyLocation();
+
+    return () => {
+      this.win.removeEventListener("popstate", onNavigate);
+      this.win.removeEventListener("hashchange", onNavigate);
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Route failures found when the router started.
+   */
+  getFailures(): CardFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * URL → runtime: activate the card named by the current hash.
+   */
+  private applyLocation(): void {
+    const id = decodeCardRoute(this.win.location.hash);
+    if (id === this.runtime.getActiveId()) return;
+    if (id === null) {
+      this.runtime.deactivate();
+      return;
+    }
+    if (this.runtime.has(id)) {
+      this.runtime.activate(id, { reason: "route_reflection" });
+    }
+  }
+
+  /**
+   * Runtime → URL: push a history entry for the new active card.
+   */
+  private reflect(id: CardID | null): void {
+    const { pathname, search, hash } = this.win.location;
+    let nextHash = "";
+    if (id !== null) {
+      try {
+        nextHash = encodeCardRoute(id);
+      } catch {
+        return; // Reported by checkRouteReversibility()
+      }
+    }
+    if (nextHash === hash || (nextHash === "" && decodeCardRoute(hash) === null)) return;
+    this.win.history.pushState(null, "", pathname + search + nextHash);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * ζ-Card: SafeRun
+ *
+ * A rollback-able activation. Instead of activating the live card, SafeRun
+ * snapshots its state, runs a sandbox copy (receive any routed input,
+ * activate, then `step()` N times),
+ * and previews what would change: a path-level state diff plus any failures
+ * the run introduced. The caller then commits (the live card takes the
+ * sandbox state and is activated in SafeRun mode) or discards (the live card
+ * is left untouched).
+ *
+ * This is what "safe" means for cards like SunContract whose dose
+ * accumulates irreversibly: the dose is spent in the sandbox first.
+ *
+ * Sandboxes come from the headless factories (see headless.ts); cards
+ * without one cannot SafeRun.
+ */
+
+import { CardActivationContext, CardFailure, CardID, CardPortValues, ZetaCardContract } from "./cardContract";
+import { cloneState } from "./cardPersistence";
+import { CardRuntime, cardRuntime } from "./cardRuntime";
+import { headlessCardFactories } from "./headless";
+import { eventLog } from "./instrumentation";
+
+/** Steps a SafeRun advances the sandbox by default (~1s at 60fps). */
+export const DEFAULT_SAFE_RUN_STEPS = 60;
+
+export type StateChange = {
+  path: string; // "agents.a1.dose", "violations[0]", "" for the whole state
+  before: unknown;
+  after: unknown;
+};
+
+export type SafeRunOptions = {
+  steps?: number;
+  dt?: number; // forwarded to step(dt) for cards that take a timestep
+  input?: CardPortValues; // delivered to the sandbox through receive() before it runs
+  createSandbox?: (card: ZetaCardContract) => ZetaCardContract;
+};
+
+export type SafeRunPreview<State = unknown> = {
+  cardId: CardID;
+  steps: number;
+  before: State;
+  after: State;
+  changes: StateChange[];
+  failures: CardFailure[]; // everything the sandbox reports after the run
+  newFailures: CardFailure[]; // failures the live card did not already report
+};
+
+export type SafeRunStatus = "pending" | "committed" | "discarded";
+
+type SteppableCard = ZetaCardContract & { step(dt?: number): void };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Path-level differences between two state snapshots. Objects and arrays are
+ * compared member by member; typed arrays are reported as one change.
+ */
+export function diffStates(before: unknown, after: unknown, path = ""): StateChange[] {
+  if (Object.is(before, after)) return [];
+
+  if (ArrayBuffer.isView(before) && ArrayBuffer.isView(after)) {
+    const a = before as unknown as ArrayLike<number>;
+    const b = after as unknown as ArrayLike<number>;
+    const same = a.length === b.length && Array.prototype.every.call(a, (v: number, i: number) => Object.is(v, b[i]));
+    return same ? [] : [{ path, before, after }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: StateChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      changes.push(...diffStates(before[i], after[i], joinPath(path, i)));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: StateChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      changes.push(...diffStates(before[key], after[key], joinPath(path, key)));
+    }
+    return changes;
+  }
+
+  return [{ path, before, after }];
+}
+
+/** Short display form of a state value for diff listings. */
+export function formatStateValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(4)));
+  if (ArrayBuffer.isView(value)) return `${value.constructor.name}(${(value as unknown as ArrayLike<number>).length})`;
+  if (Array.isArray(value)) return `[${value.length} items]`;
+  if (isPlainObject(value)) return `{${Object.keys(value).length} keys}`;
+  return JSON.stringify(value);
+}
+
+function failureKey(f: CardFailure): string {
+  return `${f.code}\u0000${f.message}`;
+}
+
+/**
+ * One pending SafeRun of a live card. The preview is computed up front; the
+ * live card is not touched until `commit()`.
+ */
+export class SafeRunSession<State = unknown> {
+  private _status: SafeRunStatus = "pending";
+
+  constructor(
+    readonly preview: SafeRunPreview<State>,
+    private card: ZetaCardContract<State>,
+    private runtime: CardRuntime
+  ) {}
+
+  get status(): SafeRunStatus {
+    return this._status;
+  }
+
+  /**
+   * Whether the live card changed since the snapshot was taken
+   * (committing overwrites those changes with the sandbox result).
+   */
+  isStale(): boolean {
+    return diffStates(this.preview.before, this.card.getState()).length > 0;
+  }
+
+  /**
+   * Apply the sandbox state to the live card and activate it in SafeRun mode.
+   */
+  commit(ctx: CardActivationContext = {}): ZetaCardContract<State> {
+    this.settle("committed");
+    this.card.setState(cloneState(this.preview.after));
+    return this.runtime.activate(this.card.id, { reason: "safe_run_commit", ...ctx }, "SafeRun");
+  }
+
+  /**
+   * Drop the sandbox result. The live card keeps its state and stays inactive.
+   */
+  discard(): void {
+    this.settle("discarded");
+  }
+
+  private settle(outcome: Exclude<SafeRunStatus, "pending">) {
+    if (this._status !== "pending") {
+      throw new Error(`SafeRun already ${this._status}: ${this.card.id}`);
+    }
+    this._status = outcome;
+    eventLog.emit({
+      type: "SAFE_RUN_RESOLVED",
+      cardId: this.card.id,
+      outcome,
+      changes: this.preview.changes.length,
+      newFailures: this.preview.newFailures.length,
+    });
+  }
+}
+
+/**
+ * Snapshot a live card, run a sandbox copy and return the pending session.
+ */
+export function startSafeRun(id: CardID, options: SafeRunOptions = {}, runtime: CardRuntime = cardRuntime): SafeRunSession {
+  const steps = options.steps ?? DEFAULT_SAFE_RUN_STEPS;
+  if (!Number.isInteger(steps) || steps < 0) {
+    throw new Error(`steps must be a non-negative integer: ${options.steps}`);
+  }
+  const card = runtime.get(id);
+  if (!card) {
+    throw new Error("card not registered: " + id);
+  }
+
+  const createSandbox = options.createSandbox ?? headlessCardFactories[id];
+  if (!createSandbox) {
+    throw new Error("card has no sandbox implementation: " + id);
+  }
+
+  const before = cloneState(card.getState());
+  const failuresBefore = new Set((card.getFailures?.() ?? []).map(failureKey));
+
+  const sandbox = createSandbox(card);
+  try {
+    sandbox.setState(cloneState(before));
+    if (options.input) sandbox.receive?.(options.input);
+    sandbox.activate({ reason: "safe_run", timestamp: Date.now() });
+    const step = (sandbox as Partial<SteppableCard>).step;
+    if (typeof step === "function") {
+      for (let i = 0; i < steps; i++) step.call(sandbox, options.dt);
+    }
+
+    const after = cloneState(sandbox.getState());
+    const failures = sandbox.getFailures?.() ?? [];
+    return new SafeRunSession(
+      {
+        cardId: id,
+        steps: typeof step === "function" ? steps : 0,
+        before,
+        after,
+        changes: diffStates(before, after),
+        failures,
+        newFailures: failures.filter((f) => !failuresBefore.has(failureKey(f))),
+      },
+      card,
+      runtime
+    );
+  } finally {
+    sandbox.deactivate?.();
+    (sandbox as { dispose?: () => void }).dispose?.();
+  }
+}
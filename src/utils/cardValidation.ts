@@ -12,7 +12,8 @@ import {
   validateGradientInvariant,
   ZetaGradientCardContract,
 } from "../cardContract";
-import { CardRegistry } from "../cardRegistry";
+import { CardRegistry, CardRegistryEntry } from "../cardRegistry";
+import { buildCardGraph } from "../cardGraph";
 
 // ============================================================================
 // Validation Results
@@ -327,17 +328,22 @@ export function getHealthStats(monitor: HealthMonitor): {
 // Registry Consistency Checks
 // ============================================================================
 
-/**
- * Check if all registry entries are valid.
- */
-export function validateRegistry(): Array<{
+export interface RegistryIssue {
   entryId: string;
   issue: string;
   severity: "error" | "warn";
-}> {
-  const issues: Array<{ entryId: string; issue: string; severity: "error" | "warn" }> = [];
+}
 
-  for (const [id, entry] of Object.entries(CardRegistry)) {
+/**
+ * Check if all registry entries are valid.
+ * Pass a candidate registry to check a change before applying it.
+ */
+export function validateRegistry(
+  registry: Record<string, CardRegistryEntry> = CardRegistry
+): RegistryIssue[] {
+  const issues: RegistryIssue[] = [];
+
+  for (const [id, entry] of Object.entries(registry)) {
     // Check ID consistency
     if (id !== entry.id) {
       issues.push({
@@ -348,7 +354,7 @@ export function validateRegistry(): Array<{
     }
 
     // Check required fields
-    if (!entry.meta.title) {
+    if (!entry.meta?.title) {
       issues.push({
         entryId: id,
         issue: "Missing meta.title",
@@ -364,6 +370,15 @@ export function validateRegistry(): Array<{
       });
     }
 
+    if (!Array.isArray(entry.invariants) || !Array.isArray(entry.failureModes)) {
+      issues.push({
+        entryId: id,
+        issue: "invariants and failureModes must be arrays",
+        severity: "error",
+      });
+      continue;
+    }
+
     // Check documentation
     if (entry.invariants.length === 0) {
       issues.push({
@@ -374,5 +389,16 @@ export function validateRegistry(): Array<{
     }
   }
 
+  // Check dependency graph (missing inputs, cycles)
+  for (const [id, failures] of buildCardGraph(Object.values(registry)).getAllFailures()) {
+    for (const failure of failures) {
+      issues.push({
+        entryId: id,
+        issue: `${failure.code}: ${failure.message}`,
+        severity: "error",
+      });
+    }
+  }
+
   return issues;
 }
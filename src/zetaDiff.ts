@@ -0,0 +1,229 @@
+/**
+ * ζ-Card: Diffs
+ *
+ * Content diffs for what the ZetaRepo stores (ZetaRepo.diffTrees compares
+ * the trees themselves):
+ *
+ *   diffLines(a, b)   line-level edit script for text blobs
+ *   diffJson(a, b)    which key changed from what to what, for card manifests
+ *   mergeJson(base, ours, theirs)
+ *                     key-level three-way merge, for card manifests
+ *
+ *   diffJson({ invariants: ["A: x"] }, { invariants: ["A: y"] })
+ *     → [{ path: "invariants[0]", kind: "changed", from: "A: x", to: "A: y" }]
+ *
+ * Arrays whose items all carry the same identifying key (`id` or `code`, as
+ * io ports and failure modes do) are matched by that key rather than by
+ * index, so inserting a failure mode does not report every later one as
+ * changed: `failureModes[dose_exceeded].severity`. mergeJson merges such
+ * arrays item by item, and arrays of distinct strings or numbers (tags,
+ * invariants) as sets: additions and removals from both sides are kept.
+ */
+
+export type LineDiffOp = "equal" | "add" | "remove";
+
+export type LineDiff = {
+  op: LineDiffOp;
+  text: string;
+};
+
+export type JsonChangeKind = "added" | "removed" | "changed";
+
+export type JsonChange = {
+  path: string; // "" for the root value
+  kind: JsonChangeKind;
+  from?: unknown;
+  to?: unknown;
+};
+
+export type JsonConflict = {
+  path: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+};
+
+export type JsonMerge = {
+  value: unknown; // ours wherever there is a conflict
+  conflicts: JsonConflict[];
+};
+
+const ITEM_KEYS = ["id", "code"];
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  // A trailing newline ends the last line rather than starting an empty one
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Line-level diff (longest common subsequence). Unchanged leading and
+ * trailing lines are trimmed first, so the cost is quadratic only in the
+ * changed region.
+ */
+export function diffLines(a: string, b: string): LineDiff[] {
+  const x = splitLines(a);
+  const y = splitLines(b);
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length;
+  let endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) {
+    endX--;
+    endY--;
+  }
+
+  const midX = x.slice(start, endX);
+  const midY = y.slice(start, endY);
+  // lcs[i][j]: common subsequence length of midX[i..] and midY[j..]
+  const lcs: number[][] = Array.from({ length: midX.length + 1 }, () => new Array(midY.length + 1).fill(0));
+  for (let i = midX.length - 1; i >= 0; i--) {
+    for (let j = midY.length - 1; j >= 0; j--) {
+      lcs[i][j] = midX[i] === midY[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: LineDiff[] = x.slice(0, start).map((text) => ({ op: "equal", text }));
+  let i = 0;
+  let j = 0;
+  while (i < midX.length || j < midY.length) {
+    if (i < midX.length && j < midY.length && midX[i] === midY[j]) {
+      out.push({ op: "equal", text: midX[i] });
+      i++;
+      j++;
+    } else if (i < midX.length && (j === midY.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Removals before additions, as git prints them
+      out.push({ op: "remove", text: midX[i] });
+      i++;
+    } else {
+      out.push({ op: "add", text: midY[j] });
+      j++;
+    }
+  }
+  out.push(...x.slice(endX).map((text) => ({ op: "equal" as const, text })));
+  return out;
+}
+
+/** "+ added", "- removed", "  unchanged" lines. */
+export function formatLineDiff(diff: LineDiff[]): string[] {
+  return diff.map((d) => (d.op === "add" ? "+ " : d.op === "remove" ? "- " : "  ") + d.text);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`;
+}
+
+// The key every item of all the arrays is identified by, if any
+function itemKey(...lists: unknown[][]): string | null {
+  if (lists.every((list) => list.length === 0)) return null;
+  for (const key of ITEM_KEYS) {
+    const ids = lists.map((list) => list.map((item) => (isObject(item) ? item[key] : undefined)));
+    if (!ids.every((list) => list.every((id) => typeof id === "string"))) continue;
+    // Ids must also be unique within each array
+    if (ids.every((list) => new Set(list).size === list.length)) return key;
+  }
+  return null;
+}
+
+function byItemKey(items: unknown[], key: string): Map<string, unknown> {
+  return new Map(items.map((item) => [(item as Record<string, string>)[key], item]));
+}
+
+function isValueSet(list: unknown[]): boolean {
+  return list.every((item) => typeof item === "string" || typeof item === "number") && new Set(list).size === list.length;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Structural diff of two JSON values. Objects are compared key by key,
+ * arrays by identifying key or index; anything else is compared as a whole.
+ */
+export function diffJson(a: unknown, b: unknown, path = ""): JsonChange[] {
+  if (a === undefined && b === undefined) return [];
+  if (a === undefined) return [{ path, kind: "added", to: b }];
+  if (b === undefined) return [{ path, kind: "removed", from: a }];
+
+  if (isObject(a) && isObject(b)) {
+    const keys = [...Object.keys(a), ...Object.keys(b).filter((k) => !(k in a))];
+    return keys.flatMap((key) => diffJson(a[key], b[key], childPath(path, key)));
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const key = itemKey(a, b);
+    if (key) {
+      const from = byItemKey(a, key);
+      const to = byItemKey(b, key);
+      const ids = [...from.keys(), ...[...to.keys()].filter((id) => !from.has(id))];
+      return ids.flatMap((id) => diffJson(from.get(id), to.get(id), `${path}[${id}]`));
+    }
+    const length = Math.max(a.length, b.length);
+    return Array.from({ length }, (_, i) => diffJson(a[i], b[i], `${path}[${i}]`)).flat();
+  }
+
+  return sameJson(a, b) ? [] : [{ path, kind: "changed", from: a, to: b }];
+}
+
+/**
+ * Three-way merge of JSON values (undefined: absent). A side that left a
+ * value as it was in `base` takes the other side's change; objects and
+ * identified arrays merge key by key; anything changed differently on both
+ * sides is a conflict, resolved to `ours` in the returned value.
+ */
+export function mergeJson(base: unknown, ours: unknown, theirs: unknown, path = ""): JsonMerge {
+  if (sameJson(ours, theirs)) return { value: ours, conflicts: [] };
+  if (sameJson(ours, base)) return { value: theirs, conflicts: [] };
+  if (sameJson(theirs, base)) return { value: ours, conflicts: [] };
+
+  if (isObject(ours) && isObject(theirs) && (base === undefined || isObject(base))) {
+    const from = base ?? {};
+    const value: Record<string, unknown> = {};
+    const conflicts: JsonConflict[] = [];
+    const keys = [...Object.keys(ours), ...Object.keys(theirs).filter((k) => !(k in ours))];
+    for (const key of keys) {
+      const merged = mergeJson(from[key], ours[key], theirs[key], childPath(path, key));
+      if (merged.value !== undefined) value[key] = merged.value;
+      conflicts.push(...merged.conflicts);
+    }
+    return { value, conflicts };
+  }
+
+  if (Array.isArray(ours) && Array.isArray(theirs) && (base === undefined || Array.isArray(base))) {
+    const from = base ?? [];
+    const key = itemKey(from, ours, theirs);
+    if (key) {
+      const [b, o, t] = [byItemKey(from, key), byItemKey(ours, key), byItemKey(theirs, key)];
+      const value: unknown[] = [];
+      const conflicts: JsonConflict[] = [];
+      for (const id of [...o.keys(), ...[...t.keys()].filter((id) => !o.has(id))]) {
+        const merged = mergeJson(b.get(id), o.get(id), t.get(id), `${path}[${id}]`);
+        if (merged.value !== undefined) value.push(merged.value);
+        conflicts.push(...merged.conflicts);
+      }
+      return { value, conflicts };
+    }
+    if (isValueSet(from) && isValueSet(ours) && isValueSet(theirs)) {
+      const removedByTheirs = from.filter((item) => !theirs.includes(item));
+      const addedByTheirs = theirs.filter((item) => !from.includes(item) && !ours.includes(item));
+      return { value: [...ours.filter((item) => !removedByTheirs.includes(item)), ...addedByTheirs], conflicts: [] };
+    }
+  }
+
+  return { value: ours, conflicts: [{ path, base, ours, theirs }] };
+}
+
+/** e.g. `invariants[0]: "A: x" → "A: y"`, `tags[1]: + "beat"`. */
+export function formatJsonChange(change: JsonChange): string {
+  const where = change.path || "(root)";
+  if (change.kind === "added") return `${where}: + ${JSON.stringify(change.to)}`;
+  if (change.kind === "removed") return `${where}: - ${JSON.stringify(change.from)}`;
+  return `${where}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`;
+}
@@ -1,3 +1,5 @@
+import { JsonConflict, mergeJson } from './zetaDiff';
+
 // Check if we're in Node.js environment
 const isNode = typeof process !== 'undefined' && typeof process.versions !== 'undefined' && typeof process.versions.node !== 'undefined';
 
@@ -7,6 +9,8 @@ let fs: any = null;
 let path: any = null;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let crypto: any = null;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let zlib: any = null;
 
 if (isNode) {
   try {
@@ -17,6 +21,8 @@ if (isNode) {
     path = require('path');
     // eslint-disable-next-line @typescript-eslint/no-var-requires, no-restricted-globals
     crypto = require('crypto');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, no-restricted-globals
+    zlib = require('zlib');
   } catch(e) {
     // Not in Node.js or modules not available
   }
@@ -41,7 +47,7 @@ try{
   hasIsogit = false; 
 }
 
-type CommitObj = {
+export type CommitObj = {
   tree: string;
   parents: string[];
   author?: {name:string,email?:string};
@@ -53,9 +59,89 @@ type CommitObj = {
 
 type EventListener = (...args: unknown[]) => void;
 
+/**
+ * On-disk layout of a ZetaRepo:
+ *   json  blobs/, trees/ and commits/ as raw files and JSON, refs in refs.json
+ *   git   a bare git repository: loose zlib objects under objects/, refs under
+ *         refs/, HEAD and config, readable with `git --git-dir=<root>`
+ */
+export type RepoFormat = 'json' | 'git';
+
+export type RepoOptions = {
+  format?: RepoFormat;
+};
+
+// One entry of a tree object (a single directory level)
+export type TreeEntry = {
+  name: string;
+  mode: string;
+  type: 'blob' | 'tree';
+  oid: string;
+};
+
+// Edits for updateTree/commitChanges; paths are full slashed paths from the tree root
+export type TreeChange =
+  | {op: 'put', path: string, content: string | Buffer}
+  | {op: 'put', path: string, oid: string}
+  | {op: 'remove', path: string}
+  | {op: 'rename', from: string, to: string};
+
+export type LogOptions = {
+  limit?: number;          // stop after this many commits
+  firstParent?: boolean;   // follow only the first parent of merges
+  since?: number;          // ms timestamps, inclusive
+  until?: number;
+  path?: string;           // only commits that changed this file or directory
+};
+
+export type LogEntry = {
+  oid: string;
+  commit: CommitObj;
+};
+
+export type TreeDiffEntry = {
+  status: 'added' | 'removed' | 'modified' | 'renamed';
+  path: string;         // the path in the newer tree (the older one for removals)
+  from?: string;        // previous path of a renamed file
+  oldOid?: string;
+  newOid?: string;
+};
+
+export type MergeOptions = {
+  message?: string;
+  author?: {name:string,email?:string};
+  fastForward?: boolean;  // default true; false always creates a merge commit
+};
+
+export type MergeConflict = {
+  path: string;
+  reason: 'content' | 'add/add' | 'modify/delete' | 'json' | 'file/directory' | 'mode';
+  base?: string;          // blob oids; absent where the side has no file
+                          // ('file/directory': the file at `path` clashes with a directory of the same name;
+                          //  'mode': both sides changed the file mode differently)
+  ours?: string;
+  theirs?: string;
+  keys?: JsonConflict[];  // for 'json': the keys both sides changed differently
+};
+
+export type MergeResult = {
+  status: 'merged' | 'fast-forward' | 'up-to-date' | 'conflict';
+  base: string | null;
+  ours: string;
+  theirs: string;
+  commit?: string;        // the resulting head, unless there are conflicts
+  conflicts: MergeConflict[];
+};
+
+const DEFAULT_AUTHOR = {name: 'zeta', email: 'zeta@example.com'};
+// Commit metadata has no place in a git commit object; it rides in a message trailer
+const METADATA_TRAILER = 'Zeta-Metadata: ';
+
 /**
  * Minimal ZetaRepo: git-compatible API surface (init, blobs, trees, commits, refs)
  * Implements a light-weight, file-backed store under `.zeta_repo/`.
+ * With `{format: 'git'}` objects and refs are stored exactly as git stores
+ * them, so oids agree with `git hash-object` and the stock CLI can read the repo.
  * If `isomorphic-git` is added later, this class can be adapted to delegate to it.
  */
 export class ZetaRepo {
@@ -64,17 +150,22 @@ export class ZetaRepo {
   treesDir: string;
   commitsDir: string;
   refsFile: string;
+  objectsDir: string;
+  format: RepoFormat;
   useIsogit: boolean;
   workdir: string;
   listeners: Record<string, EventListener[]>;
 
-  constructor(root = path.resolve('.zeta_repo')){
+  constructor(root = path.resolve('.zeta_repo'), options: RepoOptions = {}){
     this.root = root;
+    this.format = options.format ?? 'json';
+    this.objectsDir = path.join(this.root, 'objects');
     this.blobsDir = path.join(this.root, 'blobs');
     this.treesDir = path.join(this.root, 'trees');
     this.commitsDir = path.join(this.root, 'commits');
     this.refsFile = path.join(this.root, 'refs.json');
-    this.useIsogit = hasIsogit;
+    // The isomorphic-git mirror only makes sense next to the JSON store
+    this.useIsogit = hasIsogit && this.format === 'json';
     this.workdir = path.join(this.root, 'workdir');
     this.listeners = {};
   }
@@ -104,6 +195,7 @@ export class ZetaRepo {
     }catch(e){
       // Directory may already exist
     }
+    if(this.format === 'git') return this.initGit();
     for(const d of [this.blobsDir,this.treesDir,this.commitsDir]){ 
       try{ 
         await fs.mkdir(d, {recursive:true}); 
@@ -134,6 +226,7 @@ export class ZetaRepo {
 
   async writeBlob(content: string | Buffer){
     const buf = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+    if(this.format === 'git') return this.writeObject('blob', buf);
     const oid = this.oidOf(buf);
     const p = path.join(this.blobsDir, oid + '.blob');
     try{ 
@@ -145,6 +238,7 @@ export class ZetaRepo {
   }
 
   async readBlob(oid: string){
+    if(this.format === 'git') return (await this.readObject(oid, 'blob')).content;
     const p = path.join(this.blobsDir, oid + '.blob');
     try{
       return await fs.readFile(p);
@@ -153,11 +247,55 @@ export class ZetaRepo {
     }
   }
 
-  async writeTree(entries: {path:string, oid:string, type:'blob'|'tree'}[]){
-    // tree is mapping of path-> {oid,type}
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const treeObj: any = {};
-    for(const e of entries) treeObj[e.path]= {oid:e.oid, type:e.type};
+  // write a tree from full paths; slashed paths become nested trees, one object per directory
+  // (`mode` defaults to a regular file or a directory; json trees do not store it)
+  async writeTree(entries: {path:string, oid:string, type:'blob'|'tree', mode?:string}[]): Promise<string>{
+    const level = new Map<string, TreeEntry>();
+    const dirs = new Map<string, {path:string, oid:string, type:'blob'|'tree', mode?:string}[]>();
+    for(const e of entries){
+      const [name, ...rest] = normalizeTreePath(e.path).split('/');
+      if(rest.length){
+        dirs.set(name, [...(dirs.get(name) || []), {...e, path: rest.join('/')}]);
+      }else{
+        level.set(name, {name, mode: e.mode ?? (e.type === 'tree' ? TREE_MODE : BLOB_MODE), type: e.type, oid: e.oid});
+      }
+    }
+    for(const [name, sub] of dirs){
+      if(level.has(name)) throw new Error('path is both a file and a directory: ' + name);
+      level.set(name, {name, mode: TREE_MODE, type: 'tree', oid: await this.writeTree(sub)});
+    }
+    return this.writeTreeObject([...level.values()]);
+  }
+
+  // every file under a tree, by full path (nested trees are flattened)
+  async readTree(oid:string, prefix = ''): Promise<Record<string, {oid:string, type:'blob'|'tree', mode:string}>>{
+    const out: Record<string, {oid:string, type:'blob'|'tree', mode:string}> = {};
+    for(const e of await this.readTreeEntries(oid)){
+      if(e.type === 'tree') Object.assign(out, await this.readTree(e.oid, prefix + e.name + '/'));
+      else out[prefix + e.name] = {oid: e.oid, type: e.type, mode: e.mode};
+    }
+    return out;
+  }
+
+  // list one directory level of a tree
+  async readTreeEntries(oid:string): Promise<TreeEntry[]>{
+    if(this.format === 'git') return decodeTree((await this.readObject(oid, 'tree')).content);
+    // json tree: mapping of name -> {oid,type}; older trees used full slashed paths as names
+    let tree: Record<string, {oid:string, type:'blob'|'tree'}>;
+    try{ 
+      const txt = await fs.readFile(path.join(this.treesDir, oid + '.json'),'utf8'); 
+      tree = JSON.parse(txt); 
+    }catch(e){ 
+      throw new Error('tree not found ' + oid); 
+    }
+    return Object.keys(tree).map(name=>({name, mode: tree[name].type === 'tree' ? TREE_MODE : BLOB_MODE, type: tree[name].type, oid: tree[name].oid}));
+  }
+
+  private async writeTreeObject(entries: TreeEntry[]): Promise<string>{
+    if(this.format === 'git') return this.writeObject('tree', encodeTree(entries));
+    // Sorted keys, so equal trees get equal oids
+    const treeObj: Record<string, {oid:string, type:'blob'|'tree'}> = {};
+    for(const e of [...entries].sort((a, b)=>a.name < b.name ? -1 : a.name > b.name ? 1 : 0)) treeObj[e.name] = {oid:e.oid, type:e.type};
     const content = JSON.stringify(treeObj);
     const oid = this.oidOf(content);
     const p = path.join(this.treesDir, oid + '.json');
@@ -169,25 +307,63 @@ export class ZetaRepo {
     return oid;
   }
 
-  async readTree(oid:string){
-    const p = path.join(this.treesDir, oid + '.json');
-    try{ 
-      const txt = await fs.readFile(p,'utf8'); 
-      return JSON.parse(txt); 
-    }catch(e){ 
-      throw new Error('tree not found ' + oid); 
+  /**
+   * Apply changes to a tree (null: the empty tree) and write the result.
+   * Removing or renaming a directory moves everything under it.
+   */
+  async updateTree(baseTree:string|null, changes: TreeChange[]): Promise<string>{
+    const files = new Map<string, string>();
+    if(baseTree){
+      for(const [p, e] of Object.entries(await this.readTree(baseTree))) files.set(p, e.oid);
+    }
+    const under = (dir:string)=>[...files.keys()].filter(p=>p === dir || p.startsWith(dir + '/'));
+    for(const change of changes){
+      if(change.op === 'put'){
+        const oid = 'oid' in change ? change.oid : await this.writeBlob(change.content);
+        files.set(normalizeTreePath(change.path), oid);
+      }else if(change.op === 'remove'){
+        const matched = under(normalizeTreePath(change.path));
+        if(!matched.length) throw new Error('path not found in tree: ' + change.path);
+        for(const p of matched) files.delete(p);
+      }else{
+        const from = normalizeTreePath(change.from);
+        const to = normalizeTreePath(change.to);
+        const matched = under(from);
+        if(!matched.length) throw new Error('path not found in tree: ' + change.from);
+        if(under(to).some(p=>!matched.includes(p))) throw new Error('path already exists in tree: ' + change.to);
+        const moved = matched.map(p=>[to + p.slice(from.length), files.get(p) as string]);
+        for(const p of matched) files.delete(p);
+        for(const [p, oid] of moved) files.set(p, oid);
+      }
     }
+    return this.writeTree([...files].map(([p, oid])=>({path: p, oid, type: 'blob' as const})));
+  }
+
+  // commit changes on top of the branch head's tree and advance the branch (a name or full ref)
+  async commitChanges(branch:string, changes: TreeChange[], message:string, metadata?:unknown, author?:{name:string,email?:string}){
+    if(!branch.startsWith('refs/')) branch = `refs/heads/${branch}`;
+    const parent = await this.readRef(branch);
+    const baseTree = parent ? (await this.readCommit(parent)).tree : null;
+    const treeOid = await this.updateTree(baseTree, changes);
+    const commitOid = await this.commit(treeOid, parent ? [parent] : [], message, metadata, author);
+    await this.updateRef(branch, commitOid);
+    return {treeOid, commitOid, parent};
   }
 
   async commit(treeOid:string, parents:string[], message:string, metadata?:unknown, author?:{name:string,email?:string}){
     const commit:CommitObj = {tree:treeOid, parents: parents||[], message, timestamp: Date.now(), metadata, author };
-    const content = JSON.stringify(commit, null, 2);
-    const oid = this.oidOf(content);
-    const p = path.join(this.commitsDir, oid + '.json');
-    try{ 
-      await fs.access(p); 
-    }catch(e){ 
-      await fs.writeFile(p, content, 'utf8'); 
+    let oid: string;
+    if(this.format === 'git'){
+      oid = await this.writeObject('commit', Buffer.from(encodeCommit(commit), 'utf8'));
+    }else{
+      const content = JSON.stringify(commit, null, 2);
+      oid = this.oidOf(content);
+      const p = path.join(this.commitsDir, oid + '.json');
+      try{ 
+        await fs.access(p); 
+      }catch(e){ 
+        await fs.writeFile(p, content, 'utf8'); 
+      }
     }
     // emit commit event for watchers
     this.emit('commit', oid, commit);
@@ -195,6 +371,9 @@ export class ZetaRepo {
   }
 
   async readCommit(oid:string):Promise<CommitObj>{
+    if(this.format === 'git'){
+      return decodeCommit((await this.readObject(oid, 'commit')).content.toString('utf8'));
+    }
     const p = path.join(this.commitsDir, oid + '.json');
     try{ 
       const txt = await fs.readFile(p,'utf8'); 
@@ -205,6 +384,7 @@ export class ZetaRepo {
   }
 
   async listCommits(): Promise<string[]>{
+    if(this.format === 'git') return this.listObjects('commit');
     try{ 
       const files = await fs.readdir(this.commitsDir); 
       return files.filter((f: string)=>f.endsWith('.json')).map((f: string)=>f.replace(/\.json$/,'')); 
@@ -213,7 +393,259 @@ export class ZetaRepo {
     }
   }
 
+  // ---- history ----
+
+  // a branch name, full ref, HEAD or a full commit oid
+  async resolveCommit(target:string): Promise<string|null>{
+    if(/^[0-9a-f]{40}$/i.test(target)) return target.toLowerCase();
+    return this.readRef(target === 'HEAD' || target.startsWith('refs/') ? target : `refs/heads/${target}`);
+  }
+
+  /**
+   * Walk history from `ref`, newest commit first (like `git log`).
+   * With `path`, a commit is listed when the file or directory at that path
+   * differs from every parent (or, for a root commit, exists).
+   */
+  async log(ref:string, options: LogOptions = {}): Promise<LogEntry[]>{
+    const start = await this.resolveCommit(ref);
+    if(!start) return [];
+    const target = options.path ? normalizeTreePath(options.path) : null;
+    const out: LogEntry[] = [];
+    const seen = new Set<string>([start]);
+    const queue: LogEntry[] = [{oid: start, commit: await this.readCommit(start)}];
+
+    while(queue.length && (options.limit === undefined || out.length < options.limit)){
+      // Newest first across branches of a merge
+      queue.sort((a, b)=>b.commit.timestamp - a.commit.timestamp);
+      const entry = queue.shift() as LogEntry;
+      const parents = options.firstParent ? entry.commit.parents.slice(0, 1) : entry.commit.parents;
+      const parentEntries: LogEntry[] = [];
+      for(const oid of parents){
+        parentEntries.push({oid, commit: await this.readCommit(oid)});
+      }
+      for(const parent of parentEntries){
+        if(seen.has(parent.oid)) continue;
+        seen.add(parent.oid);
+        queue.push(parent);
+      }
+
+      if(options.since !== undefined && entry.commit.timestamp < options.since) continue;
+      if(options.until !== undefined && entry.commit.timestamp > options.until) continue;
+      if(target){
+        const here = await this.resolvePath(entry.commit.tree, target);
+        let changed = parentEntries.length ? true : here !== null;
+        for(const parent of parentEntries){
+          if(await this.resolvePath(parent.commit.tree, target) === here) changed = false;
+        }
+        if(!changed) continue;
+      }
+      out.push(entry);
+    }
+    return out;
+  }
+
+  // oid of the blob or tree at `treePath` inside a tree, or null
+  async resolvePath(treeOid:string, treePath:string): Promise<string|null>{
+    const parts = normalizeTreePath(treePath).split('/');
+    let oid = treeOid;
+    for(let i = 0; i < parts.length; i++){
+      const entries = await this.readTreeEntries(oid);
+      // Older json trees keep full slashed paths as names
+      const flat = entries.find(e=>e.name === parts.slice(i).join('/'));
+      if(flat) return flat.oid;
+      const entry = entries.find(e=>e.name === parts[i]);
+      if(!entry || (i < parts.length - 1 && entry.type !== 'tree')) return null;
+      oid = entry.oid;
+    }
+    return oid;
+  }
+
+  /**
+   * Files that differ between two commits (refs or oids), sorted by path.
+   * A file removed at one path and added with the same content at another
+   * is reported once, as renamed.
+   */
+  async diffTrees(a:string, b:string): Promise<TreeDiffEntry[]>{
+    const files = async (target:string)=>{
+      const oid = await this.resolveCommit(target);
+      if(!oid) throw new Error('ref has no commit: ' + target);
+      return this.readTree((await this.readCommit(oid)).tree);
+    };
+    const before = await files(a);
+    const after = await files(b);
+    const out: TreeDiffEntry[] = [];
+    const removed: string[] = [];
+    for(const p of Object.keys(before)){
+      if(!after[p]) removed.push(p);
+      else if(after[p].oid !== before[p].oid) out.push({status: 'modified', path: p, oldOid: before[p].oid, newOid: after[p].oid});
+    }
+    const added = Object.keys(after).filter(p=>!before[p]);
+    for(const p of removed.sort()){
+      const to = added.find(q=>after[q].oid === before[p].oid);
+      if(to){
+        added.splice(added.indexOf(to), 1);
+        out.push({status: 'renamed', path: to, from: p, oldOid: before[p].oid, newOid: after[to].oid});
+      }else{
+        out.push({status: 'removed', path: p, oldOid: before[p].oid});
+      }
+    }
+    for(const p of added) out.push({status: 'added', path: p, newOid: after[p].oid});
+    return out.sort((x, y)=>x.path < y.path ? -1 : x.path > y.path ? 1 : 0);
+  }
+
+  /**
+   * Three-way merge of `theirs` into `ours` (refs or commits) from their
+   * merge base. Paths changed on one side only are taken as they are; JSON
+   * files (card manifests) changed on both sides merge key by key. Anything
+   * else changed on both sides is reported in `conflicts`, as is a file
+   * that would clash with a directory of the same name; then nothing is
+   * written. A clean merge creates a commit with parents [ours, theirs] and,
+   * when `ours` names a branch (or HEAD, which advances the branch it points
+   * at), advances it.
+   */
+  async merge(ours:string, theirs:string, options: MergeOptions = {}): Promise<MergeResult>{
+    const oursOid = await this.resolveCommit(ours);
+    if(!oursOid) throw new Error('ref has no commit: ' + ours);
+    const theirsOid = await this.resolveCommit(theirs);
+    if(!theirsOid) throw new Error('ref has no commit: ' + theirs);
+    const branch = /^[0-9a-f]{40}$/i.test(ours) ? null
+      : ours === 'HEAD' ? (await this.readSymbolicRef('HEAD')) ?? 'HEAD'
+      : ours.startsWith('refs/') ? ours : `refs/heads/${ours}`;
+    const base = await this.mergeBase(oursOid, theirsOid);
+    const result: MergeResult = {status: 'merged', base, ours: oursOid, theirs: theirsOid, conflicts: []};
+
+    if(base === theirsOid) return {...result, status: 'up-to-date', commit: oursOid};
+    if(base === oursOid && options.fastForward !== false){
+      if(branch) await this.updateRef(branch, theirsOid);
+      return {...result, status: 'fast-forward', commit: theirsOid};
+    }
+
+    const filesAt = async (oid:string|null): Promise<Record<string, {oid:string, mode:string}>>=>oid ? this.readTree((await this.readCommit(oid)).tree) : {};
+    const [b, o, t] = [await filesAt(base), await filesAt(oursOid), await filesAt(theirsOid)];
+    const merged = new Map<string, {oid:string, mode:string}>();
+    for(const p of [...new Set([...Object.keys(o), ...Object.keys(t), ...Object.keys(b)])].sort()){
+      const [bo, oo, to] = [b[p]?.oid, o[p]?.oid, t[p]?.oid];
+      let oid: string | undefined;
+      if(oo === to || to === bo) oid = oo;
+      else if(oo === bo) oid = to;
+      else if(!oo || !to){
+        result.conflicts.push({path: p, reason: 'modify/delete', base: bo, ours: oo, theirs: to});
+        continue;
+      }else{
+        const json = p.endsWith('.json') ? await this.mergeJsonBlobs(bo, oo, to) : null;
+        if(!json || json.conflicts.length){
+          result.conflicts.push({path: p, reason: json ? 'json' : bo ? 'content' : 'add/add', base: bo, ours: oo, theirs: to, ...(json ? {keys: json.conflicts} : {})});
+          continue;
+        }
+        oid = json.oid;
+      }
+      if(!oid) continue;
+      // Modes (executable bits) merge the same way, apart from the content
+      const [bm, om, tm] = [b[p]?.mode, o[p]?.mode, t[p]?.mode];
+      const mode = om === tm || tm === bm ? om : om === bm ? tm : undefined;
+      if(!mode){
+        result.conflicts.push({path: p, reason: 'mode', base: bo, ours: oo, theirs: to});
+        continue;
+      }
+      merged.set(p, {oid, mode});
+    }
+    // One side's file where the other side now has a directory (cards/x vs cards/x/manifest.json)
+    for(const p of merged.keys()){
+      const parts = p.split('/');
+      for(let i = 1; i < parts.length; i++){
+        const dir = parts.slice(0, i).join('/');
+        if(!merged.has(dir) || result.conflicts.some(c=>c.path === dir)) continue;
+        result.conflicts.push({path: dir, reason: 'file/directory', base: b[dir]?.oid, ours: o[dir]?.oid, theirs: t[dir]?.oid});
+      }
+    }
+    if(result.conflicts.length) return {...result, status: 'conflict', conflicts: result.conflicts.sort((x, y)=>x.path < y.path ? -1 : x.path > y.path ? 1 : 0)};
+
+    const tree = await this.writeTree([...merged].map(([p, f])=>({path: p, oid: f.oid, mode: f.mode, type: 'blob' as const})));
+    // Name the branch HEAD points at, as git does
+    const into = ours === 'HEAD' && branch && branch !== 'HEAD' ? branch.replace(/^refs\/heads\//, '') : ours;
+    const message = options.message ?? `Merge ${theirs} into ${into}`;
+    const commit = await this.commit(tree, [oursOid, theirsOid], message, undefined, options.author);
+    if(branch) await this.updateRef(branch, commit);
+    return {...result, commit};
+  }
+
+  // key-level merge of three JSON blobs; null when one of them is not JSON
+  private async mergeJsonBlobs(base:string|undefined, ours:string, theirs:string): Promise<{oid?:string, conflicts:JsonConflict[]}|null>{
+    const oursText = (await this.readBlob(ours)).toString('utf8');
+    let values: unknown[];
+    try{
+      values = [base ? JSON.parse((await this.readBlob(base)).toString('utf8')) : undefined, JSON.parse(oursText), JSON.parse((await this.readBlob(theirs)).toString('utf8'))];
+    }catch(e){
+      return null;
+    }
+    const {value, conflicts} = mergeJson(values[0], values[1], values[2]);
+    if(conflicts.length) return {conflicts};
+    // Keep our side's layout: indented or compact, with or without a final newline
+    const indented = /^[[{]\s*\n/.test(oursText);
+    const text = JSON.stringify(value, null, indented ? 2 : undefined) + (oursText.endsWith('\n') ? '\n' : '');
+    return {oid: await this.writeBlob(text), conflicts};
+  }
+
+  // true when `ancestor` is reachable from `descendant` (a commit is its own ancestor)
+  async isAncestor(ancestor:string, descendant:string): Promise<boolean>{
+    return (await this.ancestors(descendant)).has(ancestor);
+  }
+
+  /**
+   * Best common ancestor of two commits: a common ancestor that is not an
+   * ancestor of another common ancestor (the newest if several qualify).
+   * Null for unrelated histories.
+   */
+  async mergeBase(a:string, b:string): Promise<string|null>{
+    const fromA = await this.ancestors(a);
+    // Walk back from b, stopping at the first commits that a also reaches
+    const candidates: string[] = [];
+    const seen = new Set<string>();
+    const queue = [b];
+    while(queue.length){
+      const oid = queue.shift() as string;
+      if(seen.has(oid)) continue;
+      seen.add(oid);
+      if(fromA.has(oid)){ candidates.push(oid); continue; }
+      queue.push(...(await this.readCommit(oid)).parents);
+    }
+    // Drop candidates that another candidate reaches (criss-cross histories)
+    const parents: string[] = [];
+    for(const oid of candidates) parents.push(...(await this.readCommit(oid)).parents);
+    const below = await this.ancestors(...parents);
+    const best: LogEntry[] = [];
+    for(const oid of candidates){
+      if(!below.has(oid)) best.push({oid, commit: await this.readCommit(oid)});
+    }
+    best.sort((x, y)=>y.commit.timestamp - x.commit.timestamp);
+    return best.length ? best[0].oid : null;
+  }
+
+  // Every commit reachable from the given ones, themselves included
+  private async ancestors(...oids:string[]): Promise<Set<string>>{
+    const seen = new Set<string>();
+    const stack = [...oids];
+    while(stack.length){
+      const next = stack.pop() as string;
+      if(seen.has(next)) continue;
+      seen.add(next);
+      stack.push(...(await this.readCommit(next)).parents);
+    }
+    return seen;
+  }
+
   async updateRef(ref:string, commitOid:string|null){
+    if(this.format === 'git'){
+      const p = path.join(this.root, ...ref.split('/'));
+      if(commitOid){
+        await fs.mkdir(path.dirname(p), {recursive:true});
+        await fs.writeFile(p, commitOid + '\n', 'utf8');
+      }else{
+        await fs.rm(p, {force:true});
+      }
+      this.emit('ref-update', ref, commitOid);
+      return;
+    }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let refs: any = {};
     try{ 
@@ -227,7 +659,19 @@ export class ZetaRepo {
     this.emit('ref-update', ref, commitOid);
   }
 
-  async readRef(ref:string){
+  // the ref a symbolic ref points at (HEAD → refs/heads/main), or null if it is not symbolic
+  async readSymbolicRef(ref:string): Promise<string|null>{
+    if(this.format !== 'git') return null;
+    try{
+      const txt = (await fs.readFile(path.join(this.root, ...ref.split('/')), 'utf8')).trim();
+      return txt.startsWith('ref: ') ? txt.slice(5).trim() : null;
+    }catch(e){
+      return null;
+    }
+  }
+
+  async readRef(ref:string): Promise<string|null>{
+    if(this.format === 'git') return this.readGitRef(ref);
     try{ 
       const txt = await fs.readFile(this.refsFile,'utf8'); 
       const refs = JSON.parse(txt); 
@@ -237,6 +681,101 @@ export class ZetaRepo {
     }
   }
 
+  // ---- git storage: loose objects, nested trees, refs as files ----
+
+  private async initGit(){
+    for(const d of [this.objectsDir, path.join(this.root, 'refs', 'heads'), path.join(this.root, 'refs', 'tags')]){
+      await fs.mkdir(d, {recursive:true});
+    }
+    const files: [string, string][] = [
+      ['HEAD', 'ref: refs/heads/main\n'],
+      ['config', '[core]\n\trepositoryformatversion = 0\n\tfilemode = true\n\tbare = true\n'],
+    ];
+    for(const [name, content] of files){
+      try{
+        await fs.access(path.join(this.root, name));
+      }catch(e){
+        await fs.writeFile(path.join(this.root, name), content, 'utf8');
+      }
+    }
+  }
+
+  private objectPath(oid:string){
+    return path.join(this.objectsDir, oid.slice(0, 2), oid.slice(2));
+  }
+
+  // store `content` as a loose object: zlib("<type> <size>\0" + content), named by its sha1
+  async writeObject(type: 'blob'|'tree'|'commit', content: Buffer){
+    const store = Buffer.concat([Buffer.from(`${type} ${content.length}\0`, 'utf8'), content]);
+    const oid = this.oidOf(store);
+    const p = this.objectPath(oid);
+    try{
+      await fs.access(p);
+    }catch(e){
+      await fs.mkdir(path.dirname(p), {recursive:true});
+      await fs.writeFile(p, zlib.deflateSync(store));
+    }
+    return oid;
+  }
+
+  async readObject(oid:string, expected?: 'blob'|'tree'|'commit'): Promise<{type:string, content:Buffer}>{
+    let raw: Buffer;
+    try{
+      raw = zlib.inflateSync(await fs.readFile(this.objectPath(oid)));
+    }catch(e){
+      throw new Error((expected || 'object') + ' not found ' + oid);
+    }
+    const nul = raw.indexOf(0);
+    const [type, size] = raw.subarray(0, nul).toString('utf8').split(' ');
+    const content = raw.subarray(nul + 1);
+    if(Number(size) !== content.length) throw new Error('corrupt object ' + oid);
+    if(expected && type !== expected) throw new Error(`object ${oid} is a ${type}, not a ${expected}`);
+    return {type, content};
+  }
+
+  private async listObjects(type: 'blob'|'tree'|'commit'): Promise<string[]>{
+    const oids: string[] = [];
+    let dirs: string[] = [];
+    try{
+      dirs = await fs.readdir(this.objectsDir);
+    }catch(e){
+      return [];
+    }
+    for(const dir of dirs.filter(d=>/^[0-9a-f]{2}$/.test(d))){
+      const files: string[] = await fs.readdir(path.join(this.objectsDir, dir));
+      for(const f of files.filter(f=>/^[0-9a-f]{38}$/.test(f))){
+        if((await this.readObject(dir + f)).type === type) oids.push(dir + f);
+      }
+    }
+    return oids;
+  }
+
+  private async readGitRef(ref:string, depth = 0): Promise<string|null>{
+    let txt: string | null = null;
+    try{
+      txt = (await fs.readFile(path.join(this.root, ...ref.split('/')), 'utf8')).trim();
+    }catch(e){
+      // Not a loose ref; it may have been packed by `git gc`
+      txt = await this.readPackedRef(ref);
+    }
+    // Symbolic refs (HEAD) point at another ref
+    if(txt && txt.startsWith('ref: ')) return depth < 5 ? this.readGitRef(txt.slice(5).trim(), depth + 1) : null;
+    return txt || null;
+  }
+
+  private async readPackedRef(ref:string): Promise<string|null>{
+    try{
+      const txt: string = await fs.readFile(path.join(this.root, 'packed-refs'), 'utf8');
+      for(const line of txt.split('\n')){
+        const [oid, name] = line.trim().split(' ');
+        if(name === ref && /^[0-9a-f]{40}$/.test(oid)) return oid;
+      }
+    }catch(e){
+      // No packed refs
+    }
+    return null;
+  }
+
   // convenience: write a card manifest at path and commit on branch
   async addCardAndCommit(cardPath:string, manifestContent:string, branch='refs/heads/main', message='Add card'){
     if(this.useIsogit){
@@ -249,26 +788,19 @@ export class ZetaRepo {
         const oid = await isogit.commit({fs: nodeFS, dir: this.workdir, message, author: {name: author?.name || 'zeta', email: author?.email || 'zeta@example.com'}});
         // note: isogit.commit returns oid; we still mirror commit into our local object store
         const blobOid = await this.writeBlob(manifestContent);
-        const entries = [{path:cardPath, oid:blobOid, type:'blob' as const}];
-        const treeOid = await this.writeTree(entries);
-        const parent = await this.readRef(branch);
-        const commitOid = await this.commit(treeOid, parent? [parent] : [], message, undefined, author);
-        await this.updateRef(branch, commitOid);
+        const {treeOid, commitOid} = await this.commitChanges(branch, [{op:'put', path:cardPath, oid:blobOid}], message, undefined, author);
         return {blobOid, treeOid, commitOid, gitOid: oid};
       }catch(e){ 
         // Fallback to file-backed below if isogit fails
       }
     }
+    // The new tree keeps every other card already on the branch
     const blobOid = await this.writeBlob(manifestContent);
-    const entries = [{path:cardPath, oid:blobOid, type:'blob' as const}];
-    const treeOid = await this.writeTree(entries);
-    const parent = await this.readRef(branch);
-    const commitOid = await this.commit(treeOid, parent? [parent] : [], message);
-    await this.updateRef(branch, commitOid);
+    const {treeOid, commitOid} = await this.commitChanges(branch, [{op:'put', path:cardPath, oid:blobOid}], message);
     return {blobOid, treeOid, commitOid};
   }
 
-  // read a path at a given ref (branch name)
+  // read a path at a given ref (branch name, full ref or commit oid)
   async readPathAtRef(ref:string, cardPath:string){
     // If using isogit, prefer to read from its workdir using the ref
     if(this.useIsogit){
@@ -280,7 +812,7 @@ export class ZetaRepo {
         // Fallback to file-backed implementation
       }
     }
-    const commitOid = await this.readRef(ref);
+    const commitOid = await this.resolveCommit(ref);
     if(!commitOid) throw new Error('ref has no commit: ' + ref);
     const commit = await this.readCommit(commitOid);
     const tree = await this.readTree(commit.tree);
@@ -291,5 +823,79 @@ export class ZetaRepo {
   }
 }
 
+const BLOB_MODE = '100644';
+const TREE_MODE = '40000';
+
+function normalizeTreePath(p: string): string{
+  const parts = p.split('/').filter(Boolean);
+  if(!parts.length || parts.some(part=>part === '.' || part === '..')) throw new Error('invalid tree path: ' + p);
+  return parts.join('/');
+}
+
+// git sorts tree entries bytewise, comparing directory names as if they ended in '/'
+function encodeTree(entries: TreeEntry[]): Buffer{
+  const key = (e: TreeEntry)=>Buffer.from(e.type === 'tree' ? e.name + '/' : e.name, 'utf8');
+  const sorted = [...entries].sort((a, b)=>Buffer.compare(key(a), key(b)));
+  return Buffer.concat(sorted.flatMap(e=>[Buffer.from(`${e.mode} ${e.name}\0`, 'utf8'), Buffer.from(e.oid, 'hex')]));
+}
+
+function decodeTree(buf: Buffer): TreeEntry[]{
+  const entries: TreeEntry[] = [];
+  let i = 0;
+  while(i < buf.length){
+    const space = buf.indexOf(0x20, i);
+    const nul = buf.indexOf(0, space);
+    const mode = buf.subarray(i, space).toString('utf8');
+    const name = buf.subarray(space + 1, nul).toString('utf8');
+    const oid = buf.subarray(nul + 1, nul + 21).toString('hex');
+    i = nul + 21;
+    // Submodule links (160000) point outside the repo; skip them
+    if(mode === TREE_MODE) entries.push({name, mode, type: 'tree', oid});
+    else if(mode !== '160000') entries.push({name, mode, type: 'blob', oid});
+  }
+  return entries;
+}
+
+function encodeCommit(commit: CommitObj): string{
+  const name = (commit.author?.name || DEFAULT_AUTHOR.name).replace(/[<>\n]/g, '');
+  const email = (commit.author?.email || DEFAULT_AUTHOR.email).replace(/[<>\n]/g, '');
+  const ident = `${name} <${email}> ${Math.floor(commit.timestamp / 1000)} +0000`;
+  const lines = [`tree ${commit.tree}`, ...commit.parents.map(p=>`parent ${p}`), `author ${ident}`, `committer ${ident}`];
+  let message = commit.message || '';
+  if(commit.metadata !== undefined) message += '\n\n' + METADATA_TRAILER + JSON.stringify(commit.metadata);
+  return lines.join('\n') + '\n\n' + message + '\n';
+}
+
+function decodeCommit(text: string): CommitObj{
+  const split = text.indexOf('\n\n');
+  const headers = (split < 0 ? text : text.slice(0, split)).split('\n');
+  let message = split < 0 ? '' : text.slice(split + 2).replace(/\n$/, '');
+  const commit: CommitObj = {tree: '', parents: [], timestamp: 0};
+  for(const line of headers){
+    const [key, ...rest] = line.split(' ');
+    const value = rest.join(' ');
+    if(key === 'tree') commit.tree = value;
+    else if(key === 'parent') commit.parents.push(value);
+    else if(key === 'author'){
+      const m = /^(.*) <(.*)> (\d+) [+-]\d{4}$/.exec(value);
+      if(m){
+        commit.author = {name: m[1], email: m[2]};
+        commit.timestamp = Number(m[3]) * 1000;
+      }
+    }
+  }
+  const trailer = message.lastIndexOf(METADATA_TRAILER);
+  if(trailer >= 2 && message.slice(trailer - 2, trailer) === '\n\n' && !message.slice(trailer).includes('\n')){
+    try{
+      commit.metadata = JSON.parse(message.slice(trailer + METADATA_TRAILER.length));
+      message = message.slice(0, trailer - 2);
+    }catch(e){
+      // Not our trailer; keep it as part of the message
+    }
+  }
+  commit.message = message;
+  return commit;
+}
+
 // Export a singleton for quick use
 export const repo = new ZetaRepo();
@@ -3,10 +3,13 @@ import {
   ZetaCardContract,
   CardID,
   CardMeta,
+  CardIO,
+  CardPortValues,
   CardFailure,
   CardActivationContext,
   CardFailureRegistry,
 } from "./cardContract";
+import {CardStateSchema, VersionedState, migrateState} from "./cardState";
 
 export type Params = {diffusion:number, sharpen:number, ambient:number};
 
@@ -18,9 +21,28 @@ export type CardState = {
   zeta: number[];
 };
 
+export const SpectralCardStateSchema: CardStateSchema<CardState> = {
+  version: 1,
+  migrations: {},
+  validate(state){
+    const issues:string[] = [];
+    const s = state as Partial<CardState>;
+    if(!Number.isInteger(s.size) || (s.size as number) <= 0) issues.push('size must be a positive integer');
+    const len = (s.surface as ArrayLike<number> | undefined)?.length;
+    if(typeof len !== 'number') issues.push('surface must be array-like');
+    else if(Number.isInteger(s.size) && len !== (s.size as number)*(s.size as number)) issues.push(`surface has ${len} cells, expected size*size`);
+    const p = s.params;
+    if(!p || typeof p.diffusion !== 'number' || typeof p.sharpen !== 'number' || typeof p.ambient !== 'number') issues.push('params must have numeric diffusion, sharpen, ambient');
+    if(!Array.isArray(s.bandEnergy)) issues.push('bandEnergy must be an array');
+    if(!Array.isArray(s.zeta)) issues.push('zeta must be an array');
+    return issues;
+  },
+};
+
 export class Card implements ZetaCardContract<CardState> {
   readonly id: CardID;
   readonly meta: CardMeta;
+  readonly io: CardIO = { inputs: ["facet:number-series"], outputs: ["spectral.zeta", "spectral.bandEnergy"] };
 
   size:number;
   surface:Float32Array;
@@ -28,7 +50,11 @@ export class Card implements ZetaCardContract<CardState> {
   params:Params;
   bandEnergy:number[];
   zeta:number[];
+  readonly stateSchema = SpectralCardStateSchema;
   private _isActive: boolean = false;
+  private stateFailure: CardFailure | null = null; // last rejected snapshot
+  private inputFailure: CardFailure | null = null; // last rejected input
+  private listeners: Array<() => void> = [];
 
   constructor(size=64, cardId?: CardID){
     this.size = size;
@@ -74,6 +100,7 @@ export class Card implements ZetaCardContract<CardState> {
     this.surface = dst.slice();
     this.tmp.fill(0);
     this.computeBandsAndZeta();
+    this.changed();
   }
 
   computeBandsAndZeta(){
@@ -152,14 +179,23 @@ export class Card implements ZetaCardContract<CardState> {
   /**
    * Card contract: restore state.
    * Allows the card to be reset to a known state without mutation from views.
+   * Snapshots that fail validation are rejected and reported via getFailures().
    */
-  setState(next: CardState): void {
+  setState(input: CardState | VersionedState<unknown>): void {
+    const result = migrateState(this.stateSchema, input);
+    if (!result.ok) {
+      this.stateFailure = result.failure;
+      return;
+    }
+    this.stateFailure = null;
+    const next = result.state;
     this.size = next.size;
     this.surface = new Float32Array(next.surface);
     this.tmp = new Float32Array(this.size * this.size);
     this.params = { ...next.params };
     this.bandEnergy = [...next.bandEnergy];
     this.zeta = [...next.zeta];
+    this.changed();
   }
 
   /**
@@ -175,6 +211,62 @@ export class Card implements ZetaCardContract<CardState> {
     }
   }
 
+  /**
+   * Card contract: deactivation hook.
+   * Called by the runtime when another card becomes active.
+   */
+  deactivate(): void {
+    this._isActive = false;
+  }
+
+  /**
+   * Load a number series onto the surface: values are min-max normalized to
+   * [0, 1] and tiled row by row, then bands and zeta are recomputed so the
+   * series' spectral fingerprint is available immediately.
+   */
+  loadSeries(series: number[]){
+    // A loop rather than Math.min(...series): spreading a long series overflows the call stack
+    let min = Infinity, max = -Infinity;
+    for(const v of series){ if(v < min) min = v; if(v > max) max = v; }
+    const range = max - min;
+    for(let i=0;i<this.surface.length;i++){
+      const v = series[i % series.length];
+      this.surface[i] = range > EPS ? (v - min) / range : 0.5;
+    }
+    this.computeBandsAndZeta();
+    this.changed();
+  }
+
+  /**
+   * Card contract: dataflow inputs.
+   * "facet:number-series" (e.g. a pasted list of numbers) is loaded onto the surface.
+   */
+  receive(inputs: CardPortValues): void {
+    if (!("facet:number-series" in inputs)) return;
+    const series = inputs["facet:number-series"];
+    if (!Array.isArray(series) || series.length === 0 || !series.every((v) => typeof v === "number" && Number.isFinite(v))) {
+      this.inputFailure = {
+        ...CardFailureRegistry.INVALID_INPUT,
+        message: `${CardFailureRegistry.INVALID_INPUT.message}: facet:number-series expects a non-empty array of numbers`,
+        severity: "warn",
+      };
+      return;
+    }
+    this.inputFailure = null;
+    this.loadSeries(series);
+  }
+
+  /**
+   * Card contract: dataflow outputs.
+   * Publishes the spectral fingerprint for downstream cards.
+   */
+  publish(): CardPortValues {
+    return {
+      "spectral.zeta": [...this.zeta],
+      "spectral.bandEnergy": [...this.bandEnergy],
+    };
+  }
+
   /**
    * Card contract: introspection.
    * Declare failure modes so the UI can render appropriate warnings.
@@ -182,6 +274,13 @@ export class Card implements ZetaCardContract<CardState> {
   getFailures?(): CardFailure[] {
     const failures: CardFailure[] = [];
 
+    if (this.stateFailure) {
+      failures.push(this.stateFailure);
+    }
+    if (this.inputFailure) {
+      failures.push(this.inputFailure);
+    }
+
     // Check for flat spectrum
     const energy = this.bandEnergy.reduce((a, b) => a + b, 0);
     const maxBand = Math.max(...this.bandEnergy);
@@ -193,6 +292,20 @@ export class Card implements ZetaCardContract<CardState> {
     return failures;
   }
 
+  /**
+   * Card contract: change notification, after step, setState and loadSeries.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => { this.listeners = this.listeners.filter((l) => l !== listener); };
+  }
+
+  private changed(){
+    for(const listener of this.listeners){
+      try{ listener(); }catch(e){ /* Ignore listener errors so the mutation itself always completes */ }
+    }
+  }
+
   /**
    * Check if card is currently active.
    * (Useful for internal state tracking; not part of contract but useful for runtime.)